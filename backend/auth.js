@@ -2,18 +2,9 @@ const fs = require('fs');
 const path = require('path');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
+const db = require('./db');
 require('dotenv').config();
 
-let prisma = null;
-try {
-	const { PrismaClient } = require('@prisma/client');
-	prisma = new PrismaClient();
-	console.log('Prisma client initialized');
-} catch (e) {
-	console.warn('Prisma client not available, falling back to file storage for auth:', e.message);
-	prisma = null;
-}
-
 const DATA_DIR = path.join(__dirname, 'data');
 const USERS_FILE = path.join(DATA_DIR, 'users.json');
 
@@ -57,8 +48,8 @@ const JWT_EXPIRY = '7d'; // Token expires in 7 days
 
 // Helper functions that work with Prisma if available, otherwise use file storage
 async function findUserByEmailOrUsername(value) {
-	if (prisma) {
-		return await prisma.user.findFirst({
+	if (db.prisma) {
+		return await db.prisma.user.findFirst({
 			where: {
 				OR: [{ email: value }, { username: value }]
 			}
@@ -70,8 +61,8 @@ async function findUserByEmailOrUsername(value) {
 }
 
 async function findUserById(id) {
-	if (prisma) {
-		return await prisma.user.findUnique({ where: { id } });
+	if (db.prisma) {
+		return await db.prisma.user.findUnique({ where: { id } });
 	} else {
 		const users = readUsersFile();
 		return users.find(u => u.id === id) || null;
@@ -79,8 +70,8 @@ async function findUserById(id) {
 }
 
 async function createUser({ email, username, passwordHash, role }) {
-	if (prisma) {
-		return await prisma.user.create({
+	if (db.prisma) {
+		return await db.prisma.user.create({
 			data: {
 				email,
 				username,
@@ -249,6 +240,33 @@ function verifyToken(req, res, next) {
 	}
 }
 
+/**
+ * Socket.IO handshake middleware: verify the JWT sent in `auth.token`
+ * and expose its payload as `socket.data.user`
+ */
+function verifySocketToken(socket, next) {
+	const token = socket.handshake.auth && socket.handshake.auth.token;
+	if (!token) {
+		const err = new Error('Authentication required, please log in');
+		err.data = { code: 'NO_TOKEN' };
+		return next(err);
+	}
+	try {
+		const decoded = jwt.verify(token, JWT_SECRET);
+		socket.data.user = {
+			userId: decoded.userId,
+			username: decoded.username,
+			role: decoded.role
+		};
+		next();
+	} catch (error) {
+		const expired = error.name === 'TokenExpiredError';
+		const err = new Error(expired ? 'Your session has expired, please log in again' : 'Invalid authentication token, please log in again');
+		err.data = { code: expired ? 'TOKEN_EXPIRED' : 'INVALID_TOKEN' };
+		return next(err);
+	}
+}
+
 /**
  * Get current user profile
  */
@@ -277,5 +295,6 @@ module.exports = {
 	register,
 	login,
 	verifyToken,
+	verifySocketToken,
 	getProfile,
 };
@@ -0,0 +1,130 @@
+// Compares the whiteboard traffic of a class drawing at once, sent as one JSON op per pointer
+// event versus one binary batch per animation frame (wire.js). Strokes are simulated, and every
+// packet is encoded with socket.io's own encoder, so the sizes are what goes over the socket
+// (WebSocket frame headers aside).
+//
+//   node bench-wire.js [--students 30] [--seconds 10] [--rate 120] [--fps 60]
+//
+// --rate is how many pointer events a second each student's device produces; everyone else
+// in the room receives each student's points, and the sender gets an acknowledgement back.
+
+const { Encoder, PacketType } = require('socket.io-parser'); // the version socket.io uses
+const wire = require('./wire');
+
+const options = { students: 30, seconds: 10, rate: 120, fps: 60 };
+for (let i = 2; i < process.argv.length; i += 2) {
+	const name = process.argv[i].replace(/^--/, '');
+	const value = Number(process.argv[i + 1]);
+	if (!(name in options) || !(value > 0)) {
+		console.error('Usage: node bench-wire.js [--students 30] [--seconds 10] [--rate 120] [--fps 60]');
+		process.exit(1);
+	}
+	options[name] = value;
+}
+
+// The same strokes every run
+let seed = 1;
+const random = () => {
+	seed = (seed * 16807) % 2147483647;
+	return (seed - 1) / 2147483646;
+};
+
+const encoder = new Encoder();
+let ackId = 0;
+
+// Bytes of one socket.io packet as sent: text packets carry a one-byte engine.io prefix,
+// binary attachments go as frames of their own
+function packetSize(data, withAck) {
+	const packet = { type: PacketType.EVENT, nsp: '/', data };
+	if (withAck) packet.id = ackId++;
+	return encoder.encode(packet).reduce((total, part) => total + (typeof part === 'string' ? Buffer.byteLength(part) + 1 : part.length), 0);
+}
+
+const ackSize = () => Buffer.byteLength(encoder.encode({ type: PacketType.ACK, nsp: '/', id: ackId, data: [true] })[0]) + 1;
+
+// One student's pointer samples: strokes of handwriting-like movement with pauses between
+function simulateStudent(student, pageId) {
+	const samples = []; // { time, strokeId, point }
+	let time = random() * 0.5;
+	let stroke = 0;
+	while (time < options.seconds) {
+		const strokeId = `${Date.now().toString(36)}-s${student}k${stroke++}`;
+		const duration = 0.4 + random() * 1.6;
+		let x = 0.1 + random() * 0.8;
+		let y = 0.1 + random() * 0.45;
+		let angle = random() * Math.PI * 2;
+		const end = Math.min(time + duration, options.seconds);
+		for (; time < end; time += 1 / options.rate) {
+			angle += (random() - 0.5) * 0.6;
+			// About a third of the board width a second, in canvas pixels divided out to board units
+			const step = 0.33 / options.rate;
+			x += Math.cos(angle) * step;
+			y += Math.sin(angle) * step;
+			samples.push({ time, strokeId, point: [Math.round(x * 1280) / 1280 + random() * 1e-9, Math.round(y * 1280) / 1280 + random() * 1e-9] });
+		}
+		time += 0.2 + random() * 0.6;
+	}
+	return samples.map(sample => ({ ...sample, pageId }));
+}
+
+function measure() {
+	const pageId = '0f8a2c4e-5b7d-4e19-9a3c-6d2e8f1b7a90';
+	const receivers = options.students; // everyone else in the room, the teacher included
+	const json = { up: { events: 0, bytes: 0 }, down: { events: 0, bytes: 0 } };
+	const binary = { up: { events: 0, bytes: 0 }, down: { events: 0, bytes: 0 } };
+
+	for (let student = 0; student < options.students; student++) {
+		const samples = simulateStudent(student, pageId);
+		const lengths = new Map();
+		const appendFor = (sample, points) => {
+			const offset = lengths.get(sample.strokeId) || 0;
+			lengths.set(sample.strokeId, offset + points.length);
+			return { op: 'append', pageId, id: sample.strokeId, offset, points };
+		};
+
+		// Before: every pointer event is an op of its own, its points as they came
+		samples.forEach((sample) => {
+			const op = appendFor(sample, sample.point);
+			json.up.events++;
+			json.up.bytes += packetSize(['board_op', op], true);
+			json.down.events += 1 + receivers;
+			json.down.bytes += ackSize() + receivers * packetSize(['board_op', op], false);
+		});
+
+		// After: what was drawn in each animation frame goes as one batch
+		lengths.clear();
+		const frames = new Map();
+		samples.forEach((sample) => {
+			const frame = Math.floor(sample.time * options.fps);
+			if (!frames.has(frame)) frames.set(frame, []);
+			const points = sample.point.map(value => Math.round(value * 2 ** 18) / 2 ** 18);
+			frames.get(frame).push(appendFor(sample, points));
+		});
+		frames.forEach((appends) => {
+			const batch = wire.encodePoints(appends);
+			binary.up.events++;
+			binary.up.bytes += packetSize(['board_points', batch], true);
+			binary.down.events += 1 + receivers;
+			binary.down.bytes += ackSize() + receivers * packetSize(['board_points', batch], false);
+		});
+	}
+	return { json, binary };
+}
+
+const { json, binary } = measure();
+const perSecond = (value) => value / options.seconds;
+const format = (value) => Math.round(value).toLocaleString('en');
+const kilobytes = (bytes) => `${(bytes / 1024).toFixed(1)} KB`;
+const reduction = (before, after) => `${(100 * (1 - after / before)).toFixed(1)}%`;
+
+console.log(`${options.students} students drawing for ${options.seconds} s, pointer events at ${options.rate} Hz, batches at ${options.fps} fps\n`);
+const rows = [
+	['client → server events/s', perSecond(json.up.events), perSecond(binary.up.events), format],
+	['client → server bytes/s', perSecond(json.up.bytes), perSecond(binary.up.bytes), kilobytes],
+	['server → clients events/s', perSecond(json.down.events), perSecond(binary.down.events), format],
+	['server → clients bytes/s', perSecond(json.down.bytes), perSecond(binary.down.bytes), kilobytes]
+];
+console.log(`${''.padEnd(28)}${'JSON per event'.padStart(16)}${'binary batches'.padStart(16)}${'reduction'.padStart(12)}`);
+rows.forEach(([label, before, after, show]) => {
+	console.log(`${label.padEnd(28)}${show(before).padStart(16)}${show(after).padStart(16)}${reduction(before, after).padStart(12)}`);
+});
@@ -0,0 +1,535 @@
+// Whiteboard pages, their objects and the operations clients send to change them. The server
+// keeps every board as an ordered list of pages, each a list of objects in the order they were
+// created (later objects are drawn on top), and applies the same operations as the clients
+// before relaying them.
+//
+// Boards are kept convergent so that clients can go on drawing while offline and send their
+// changes when they are back. Every change carries a stamp, [counter, replica], where the
+// counter is a Lamport clock each client keeps and the replica (a random id per client) breaks
+// ties. Each field of an object, and whether it is on the board at all, goes to the change with
+// the highest stamp, and deleted objects leave a tombstone behind; so applying the same changes
+// in any order, or more than once, leaves every copy of the board the same.
+
+const crypto = require('crypto');
+const { isUploadId } = require('./uploads');
+const { TEMPLATES, MAX_EXPRESSION_LENGTH } = require('./geometry');
+
+const STROKE_TYPES = ['pen', 'eraser', 'highlighter'];
+const SHAPE_TYPES = ['line', 'rect', 'circle', 'arrow'];
+const TEXT_TYPES = ['text', 'sticky'];
+const INSTRUMENT_TYPES = ['ruler', 'protractor']; // laid along an edge from (x1, y1) to (x2, y2)
+const BOX_TYPES = ['sticky', 'equation', 'plot']; // placed by their top-left corner with a width and height
+const MAX_ID_LENGTH = 64;
+const MAX_POINTS = 20000; // coordinates per stroke, i.e. 10000 points
+const MAX_POLYGON_POINTS = 200; // coordinates, i.e. 100 corners
+const MAX_TEXT_LENGTH = 2000;
+const MAX_LATEX_LENGTH = 1000;
+const DEFAULT_AXES = [-10, 10, -10, 10];
+const MAX_TRASH = 500; // deleted objects kept per board so they can be restored by undo
+const MAX_TOMBSTONES = 5000; // ids of deleted objects remembered per board, so late changes to them are ignored
+// How far ahead of the board's clock a change may be stamped. A client that drew offline counts
+// one for each change it made meanwhile; a counter far beyond that would outbid every change
+// anyone makes after it, so it is pulled back to this.
+const MAX_CLOCK_LEAD = 100000;
+const MAX_PAGES = 50;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 10;
+
+const NO_STAMP = [0, '']; // objects from before stamps existed
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+function isStamp(value) {
+	return Array.isArray(value) && value.length === 2 && Number.isSafeInteger(value[0]) && value[0] >= 0 &&
+		typeof value[1] === 'string' && value[1].length <= MAX_ID_LENGTH;
+}
+
+function compareStamps(a, b) {
+	return a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+}
+
+// The stamp a change came with (its counter no more than MAX_CLOCK_LEAD ahead of the board's
+// clock), or a new one from the server; the board's clock moves past it
+function takeStamp(board, stamp) {
+	const taken = isStamp(stamp) ? [Math.min(stamp[0], board.clock + MAX_CLOCK_LEAD), stamp[1]] : [board.clock + 1, 'server'];
+	board.clock = Math.max(board.clock, taken[0]);
+	return taken;
+}
+
+const createdStamp = (object) => object.created || NO_STAMP;
+// When an object was last put on the board: created, or restored after being deleted
+const aliveStamp = (object) => (object.stamps && object.stamps.alive) || createdStamp(object);
+
+function isPointList(points) {
+	return Array.isArray(points) && points.length % 2 === 0 && points.every(isNumber);
+}
+
+// Stylus pressure, one value from 0 to 1 for each point of a pen stroke
+function isPressureList(pressures, points) {
+	return Array.isArray(pressures) && pressures.length * 2 === points.length && pressures.every(value => isNumber(value) && value >= 0 && value <= 1);
+}
+
+// The ranges a plot's axes cover, [xMin, xMax, yMin, yMax]
+function isAxes(axes) {
+	return Array.isArray(axes) && axes.length === 4 && axes.every(isNumber) && axes[0] < axes[1] && axes[2] < axes[3];
+}
+
+const isExpression = (value) => typeof value === 'string' && value.trim() !== '' && value.length <= MAX_EXPRESSION_LENGTH;
+
+// Copy the valid style fields of `data` for an object of `type` onto `object`
+function sanitizeStyle(data, type, object) {
+	if (typeof data.color === 'string' && data.color.length <= 32) object.color = data.color;
+	if (isNumber(data.size) && data.size > 0 && data.size < 1) object.size = data.size;
+	if (typeof data.fill === 'boolean' && (SHAPE_TYPES.includes(type) || type === 'polygon')) object.fill = data.fill;
+	if (isNumber(data.fontSize) && data.fontSize > 0 && data.fontSize < 1 && TEXT_TYPES.includes(type)) object.fontSize = data.fontSize;
+	if (typeof data.text === 'string' && data.text.length <= MAX_TEXT_LENGTH && TEXT_TYPES.includes(type)) object.text = data.text;
+	if (typeof data.latex === 'string' && data.latex.length <= MAX_LATEX_LENGTH && type === 'equation') object.latex = data.latex;
+	if (isExpression(data.expression) && type === 'plot') object.expression = data.expression;
+	if (isAxes(data.axes) && type === 'plot') object.axes = [...data.axes];
+}
+
+// Text sits at its top-left corner; sticky notes, equations and plots also have a size
+function sanitizeBox(data, type, object) {
+	if (isNumber(data.x)) object.x = data.x;
+	if (isNumber(data.y)) object.y = data.y;
+	if (BOX_TYPES.includes(type)) {
+		if (isNumber(data.width) && data.width > 0 && data.width <= 1) object.width = data.width;
+		if (isNumber(data.height) && data.height > 0 && data.height <= 1) object.height = data.height;
+	}
+}
+
+function newPage(objects = [], background = null, template = null) {
+	return { id: crypto.randomUUID(), objects, background, template };
+}
+
+// A page background is an uploaded image, locked underneath the drawing
+function sanitizeBackground(data) {
+	if (!data || !isUploadId(data.upload)) return null;
+	const width = parseInt(data.width, 10);
+	const height = parseInt(data.height, 10);
+	if (!(width > 0 && height > 0)) return null;
+	return { upload: data.upload, width, height };
+}
+
+// A page template rules the page with squares, dots, graph paper or music staves, underneath the drawing
+const sanitizeTemplate = (template) => (TEMPLATES.includes(template) ? template : null);
+
+// The part of a page someone is looking at: the board point at the top-left corner of their
+// screen and how far they have zoomed in (1 shows one board width across)
+function sanitizeViewport(data) {
+	if (!data || ![data.x, data.y, data.zoom].every(isNumber) || data.zoom < MIN_ZOOM || data.zoom > MAX_ZOOM) return null;
+	return { x: data.x, y: data.y, zoom: data.zoom };
+}
+
+// Where someone's pointer is on a page, or null once it has left the board
+function sanitizeCursor(data) {
+	if (!data || !isNumber(data.x) || !isNumber(data.y)) return null;
+	return { x: data.x, y: data.y };
+}
+
+/**
+ * Build a live board from what storedState() saved. Boards saved before tombstones were kept
+ * are just their pages, and boards saved before pages existed a plain list of objects, which
+ * becomes the first page.
+ */
+function createBoard(stored = []) {
+	const saved = stored && !Array.isArray(stored) ? stored : {};
+	const storedPages = Array.isArray(stored) ? stored : (Array.isArray(saved.pages) ? saved.pages : []);
+	let pages = storedPages.filter(page => page && typeof page.id === 'string' && Array.isArray(page.objects));
+	if (pages.length === 0) {
+		const legacyObjects = storedPages.filter(object => object && object.id && object.type);
+		pages = [newPage(legacyObjects)];
+	}
+	const deleted = new Map(Array.isArray(saved.deleted)
+		? saved.deleted.filter(entry => Array.isArray(entry) && typeof entry[0] === 'string' && isStamp(entry[1]))
+		: []);
+	let clock = Number.isSafeInteger(saved.clock) && saved.clock >= 0 ? saved.clock : 0;
+	pages.forEach(page => page.objects.forEach((object) => {
+		[createdStamp(object), ...Object.values(object.stamps || {})].forEach((stamp) => {
+			if (isStamp(stamp)) clock = Math.max(clock, stamp[0]);
+		});
+	}));
+	deleted.forEach((stamp) => {
+		clock = Math.max(clock, stamp[0]);
+	});
+	// Without its tombstones, nothing made before a board was saved can be told from something
+	// deleted since, so none of it is taken
+	const horizon = isStamp(saved.horizon) ? saved.horizon : Array.isArray(stored) && stored.length > 0 ? [clock + 1, ''] : NO_STAMP;
+	return {
+		pages,
+		trash: new Map(),
+		deleted, // { objectId: stamp } tombstones of deleted objects
+		horizon, // the latest stamp of a tombstone forgotten to keep their number down
+		clock, // highest stamp counter seen on this board
+		follow: false, // when on, students see the page the teacher is presenting
+		presenterPageId: pages[0].id,
+		hiddenAuthors: [] // account ids whose objects staff have hidden from everyone
+	};
+}
+
+// What is saved of a board: its pages, and what it needs to keep turning down changes to
+// objects deleted before it was saved
+function storedState(board) {
+	return {
+		pages: board.pages,
+		deleted: Array.from(board.deleted),
+		horizon: board.horizon,
+		clock: board.clock
+	};
+}
+
+// What clients need to show the board
+function snapshot(board) {
+	return {
+		pages: board.pages,
+		follow: board.follow,
+		presenterPageId: board.presenterPageId,
+		hiddenAuthors: board.hiddenAuthors,
+		clock: board.clock,
+		deleted: Array.from(board.deleted)
+	};
+}
+
+// The pages as everyone sees them, without the objects of hidden authors
+function visiblePages(board) {
+	if (board.hiddenAuthors.length === 0) return board.pages;
+	return board.pages.map(page => ({ ...page, objects: page.objects.filter(object => !board.hiddenAuthors.includes(object.authorId)) }));
+}
+
+function findPage(board, pageId) {
+	return board.pages.find(page => page.id === pageId) || null;
+}
+
+function moveToTrash(board, object, pageId, deletedBy) {
+	board.trash.delete(object.id);
+	board.trash.set(object.id, { object, pageId, deletedBy });
+	if (board.trash.size > MAX_TRASH) {
+		board.trash.delete(board.trash.keys().next().value);
+	}
+}
+
+function bury(board, id, stamp) {
+	board.deleted.delete(id);
+	board.deleted.set(id, stamp);
+	if (board.deleted.size > MAX_TOMBSTONES) {
+		const [oldest, oldestStamp] = board.deleted.entries().next().value;
+		board.deleted.delete(oldest);
+		if (compareStamps(oldestStamp, board.horizon) > 0) board.horizon = oldestStamp;
+	}
+}
+
+// Objects stay in the order they were created in, whatever order they arrive in
+function insertObject(objects, object) {
+	let index = objects.length;
+	while (index > 0 && compareStamps(createdStamp(objects[index - 1]), createdStamp(object)) > 0) index--;
+	objects.splice(index, 0, object);
+}
+
+// The fields of `changes` newer than the ones `object` has, and the object with them applied;
+// null if every field has since been changed again
+function mergeChanges(object, changes, stamp) {
+	const stamps = { ...object.stamps };
+	const applied = {};
+	Object.keys(changes).forEach((field) => {
+		if (stamps[field] && compareStamps(stamp, stamps[field]) <= 0) return;
+		applied[field] = changes[field];
+		stamps[field] = stamp;
+	});
+	return Object.keys(applied).length > 0 ? { object: { ...object, ...applied, stamps }, applied } : null;
+}
+
+// Remove everything on a page put there before `stamp`, apart from what `keep` says stays
+function removeBefore(board, page, stamp, keep = () => false) {
+	page.objects = page.objects.filter((object) => {
+		if (keep(object) || compareStamps(aliveStamp(object), stamp) >= 0) return true;
+		bury(board, object.id, stamp);
+		return false;
+	});
+}
+
+/**
+ * Build a board object from client data, or return null if it is not a valid object
+ */
+function createObject(data, author) {
+	if (!data || typeof data.id !== 'string' || !data.id || data.id.length > MAX_ID_LENGTH) return null;
+
+	const object = { id: data.id, type: data.type, authorId: author.accountId, authorName: author.name, color: '#000000', size: 0.004 };
+
+	if (STROKE_TYPES.includes(data.type)) {
+		if (!isPointList(data.points) || data.points.length === 0 || data.points.length > MAX_POINTS) return null;
+		object.points = data.points;
+		if (data.type === 'pen' && data.pressures !== undefined) {
+			if (!isPressureList(data.pressures, data.points)) return null;
+			object.pressures = data.pressures;
+		}
+	} else if (SHAPE_TYPES.includes(data.type)) {
+		if (![data.x1, data.y1, data.x2, data.y2].every(isNumber)) return null;
+		Object.assign(object, { x1: data.x1, y1: data.y1, x2: data.x2, y2: data.y2, fill: false });
+	} else if (INSTRUMENT_TYPES.includes(data.type)) {
+		if (![data.x1, data.y1, data.x2, data.y2].every(isNumber)) return null;
+		Object.assign(object, { x1: data.x1, y1: data.y1, x2: data.x2, y2: data.y2 });
+	} else if (data.type === 'polygon') {
+		if (!isPointList(data.points) || data.points.length < 6 || data.points.length > MAX_POLYGON_POINTS) return null;
+		Object.assign(object, { points: data.points, fill: false });
+	} else if (TEXT_TYPES.includes(data.type)) {
+		if (!isNumber(data.x) || !isNumber(data.y)) return null;
+		Object.assign(object, { text: '', fontSize: 0.03 }, data.type === 'sticky' ? { width: 0.2, height: 0.15 } : {});
+		sanitizeBox(data, data.type, object);
+	} else if (data.type === 'equation') {
+		// LaTeX is typeset by the clients (and exports); the server only keeps it
+		if (!isNumber(data.x) || !isNumber(data.y) || typeof data.latex !== 'string' || !data.latex.trim() || data.latex.length > MAX_LATEX_LENGTH) return null;
+		Object.assign(object, { latex: data.latex, width: 0.1, height: 0.05 });
+		sanitizeBox(data, data.type, object);
+	} else if (data.type === 'plot') {
+		// Like equations, the curve is drawn by the clients (and exports) from the expression
+		if (!isNumber(data.x) || !isNumber(data.y) || !isExpression(data.expression)) return null;
+		Object.assign(object, { expression: data.expression, axes: [...DEFAULT_AXES], width: 0.3, height: 0.3 });
+		sanitizeBox(data, data.type, object);
+	} else {
+		return null;
+	}
+	sanitizeStyle(data, data.type, object);
+	return object;
+}
+
+// Style, text and geometry are editable; id, type and author are not
+function sanitizeChanges(object, changes) {
+	if (!changes) return null;
+	const clean = {};
+	sanitizeStyle(changes, object.type, clean);
+	if (STROKE_TYPES.includes(object.type) || object.type === 'polygon') {
+		if (isPointList(changes.points) && changes.points.length === object.points.length) clean.points = changes.points;
+	} else if (TEXT_TYPES.includes(object.type) || BOX_TYPES.includes(object.type)) {
+		sanitizeBox(changes, object.type, clean);
+	} else {
+		['x1', 'y1', 'x2', 'y2'].forEach((key) => {
+			if (isNumber(changes[key])) clean[key] = changes[key];
+		});
+	}
+	return Object.keys(clean).length > 0 ? clean : null;
+}
+
+/**
+ * Apply an operation to an object on one page of a board on behalf of a user. `canEdit(object)`
+ * decides whether the user may change an existing object. Returns the operation to relay to
+ * everyone else, false if it changed nothing (it was sent twice, or later changes won), or
+ * null if it was rejected.
+ */
+function applyOp(board, data, author, canEdit) {
+	if (!data) return null;
+	const page = findPage(board, data.pageId);
+	if (!page && data.op !== 'restore') return null;
+	const objects = page ? page.objects : [];
+	const index = typeof data.id === 'string' ? objects.findIndex(object => object.id === data.id) : -1;
+	const object = index >= 0 ? objects[index] : null;
+	const pageId = page && page.id;
+	// Deleted objects still take changes, so they come back up to date if they are restored
+	const trashed = !object && typeof data.id === 'string' ? board.trash.get(data.id) : null;
+	const target = object || (trashed && trashed.pageId === pageId ? trashed.object : null);
+	const replace = (updated) => {
+		if (object) objects[index] = updated;
+		else trashed.object = updated;
+	};
+
+	switch (data.op) {
+		case 'add': {
+			const created = createObject(data.object, author);
+			if (!created) return null;
+			const existing = board.pages.find(other => other.objects.some(item => item.id === created.id));
+			// Adding again what is already there, or was deleted since, changes nothing
+			if (existing) return existing === page ? false : null;
+			if (board.deleted.has(created.id)) return false;
+			// Made before a tombstone that has been forgotten: it may be that object coming back
+			if (isStamp(data.object.created) && compareStamps(data.object.created, board.horizon) < 0) return null;
+			created.created = takeStamp(board, data.object.created);
+			insertObject(objects, created);
+			return { op: 'add', pageId, object: created };
+		}
+		case 'append': {
+			// Only the author extends a stroke while drawing it
+			if (!target || !STROKE_TYPES.includes(target.type) || target.authorId !== author.accountId) return null;
+			if (!isPointList(data.points)) return null;
+			// `offset` is where the points go in the stroke, so points sent twice are only added once
+			const offset = data.offset === undefined ? target.points.length : data.offset;
+			if (!Number.isSafeInteger(offset) || offset < 0 || offset % 2 !== 0 || offset > target.points.length) return null;
+			const skip = target.points.length - offset;
+			const points = data.points.slice(skip);
+			if (target.points.length + points.length > MAX_POINTS) return null;
+			let pressures;
+			if (target.pressures) {
+				// Strokes that started with pressure keep one value per point
+				if (!isPressureList(data.pressures, data.points)) return null;
+				pressures = data.pressures.slice(skip / 2);
+			}
+			if (points.length === 0) return false;
+			const appended = { op: 'append', pageId, id: target.id, offset: target.points.length, points };
+			replace({ ...target, points: target.points.concat(points), ...(pressures ? { pressures: target.pressures.concat(pressures) } : {}) });
+			return pressures ? { ...appended, pressures } : appended;
+		}
+		case 'update': {
+			if (!target || !canEdit(target)) return null;
+			const changes = sanitizeChanges(target, data.changes);
+			if (!changes) return null;
+			const stamp = takeStamp(board, data.stamp);
+			const merged = mergeChanges(target, changes, stamp);
+			if (!merged) return false;
+			replace(merged.object);
+			return { op: 'update', pageId, id: target.id, changes: merged.applied, stamp };
+		}
+		case 'delete': {
+			if (typeof data.id !== 'string') return null;
+			const stamp = takeStamp(board, data.stamp);
+			if (!object) {
+				// Already deleted, by this or someone else's change; the latest delete counts
+				const buried = board.deleted.get(data.id);
+				if (!buried || (trashed && !canEdit(trashed.object))) return null;
+				if (compareStamps(stamp, buried) <= 0) return false;
+				bury(board, data.id, stamp);
+				return { op: 'delete', pageId, id: data.id, stamp };
+			}
+			if (!canEdit(object)) return null;
+			// Restored again since, by a later change
+			if (compareStamps(stamp, aliveStamp(object)) <= 0) return false;
+			objects.splice(index, 1);
+			bury(board, object.id, stamp);
+			moveToTrash(board, object, pageId, author.accountId);
+			return { op: 'delete', pageId, id: object.id, stamp };
+		}
+		case 'restore': {
+			if (typeof data.id !== 'string') return null;
+			const stamp = takeStamp(board, data.stamp);
+			const home = board.pages.find(other => other.objects.some(item => item.id === data.id));
+			if (home) {
+				// Restored already; the latest restore counts
+				const position = home.objects.findIndex(item => item.id === data.id);
+				const live = home.objects[position];
+				if (!canEdit(live)) return null;
+				if (compareStamps(stamp, aliveStamp(live)) <= 0) return false;
+				home.objects[position] = { ...live, stamps: { ...live.stamps, alive: stamp } };
+				return { op: 'restore', pageId: home.id, id: data.id, object: home.objects[position], stamp };
+			}
+			// Undoing your own delete (or redoing an add) brings back the original object with its
+			// author; nobody can bring back what someone else removed
+			const inTrash = board.trash.get(data.id);
+			const trashPage = inTrash && findPage(board, inTrash.pageId);
+			if (!trashPage || inTrash.deletedBy !== author.accountId || !canEdit(inTrash.object)) return null;
+			const buried = board.deleted.get(data.id);
+			if (buried && compareStamps(stamp, buried) <= 0) return false;
+			board.trash.delete(data.id);
+			board.deleted.delete(data.id);
+			const restored = { ...inTrash.object, stamps: { ...inTrash.object.stamps, alive: stamp } };
+			insertObject(trashPage.objects, restored);
+			return { op: 'restore', pageId: trashPage.id, id: data.id, object: restored, stamp };
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Whether `op`, as applied from the change `data`, was stamped differently from how its sender
+ * stamped it (see takeStamp), so the sender's copy of the board no longer matches
+ */
+function wasRestamped(data, op) {
+	const sent = data.op === 'add' ? data.object && data.object.created : data.stamp;
+	const taken = op.op === 'add' ? op.object.created : op.stamp;
+	return isStamp(sent) && !!taken && taken[0] !== sent[0];
+}
+
+/**
+ * Add, delete or reorder pages, or change a page's background or template. Returns the change to send to everyone (the sender included,
+ * since new page ids are made here), or null if it was rejected.
+ */
+function applyPageOp(board, data) {
+	if (!data) return null;
+	switch (data.action) {
+		case 'add': {
+			if (board.pages.length >= MAX_PAGES) return null;
+			const after = board.pages.findIndex(page => page.id === data.afterPageId);
+			const index = after >= 0 ? after + 1 : board.pages.length;
+			const page = newPage([], sanitizeBackground(data.background));
+			board.pages.splice(index, 0, page);
+			return { action: 'add', page, index };
+		}
+		case 'background': {
+			// A missing or invalid background removes the current one
+			const page = findPage(board, data.pageId);
+			if (!page) return null;
+			page.background = sanitizeBackground(data.background);
+			return { action: 'background', pageId: page.id, background: page.background };
+		}
+		case 'template': {
+			// Likewise a missing or unknown template leaves the page plain
+			const page = findPage(board, data.pageId);
+			if (!page) return null;
+			page.template = sanitizeTemplate(data.template);
+			return { action: 'template', pageId: page.id, template: page.template };
+		}
+		case 'delete': {
+			const index = board.pages.findIndex(page => page.id === data.pageId);
+			if (index < 0 || board.pages.length === 1) return null;
+			board.pages.splice(index, 1);
+			if (board.presenterPageId === data.pageId) {
+				board.presenterPageId = board.pages[Math.min(index, board.pages.length - 1)].id;
+			}
+			return { action: 'delete', pageId: data.pageId, presenterPageId: board.presenterPageId };
+		}
+		case 'move': {
+			const from = board.pages.findIndex(page => page.id === data.pageId);
+			const to = parseInt(data.toIndex, 10);
+			if (from < 0 || !(to >= 0 && to < board.pages.length) || from === to) return null;
+			const [page] = board.pages.splice(from, 1);
+			board.pages.splice(to, 0, page);
+			return { action: 'move', pageId: page.id, toIndex: to };
+		}
+		default:
+			return null;
+	}
+}
+
+// Hide or show again everything one author has drawn; returns false if nothing changed
+function setAuthorHidden(board, authorId, hidden) {
+	if (typeof authorId !== 'string' || board.hiddenAuthors.includes(authorId) === hidden) return false;
+	board.hiddenAuthors = hidden ? [...board.hiddenAuthors, authorId] : board.hiddenAuthors.filter(id => id !== authorId);
+	return true;
+}
+
+/**
+ * Remove everything one author has drawn from every page, for good: their objects in the trash
+ * go too, so undo cannot bring any of it back. Returns the stamp of the erasure, or null if the
+ * author had nothing on the board.
+ */
+function eraseAuthor(board, authorId) {
+	if (typeof authorId !== 'string' || !board.pages.some(page => page.objects.some(object => object.authorId === authorId))) return null;
+	const stamp = takeStamp(board);
+	board.pages.forEach(page => removeBefore(board, page, stamp, object => object.authorId !== authorId));
+	board.trash.forEach((trashed, id) => {
+		if (trashed.object.authorId === authorId) board.trash.delete(id);
+	});
+	return stamp;
+}
+
+// Empty a page; returns the stamp of the clearing, or null if there is no such page
+function clearPage(board, pageId) {
+	const page = findPage(board, pageId);
+	if (!page) return null;
+	const stamp = takeStamp(board);
+	removeBefore(board, page, stamp);
+	return stamp;
+}
+
+module.exports = {
+	createBoard,
+	storedState,
+	snapshot,
+	visiblePages,
+	findPage,
+	applyOp,
+	wasRestamped,
+	applyPageOp,
+	clearPage,
+	setAuthorHidden,
+	eraseAuthor,
+	sanitizeViewport,
+	sanitizeCursor,
+};
@@ -0,0 +1,135 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert');
+const board = require('./board');
+const { pen, inEveryOrder } = require('./fixtures');
+
+const author = { accountId: 'teacher', name: 'Teacher' };
+const canEdit = () => true;
+
+function boardWith() {
+	return board.createBoard([{ id: 'page', objects: [], background: null, template: null }]);
+}
+
+function apply(target, ops) {
+	ops.forEach(op => board.applyOp(target, { pageId: 'page', ...op }, author, canEdit));
+	return target;
+}
+
+// Everything two copies of a board have to agree on
+function state(target) {
+	return {
+		pages: target.pages,
+		deleted: Array.from(target.deleted).sort(([a], [b]) => (a < b ? -1 : 1)),
+		trash: Array.from(target.trash.values()).map(({ object }) => object).sort((a, b) => (a.id < b.id ? -1 : 1)),
+		clock: target.clock,
+	};
+}
+
+describe('applyOp', () => {
+	const shared = [
+		{ op: 'add', object: pen('x', [1, 'a']) },
+		{ op: 'add', object: pen('y', [2, 'b']) },
+	];
+	// Made at the same time by clients that had each seen only the shared changes
+	const concurrent = [
+		{ op: 'update', id: 'x', changes: { color: '#ff0000' }, stamp: [5, 'a'] },
+		{ op: 'update', id: 'x', changes: { color: '#00ff00', size: 0.01 }, stamp: [5, 'b'] },
+		{ op: 'update', id: 'y', changes: { color: '#0000ff' }, stamp: [4, 'a'] },
+		{ op: 'delete', id: 'y', stamp: [6, 'c'] },
+		{ op: 'restore', id: 'y', stamp: [7, 'c'] },
+		{ op: 'add', object: pen('z', [3, 'b']) },
+	];
+
+	it('ends with the same board whatever order changes arrive in', () => {
+		const expected = state(apply(apply(boardWith(), shared), concurrent));
+		inEveryOrder(concurrent, order => state(apply(apply(boardWith(), shared), order))).forEach((outcome) => {
+			assert.deepStrictEqual(outcome, expected);
+		});
+		assert.deepStrictEqual(expected.pages[0].objects.map(object => object.id), ['x', 'y', 'z']);
+		assert.strictEqual(expected.pages[0].objects[0].color, '#00ff00');
+		assert.strictEqual(expected.pages[0].objects[1].color, '#0000ff');
+	});
+
+	it('changes nothing when changes arrive twice', () => {
+		const once = state(apply(apply(boardWith(), shared), concurrent));
+		const target = apply(apply(boardWith(), shared), concurrent);
+		concurrent.forEach((op) => {
+			assert.strictEqual(board.applyOp(target, { pageId: 'page', ...op }, author, canEdit), false);
+		});
+		assert.deepStrictEqual(state(target), once);
+	});
+
+	it('keeps changes made to deleted objects for when they are restored', () => {
+		const target = apply(boardWith(), [
+			...shared,
+			{ op: 'delete', id: 'x', stamp: [3, 'a'] },
+			{ op: 'update', id: 'x', changes: { color: '#ff0000' }, stamp: [4, 'b'] },
+			{ op: 'add', object: pen('x', [1, 'a']) },
+			{ op: 'restore', id: 'x', stamp: [5, 'a'] },
+		]);
+		assert.deepStrictEqual(target.pages[0].objects.map(object => [object.id, object.color]), [['x', '#ff0000'], ['y', '#000000']]);
+	});
+
+	it('pulls back stamps far ahead of the board clock', () => {
+		const target = apply(boardWith(), shared);
+		const data = { pageId: 'page', op: 'update', id: 'x', changes: { color: '#ff0000' }, stamp: [1e12, 'a'] };
+		const op = board.applyOp(target, data, author, canEdit);
+		assert.deepStrictEqual(op.stamp, [100002, 'a']);
+		assert.strictEqual(board.wasRestamped(data, op), true);
+
+		const next = { pageId: 'page', op: 'update', id: 'x', changes: { color: '#00ff00' }, stamp: [100003, 'b'] };
+		const nextOp = board.applyOp(target, next, author, canEdit);
+		assert.strictEqual(board.wasRestamped(next, nextOp), false);
+		assert.strictEqual(target.pages[0].objects[0].color, '#00ff00');
+	});
+
+	it('turns down objects made before the tombstones it has forgotten', () => {
+		const target = boardWith();
+		for (let i = 0; i <= 5000; i++) {
+			apply(target, [
+				{ op: 'add', object: pen(`old-${i}`, [2 * i + 1, 'a']) },
+				{ op: 'delete', id: `old-${i}`, stamp: [2 * i + 2, 'a'] },
+			]);
+		}
+		assert.strictEqual(target.deleted.has('old-0'), false);
+		assert.strictEqual(board.applyOp(target, { pageId: 'page', op: 'add', object: pen('old-0', [1, 'a']) }, author, canEdit), null);
+		assert.notStrictEqual(board.applyOp(target, { pageId: 'page', op: 'add', object: pen('new', [3, 'a']) }, author, canEdit), null);
+	});
+});
+
+describe('storedState', () => {
+	const reload = (target) => board.createBoard(JSON.parse(JSON.stringify(board.storedState(target))));
+	const replay = (target, op) => board.applyOp(target, { pageId: 'page', ...op }, author, canEdit);
+
+	it('keeps turning down changes to what was deleted before a restart', () => {
+		const saved = apply(boardWith(), [
+			{ op: 'add', object: pen('x', [1, 'a']) },
+			{ op: 'add', object: pen('y', [2, 'a']) },
+			{ op: 'delete', id: 'x', stamp: [3, 'b'] },
+		]);
+		board.clearPage(saved, 'page');
+		const reloaded = reload(saved);
+		assert.deepStrictEqual(reloaded.pages, saved.pages);
+		assert.strictEqual(reloaded.clock, saved.clock);
+
+		// An outbox sent again after the restart, by a client that had not heard of the deletes
+		assert.strictEqual(replay(reloaded, { op: 'add', object: pen('x', [1, 'a']) }), false);
+		assert.strictEqual(replay(reloaded, { op: 'add', object: pen('y', [2, 'a']) }), false);
+		assert.strictEqual(replay(reloaded, { op: 'restore', id: 'y', stamp: [3, 'a'] }), null);
+		assert.strictEqual(replay(reloaded, { op: 'delete', id: 'x', stamp: [2, 'a'] }), false);
+		assert.deepStrictEqual(reloaded.pages[0].objects, []);
+	});
+
+	it('keeps the horizon of forgotten tombstones', () => {
+		const saved = boardWith();
+		saved.horizon = [7, 'a'];
+		assert.strictEqual(replay(reload(saved), { op: 'add', object: pen('old', [6, 'z']) }), null);
+	});
+
+	it('takes nothing made before a board saved without its tombstones', () => {
+		const legacy = board.createBoard([{ id: 'page', objects: [pen('x', [4, 'a'])], background: null, template: null }]);
+		assert.strictEqual(replay(legacy, { op: 'add', object: pen('gone', [3, 'a']) }), null);
+		assert.notStrictEqual(replay(legacy, { op: 'add', object: pen('new', [5, 'a']) }), null);
+	});
+});
+
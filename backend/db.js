@@ -0,0 +1,36 @@
+// The one Prisma client auth and storage share. It is only used once it has connected: if
+// @prisma/client is not installed, or the database cannot be reached when the server starts,
+// accounts, classrooms and boards are kept in files under data/ instead.
+
+require('dotenv').config();
+
+let client = null;
+try {
+	const { PrismaClient } = require('@prisma/client');
+	client = new PrismaClient();
+} catch (e) {
+	console.warn('Prisma client not available, falling back to file storage:', e.message);
+}
+
+let prisma = null;
+
+// Settles once it is known which storage to use; the server waits for it before listening
+const ready = client
+	? client.$connect()
+		.then(() => {
+			prisma = client;
+			console.log('Prisma connected to database successfully');
+		})
+		.catch((err) => {
+			console.error('Prisma connection failed, falling back to file storage:', err.message);
+			client.$disconnect().catch(() => {});
+		})
+	: Promise.resolve();
+
+module.exports = {
+	ready,
+	// The connected client, or null while storage is in files
+	get prisma() {
+		return prisma;
+	},
+};
@@ -0,0 +1,463 @@
+// Export stored whiteboard pages as SVG (one page) or PDF (every page). Both are vector
+// formats drawn from the same objects the clients render, on top of the page's background
+// image if it has one. Board coordinates run from 0 to 1 across a page, which keeps a 2:1
+// aspect ratio; exports grow to take in anything drawn beyond the page.
+
+const { jpegSize } = require('./uploads');
+const math = require('./math');
+const geometry = require('./geometry');
+
+const BOARD_ASPECT = 2;
+const SVG_WIDTH = 1600;
+const PDF_WIDTH = 842; // points; an A4 sheet's long side
+const CIRCLE_KAPPA = 0.5522847498; // control point distance for drawing a circle with four Béziers
+
+const STROKE_TYPES = ['pen', 'eraser', 'highlighter'];
+const FILLABLE_TYPES = ['rect', 'circle', 'polygon'];
+const GEOMETRY_TYPES = ['ruler', 'protractor', 'plot']; // drawn as marks by geometry.js
+const HIGHLIGHTER_ALPHA = 0.35;
+const STICKY_TEXT_COLOR = '#1f2937';
+const LINE_HEIGHT = 1.25;
+// Text is measured with an average glyph width, since the server has no fonts to measure with
+const AVERAGE_CHAR_WIDTH = 0.52;
+
+// Erasers punch holes in the ink. PDF pages paint them white, which matches the screen except
+// where the eraser crosses a background image; SVG masks the ink instead.
+function inkColor(object) {
+	return object.type === 'eraser' ? '#ffffff' : object.color;
+}
+
+function parseColor(color) {
+	let hex = typeof color === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color.slice(1) : '000000';
+	if (hex.length === 3) hex = hex.split('').map(digit => digit + digit).join('');
+	return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255);
+}
+
+const num = (value) => String(Math.round(value * 10000) / 10000);
+
+function circleOf(shape) {
+	const rx = (shape.x2 - shape.x1) / 2;
+	const ry = (shape.y2 - shape.y1) / 2;
+	return { cx: shape.x1 + rx, cy: shape.y1 + ry, radius: Math.sqrt(rx * rx + ry * ry) };
+}
+
+// Where a background sits on the board: as large as fits, centred
+function backgroundPlacement(background) {
+	const scale = Math.min(1 / background.width, 1 / BOARD_ASPECT / background.height);
+	const width = background.width * scale;
+	const height = background.height * scale;
+	return { x: (1 - width) / 2, y: (1 / BOARD_ASPECT - height) / 2, width, height };
+}
+
+// The two short strokes of an arrowhead at (x2, y2), as the clients draw them
+function arrowHead(shape) {
+	const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+	const length = Math.max(shape.size * 4, 0.015);
+	const spread = Math.PI / 7;
+	return [angle - spread, angle + spread].map(side => ({
+		x: shape.x2 - length * Math.cos(side),
+		y: shape.y2 - length * Math.sin(side),
+	}));
+}
+
+function stickyPadding(note) {
+	return note.fontSize * 0.5;
+}
+
+// Lines of a text object as typed, or of a sticky note wrapped to (roughly) fit inside it
+function textLines(object) {
+	const lines = object.text.split('\n');
+	if (object.type !== 'sticky') return lines;
+
+	const maxChars = Math.max(1, Math.floor((object.width - stickyPadding(object) * 2) / (object.fontSize * AVERAGE_CHAR_WIDTH)));
+	return lines.flatMap((line) => {
+		const wrapped = [];
+		let current = '';
+		line.split(' ').forEach((word) => {
+			const candidate = current ? `${current} ${word}` : word;
+			if (current && candidate.length > maxChars) {
+				wrapped.push(current);
+				current = word;
+			} else {
+				current = candidate;
+			}
+		});
+		wrapped.push(current);
+		return wrapped;
+	});
+}
+
+// Width of a stroke at one of its points; strokes without pressure are drawn at their size
+function pressureWidth(stroke, index) {
+	const pressure = stroke.pressures && stroke.pressures[index];
+	return pressure === undefined ? stroke.size : stroke.size * (0.2 + pressure * 1.6);
+}
+
+// Strokes are smoothed the way the clients draw them: quadratic curves through the midpoints
+// between captured points, with piece i bending around point i
+function strokePieces(stroke) {
+	const points = stroke.points;
+	const count = points.length / 2;
+	const point = (i) => ({ x: points[i * 2], y: points[i * 2 + 1] });
+	const midpoint = (i) => {
+		if (i <= 0) return point(0);
+		if (i >= count) return point(count - 1);
+		return { x: (points[i * 2 - 2] + points[i * 2]) / 2, y: (points[i * 2 - 1] + points[i * 2 + 1]) / 2 };
+	};
+	const pieces = [];
+	for (let i = 0; i < count; i++) {
+		pieces.push({ from: midpoint(i), control: point(i), to: midpoint(i + 1), width: pressureWidth(stroke, i) });
+	}
+	return pieces;
+}
+
+// Rough bounds of an object; text is measured with the average glyph width
+function objectBounds(object) {
+	if (object.type === 'sticky' || object.type === 'equation') return { x: object.x, y: object.y, width: object.width, height: object.height };
+	if (GEOMETRY_TYPES.includes(object.type)) return geometry.objectBounds(object);
+	if (object.type === 'text') {
+		const lines = textLines(object);
+		const longest = Math.max(1, ...lines.map(line => line.length));
+		return { x: object.x, y: object.y, width: longest * object.fontSize * AVERAGE_CHAR_WIDTH, height: lines.length * object.fontSize * LINE_HEIGHT };
+	}
+
+	let xs;
+	let ys;
+	if (Array.isArray(object.points)) {
+		xs = object.points.filter((_, i) => i % 2 === 0);
+		ys = object.points.filter((_, i) => i % 2 === 1);
+	} else if (object.type === 'circle') {
+		const { cx, cy, radius } = circleOf(object);
+		xs = [cx - radius, cx + radius];
+		ys = [cy - radius, cy + radius];
+	} else {
+		xs = [object.x1, object.x2];
+		ys = [object.y1, object.y2];
+	}
+	// Room for the line width, at its widest under full pressure
+	const pad = object.size;
+	const x = Math.min(...xs) - pad;
+	const y = Math.min(...ys) - pad;
+	return { x, y, width: Math.max(...xs) + pad - x, height: Math.max(...ys) + pad - y };
+}
+
+// What an export covers: the page itself, grown to take in anything drawn beyond its edges
+function pageExtent(page) {
+	let [minX, minY, maxX, maxY] = [0, 0, 1, 1 / BOARD_ASPECT];
+	page.objects.forEach((object) => {
+		const bounds = objectBounds(object);
+		minX = Math.min(minX, bounds.x);
+		minY = Math.min(minY, bounds.y);
+		maxX = Math.max(maxX, bounds.x + bounds.width);
+		maxY = Math.max(maxY, bounds.y + bounds.height);
+	});
+	return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// LaTeX that cannot be typeset is shown as it was typed, as the clients do
+function equationSource(object) {
+	return { ...object, type: 'text', text: object.latex, fontSize: object.height / LINE_HEIGHT };
+}
+
+function escapeXml(text) {
+	return String(text).replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function svgElement(object, scale, color = object.color) {
+	const s = (value) => num(value * scale);
+
+	if (object.type === 'text' || object.type === 'sticky') {
+		const padding = object.type === 'sticky' ? stickyPadding(object) : 0;
+		const lines = textLines(object).map((line, index) => {
+			const y = object.y + padding + index * object.fontSize * LINE_HEIGHT;
+			return `<tspan x="${s(object.x + padding)}" y="${s(y)}">${escapeXml(line)}</tspan>`;
+		});
+		const textColor = object.type === 'sticky' ? STICKY_TEXT_COLOR : color;
+		const text = `<text font-family="sans-serif" font-size="${s(object.fontSize)}" fill="${escapeXml(textColor)}" dominant-baseline="text-before-edge" xml:space="preserve">${lines.join('')}</text>`;
+		if (object.type === 'text') return text;
+		return `<g><rect x="${s(object.x)}" y="${s(object.y)}" width="${s(object.width)}" height="${s(object.height)}" fill="${escapeXml(color)}"/>${text}</g>`;
+	}
+
+	if (object.type === 'equation') {
+		const formula = math.renderMath(object.latex);
+		if (!formula) return svgElement(equationSource(object), scale, color);
+		return `<svg x="${s(object.x)}" y="${s(object.y)}" width="${s(object.width)}" height="${s(object.height)}" viewBox="${formula.viewBox.join(' ')}" color="${escapeXml(color)}">${formula.markup}</svg>`;
+	}
+
+	if (GEOMETRY_TYPES.includes(object.type)) return `<g>${geometry.marksToSvg(geometry.objectMarks(object), scale, num)}</g>`;
+
+	const fill = FILLABLE_TYPES.includes(object.type) && object.fill ? escapeXml(color) : 'none';
+	const opacity = object.type === 'highlighter' ? ` stroke-opacity="${HIGHLIGHTER_ALPHA}"` : '';
+	const styleFor = (width) => `fill="${fill}" stroke="${escapeXml(color)}" stroke-width="${s(width)}" stroke-linecap="round" stroke-linejoin="round"${opacity}`;
+	const style = styleFor(object.size);
+
+	if (STROKE_TYPES.includes(object.type)) {
+		const curve = (piece) => `Q${s(piece.control.x)} ${s(piece.control.y)} ${s(piece.to.x)} ${s(piece.to.y)}`;
+		const pieces = strokePieces(object);
+		const start = `M${s(pieces[0].from.x)} ${s(pieces[0].from.y)}`;
+		if (object.points.length === 2) return `<path d="${start} L${s(pieces[0].to.x)} ${s(pieces[0].to.y)}" ${style}/>`;
+		if (!object.pressures) return `<path d="${start} ${pieces.map(curve).join(' ')}" ${style}/>`;
+		// Pressure changes the width along the stroke, so each piece is a path of its own
+		const paths = pieces.map(piece => `<path d="M${s(piece.from.x)} ${s(piece.from.y)} ${curve(piece)}" ${styleFor(piece.width)}/>`);
+		return `<g>${paths.join('')}</g>`;
+	}
+	if (object.type === 'polygon') {
+		const points = [];
+		for (let i = 0; i < object.points.length; i += 2) points.push(`${s(object.points[i])},${s(object.points[i + 1])}`);
+		return `<polygon points="${points.join(' ')}" ${style}/>`;
+	}
+	if (object.type === 'line') {
+		return `<line x1="${s(object.x1)}" y1="${s(object.y1)}" x2="${s(object.x2)}" y2="${s(object.y2)}" ${style}/>`;
+	}
+	if (object.type === 'arrow') {
+		const [left, right] = arrowHead(object);
+		const end = `${s(object.x2)} ${s(object.y2)}`;
+		return `<path d="M${s(object.x1)} ${s(object.y1)} L${end} M${s(left.x)} ${s(left.y)} L${end} L${s(right.x)} ${s(right.y)}" ${style}/>`;
+	}
+	if (object.type === 'rect') {
+		return `<rect x="${s(Math.min(object.x1, object.x2))}" y="${s(Math.min(object.y1, object.y2))}" width="${s(Math.abs(object.x2 - object.x1))}" height="${s(Math.abs(object.y2 - object.y1))}" ${style}/>`;
+	}
+	if (object.type === 'circle') {
+		const { cx, cy, radius } = circleOf(object);
+		return `<circle cx="${s(cx)}" cy="${s(cy)}" r="${s(radius)}" ${style}/>`;
+	}
+	return '';
+}
+
+/**
+ * Render one page as a standalone SVG document. `images` maps upload ids to their JPEG data;
+ * the background is embedded so the file works on its own.
+ */
+function pageToSvg(page, images = new Map()) {
+	const s = (value) => num(value * SVG_WIDTH);
+	const extent = pageExtent(page);
+	const [x, y, width, height] = [extent.x, extent.y, extent.width, extent.height].map(s);
+	let background = '';
+	const image = page.background && images.get(page.background.upload);
+	if (image) {
+		const placement = backgroundPlacement(page.background);
+		background = `<image x="${s(placement.x)}" y="${s(placement.y)}" width="${s(placement.width)}" height="${s(placement.height)}" preserveAspectRatio="none" href="data:image/jpeg;base64,${image.toString('base64')}"/>`;
+	}
+	if (page.template) background += `<g>${geometry.marksToSvg(geometry.templateMarks(page.template), SVG_WIDTH, num)}</g>`;
+
+	// Each eraser stroke masks out everything drawn before it, leaving the background intact
+	const masks = [];
+	let ink = '';
+	page.objects.forEach((object) => {
+		if (object.type !== 'eraser') {
+			ink += `${svgElement(object, SVG_WIDTH)}\n`;
+			return;
+		}
+		const id = `erase-${masks.length}`;
+		masks.push(`<mask id="${id}" maskUnits="userSpaceOnUse" x="${x}" y="${y}" width="${width}" height="${height}"><rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#ffffff"/>${svgElement(object, SVG_WIDTH, '#000000')}</mask>`);
+		ink = `<g mask="url(#${id})">\n${ink}</g>\n`;
+	});
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">
+<defs>${masks.join('')}</defs>
+<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#ffffff"/>
+${background}
+${ink}</svg>
+`;
+}
+
+// A PDF string in the standard Latin encoding; characters outside it become '?'
+function pdfString(text) {
+	const escaped = Array.from(text, (char) => {
+		const code = char.codePointAt(0);
+		if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+		if (code >= 32 && code < 127) return char;
+		if (code >= 160 && code < 256) return `\\${code.toString(8)}`;
+		return '?';
+	});
+	return `(${escaped.join('')})`;
+}
+
+function pdfColor(color, operator) {
+	const [r, g, b] = parseColor(color);
+	return `${num(r)} ${num(g)} ${num(b)} ${operator}`;
+}
+
+// Text is set with /Text (Helvetica); the page is flipped, so each line flips its glyphs back
+function pdfText(object) {
+	const padding = object.type === 'sticky' ? stickyPadding(object) : 0;
+	const ops = [];
+	if (object.type === 'sticky') {
+		ops.push(pdfColor(object.color, 'rg'), `${num(object.x)} ${num(object.y)} ${num(object.width)} ${num(object.height)} re f`);
+		// Keep the text inside the note
+		ops.push('q', `${num(object.x)} ${num(object.y)} ${num(object.width)} ${num(object.height)} re W n`);
+	}
+	ops.push('BT', pdfColor(object.type === 'sticky' ? STICKY_TEXT_COLOR : object.color, 'rg'), `/Text ${num(object.fontSize)} Tf`);
+	textLines(object).forEach((line, index) => {
+		// Lines are placed by their top edge; the baseline sits about 0.8 em below it
+		const baseline = object.y + padding + (index * LINE_HEIGHT + 0.8) * object.fontSize;
+		ops.push(`1 0 0 -1 ${num(object.x + padding)} ${num(baseline)} Tm`, `${pdfString(line)} Tj`);
+	});
+	ops.push('ET');
+	if (object.type === 'sticky') ops.push('Q');
+	return ops;
+}
+
+// Equations are filled glyph outlines, placed in board units. Characters outside MathJax's
+// fonts are set in /Text, and colours other than hex ones in the equation's own colour.
+function pdfEquation(object) {
+	const formula = math.renderMath(object.latex);
+	if (!formula) return pdfText(equationSource(object));
+	const placement = math.placeFormula(formula, object);
+	const paint = (color) => (/^#/.test(color) ? color : object.color);
+	const ops = [];
+	formula.shapes.forEach((shape) => {
+		const matrix = math.multiply(placement, shape.matrix);
+		if (shape.kind === 'text') {
+			const size = shape.fontSize * matrix[0];
+			ops.push('BT', pdfColor(paint(shape.fill), 'rg'), `/Text ${num(size)} Tf`, `1 0 0 -1 ${num(matrix[4])} ${num(matrix[5])} Tm`, `${pdfString(shape.text)} Tj`, 'ET');
+			return;
+		}
+		const path = math.pathToPdf(shape.d, matrix, num);
+		const filled = shape.fill !== 'none';
+		const stroked = shape.stroke !== 'none' && shape.strokeWidth > 0;
+		if (path.length === 0 || (!filled && !stroked)) return;
+		if (filled) ops.push(pdfColor(paint(shape.fill), 'rg'));
+		if (stroked) ops.push(pdfColor(paint(shape.stroke), 'RG'), `${num(shape.strokeWidth * placement[0])} w`);
+		ops.push(...path, filled && stroked ? 'B' : filled ? 'f' : 'S');
+	});
+	return ops;
+}
+
+// PDF drawing operators for one object, in board units (the page transform does the scaling).
+// Highlighters use the /Highlight graphics state for their transparency, and geometry.js's
+// translucent fills the states it names.
+function pdfOperators(object) {
+	if (object.type === 'text' || object.type === 'sticky') return pdfText(object);
+	if (object.type === 'equation') return pdfEquation(object);
+	if (GEOMETRY_TYPES.includes(object.type)) return geometry.marksToPdf(geometry.objectMarks(object), num, pdfColor, pdfString);
+
+	const ops = [pdfColor(inkColor(object), 'RG'), `${num(object.size)} w`];
+	const filled = FILLABLE_TYPES.includes(object.type) && object.fill;
+	if (filled) ops.push(pdfColor(object.color, 'rg'));
+
+	if (STROKE_TYPES.includes(object.type)) {
+		// PDF curves are cubic; a quadratic's control point sits two thirds of the way along each handle
+		const curve = ({ from, control, to }) => `${num(from.x + (control.x - from.x) * 2 / 3)} ${num(from.y + (control.y - from.y) * 2 / 3)} ${num(to.x + (control.x - to.x) * 2 / 3)} ${num(to.y + (control.y - to.y) * 2 / 3)} ${num(to.x)} ${num(to.y)} c`;
+		const pieces = strokePieces(object);
+		if (object.points.length === 2) {
+			ops.push(`${num(pieces[0].from.x)} ${num(pieces[0].from.y)} m`, `${num(pieces[0].to.x)} ${num(pieces[0].to.y)} l`);
+		} else if (object.pressures) {
+			// Each piece is stroked at its own width
+			pieces.forEach((piece) => {
+				ops.push(`${num(piece.width)} w`, `${num(piece.from.x)} ${num(piece.from.y)} m`, curve(piece), 'S');
+			});
+			return ops;
+		} else {
+			ops.push(`${num(pieces[0].from.x)} ${num(pieces[0].from.y)} m`, ...pieces.map(curve));
+		}
+	} else if (object.type === 'polygon') {
+		ops.push(`${num(object.points[0])} ${num(object.points[1])} m`);
+		for (let i = 2; i < object.points.length; i += 2) {
+			ops.push(`${num(object.points[i])} ${num(object.points[i + 1])} l`);
+		}
+		ops.push('h');
+	} else if (object.type === 'line' || object.type === 'arrow') {
+		ops.push(`${num(object.x1)} ${num(object.y1)} m`, `${num(object.x2)} ${num(object.y2)} l`);
+		if (object.type === 'arrow') {
+			const [left, right] = arrowHead(object);
+			ops.push(`${num(left.x)} ${num(left.y)} m`, `${num(object.x2)} ${num(object.y2)} l`, `${num(right.x)} ${num(right.y)} l`);
+		}
+	} else if (object.type === 'rect') {
+		ops.push(`${num(object.x1)} ${num(object.y1)} ${num(object.x2 - object.x1)} ${num(object.y2 - object.y1)} re`);
+	} else if (object.type === 'circle') {
+		const { cx, cy, radius } = circleOf(object);
+		const k = radius * CIRCLE_KAPPA;
+		ops.push(
+			`${num(cx + radius)} ${num(cy)} m`,
+			`${num(cx + radius)} ${num(cy + k)} ${num(cx + k)} ${num(cy + radius)} ${num(cx)} ${num(cy + radius)} c`,
+			`${num(cx - k)} ${num(cy + radius)} ${num(cx - radius)} ${num(cy + k)} ${num(cx - radius)} ${num(cy)} c`,
+			`${num(cx - radius)} ${num(cy - k)} ${num(cx - k)} ${num(cy - radius)} ${num(cx)} ${num(cy - radius)} c`,
+			`${num(cx + k)} ${num(cy - radius)} ${num(cx + radius)} ${num(cy - k)} ${num(cx + radius)} ${num(cy)} c`
+		);
+	} else {
+		return [];
+	}
+	ops.push(filled ? 'B' : 'S');
+	return object.type === 'highlighter' ? ['q /Highlight gs', ...ops, 'Q'] : ops;
+}
+
+/**
+ * Render every page into one PDF document, one board page per PDF page. Backgrounds are
+ * embedded as they were uploaded, since PDF can hold JPEG data directly.
+ */
+function pagesToPdf(pages, images = new Map()) {
+	const objects = [];
+	const add = (body) => {
+		objects.push(body);
+		return objects.length;
+	};
+
+	const catalogId = add(null);
+	const pagesId = add(null);
+	const fontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+	const highlightId = add(`<< /Type /ExtGState /CA ${HIGHLIGHTER_ALPHA} >>`);
+	const fillStates = geometry.pdfFillStates().map(({ name, opacity }) => `/${name} ${add(`<< /Type /ExtGState /ca ${opacity} >>`)} 0 R`).join(' ');
+	const pageIds = pages.map((page) => {
+		// Drawing beyond the page's edges makes the sheet taller or shrinks it to fit the width
+		const extent = pageExtent(page);
+		const scale = PDF_WIDTH / extent.width;
+		const height = extent.height * scale;
+		// Flip the y axis and scale board units to points, then paint the white sheet
+		const content = [
+			`${num(scale)} 0 0 ${num(-scale)} ${num(-extent.x * scale)} ${num(height + extent.y * scale)} cm`,
+			'1 1 1 rg',
+			`${num(extent.x)} ${num(extent.y)} ${num(extent.width)} ${num(extent.height)} re f`
+		];
+		let xObjects = '';
+		const image = page.background && images.get(page.background.upload);
+		const size = image && jpegSize(image);
+		if (size) {
+			const imageId = add([
+				`<< /Type /XObject /Subtype /Image /Width ${size.width} /Height ${size.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.length} >>\nstream\n`,
+				image,
+				'\nendstream'
+			]);
+			xObjects = ` /XObject << /Background ${imageId} 0 R >>`;
+			// Images are drawn into a unit square with y up; undo the flip for them
+			const { x, y, width, height: imageHeight } = backgroundPlacement(page.background);
+			content.push(`q ${num(width)} 0 0 ${num(-imageHeight)} ${num(x)} ${num(y + imageHeight)} cm /Background Do Q`);
+		}
+		content.push('1 J 1 j');
+		if (page.template) content.push(...geometry.marksToPdf(geometry.templateMarks(page.template), num, pdfColor, pdfString));
+		content.push(...page.objects.flatMap(pdfOperators));
+		const stream = content.join('\n');
+		const contentId = add(`<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`);
+		const resources = `<< /Font << /Text ${fontId} 0 R >> /ExtGState << /Highlight ${highlightId} 0 R ${fillStates} >>${xObjects} >>`;
+		return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PDF_WIDTH} ${num(height)}] /Resources ${resources} /Contents ${contentId} 0 R >>`);
+	});
+	objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+	objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+	// Objects are text, except images which are a header, the raw JPEG and a footer
+	const chunks = [Buffer.from('%PDF-1.4\n')];
+	let length = chunks[0].length;
+	const write = (part) => {
+		const chunk = Buffer.isBuffer(part) ? part : Buffer.from(part);
+		chunks.push(chunk);
+		length += chunk.length;
+	};
+	const offsets = objects.map((body, index) => {
+		const offset = length;
+		write(`${index + 1} 0 obj\n`);
+		(Array.isArray(body) ? body : [body]).forEach(write);
+		write('\nendobj\n');
+		return offset;
+	});
+	const xrefOffset = length;
+	write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+	write(offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join(''));
+	write(`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+	return Buffer.concat(chunks);
+}
+
+module.exports = {
+	pageToSvg,
+	pagesToPdf,
+};
@@ -0,0 +1,20 @@
+// Fixtures for the board's tests, here and in the client (frontend/src/whiteboard/fixtures.ts),
+// so both sides are tested against the same objects in the same orders.
+
+// A short pen stroke, made at `created`
+const pen = (id, created, fields = {}) => ({
+	id, type: 'pen', authorId: 'teacher', authorName: 'Teacher', color: '#000000', size: 0.004, points: [0.1, 0.1, 0.2, 0.2], created, ...fields,
+});
+
+function permutations(items) {
+	if (items.length <= 1) return [items];
+	return items.flatMap((item, index) => permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest]));
+}
+
+// What `outcome` gives for each order the changes in `ops` could arrive in
+const inEveryOrder = (ops, outcome) => permutations(ops).map(outcome);
+
+module.exports = {
+	pen,
+	inEveryOrder,
+};
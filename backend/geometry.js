@@ -0,0 +1,450 @@
+// Geometry and graphing aids for exported boards: page templates, rulers, protractors and
+// plots of y = f(x). Each is made of marks (lines, dots and labels in board units), the same
+// ones the clients draw (frontend/src/whiteboard/geometry.ts and plot.ts), written out here
+// as SVG elements or PDF operators.
+
+const BOARD_HEIGHT = 0.5;
+const TEMPLATES = ['squared', 'dotted', 'graph', 'staff'];
+const GRID = 0.025;
+const STAFF_SPACE = 0.01;
+const STAFF_GAP = 0.05;
+const STAFF_MARGIN = 0.04;
+const RULER_WIDTH = 0.04;
+const MAX_TICKS = 2000;
+const MAX_EXPRESSION_LENGTH = 200;
+const SAMPLES = 400;
+// Translucent fills in use, which PDF pages need a graphics state for each of
+const FILL_OPACITIES = [0.55, 0.85];
+const CIRCLE_KAPPA = 0.5522847498;
+// Labels are mostly numbers, and Helvetica's digits are all this wide
+const AVERAGE_CHAR_WIDTH = 0.556;
+
+function gridLines(step, stroke, width, every = 1) {
+	const marks = [];
+	for (let i = 1; i * step < 1 - 1e-9; i++) {
+		if (i % every === 0) marks.push({ kind: 'path', points: [i * step, 0, i * step, BOARD_HEIGHT], stroke, width });
+	}
+	for (let i = 1; i * step < BOARD_HEIGHT - 1e-9; i++) {
+		if (i % every === 0) marks.push({ kind: 'path', points: [0, i * step, 1, i * step], stroke, width });
+	}
+	return marks;
+}
+
+// The marks a template rules the page with, as the clients draw them
+function templateMarks(template) {
+	if (template === 'squared') return gridLines(GRID, '#cbd5e1', 0.001);
+	if (template === 'graph') return [...gridLines(GRID / 5, '#dbeafe', 0.0006), ...gridLines(GRID / 5, '#93c5fd', 0.0012, 5)];
+	const marks = [];
+	if (template === 'dotted') {
+		for (let x = GRID; x < 1 - 1e-9; x += GRID) {
+			for (let y = GRID; y < BOARD_HEIGHT - 1e-9; y += GRID) marks.push({ kind: 'dot', x, y, radius: 0.0015, color: '#94a3b8' });
+		}
+	} else if (template === 'staff') {
+		const height = STAFF_SPACE * 4;
+		const count = Math.floor((BOARD_HEIGHT - STAFF_MARGIN * 2 + STAFF_GAP) / (height + STAFF_GAP));
+		const top = (BOARD_HEIGHT - count * height - (count - 1) * STAFF_GAP) / 2;
+		for (let staff = 0; staff < count; staff++) {
+			const y = top + staff * (height + STAFF_GAP);
+			for (let line = 0; line < 5; line++) {
+				marks.push({ kind: 'path', points: [STAFF_MARGIN, y + line * STAFF_SPACE, 1 - STAFF_MARGIN, y + line * STAFF_SPACE], stroke: '#6b7280', width: 0.0012 });
+			}
+			[STAFF_MARGIN, 1 - STAFF_MARGIN].forEach(x => marks.push({ kind: 'path', points: [x, y, x, y + height], stroke: '#6b7280', width: 0.0012 }));
+		}
+	}
+	return marks;
+}
+
+// An instrument's edge from (x1, y1) to (x2, y2), with its body to the left looking along it
+function frameOf(edge) {
+	const length = Math.hypot(edge.x2 - edge.x1, edge.y2 - edge.y1);
+	const along = length ? { x: (edge.x2 - edge.x1) / length, y: (edge.y2 - edge.y1) / length } : { x: 1, y: 0 };
+	const across = { x: along.y, y: -along.x };
+	const at = (distance, height) => ({
+		x: edge.x1 + along.x * distance + across.x * height,
+		y: edge.y1 + along.y * distance + across.y * height,
+	});
+	return { length, angle: Math.atan2(along.y, along.x), at };
+}
+
+function instrumentOutline(object) {
+	const { length, at } = frameOf(object);
+	if (object.type === 'ruler') return [at(0, 0), at(length, 0), at(length, RULER_WIDTH), at(0, RULER_WIDTH)];
+	const radius = length / 2;
+	const outline = [];
+	for (let i = 0; i <= 36; i++) {
+		const angle = (i / 36) * Math.PI;
+		outline.push(at(radius + radius * Math.cos(angle), radius * Math.sin(angle)));
+	}
+	return outline;
+}
+
+const flat = (points) => points.flatMap(point => [point.x, point.y]);
+
+function rulerMarks(object) {
+	const { length, angle, at } = frameOf(object);
+	const color = object.color;
+	const marks = [{ kind: 'path', points: flat(instrumentOutline(object)), closed: true, stroke: color, width: 0.0008, fill: '#fde68a', fillOpacity: 0.55 }];
+	const step = GRID / 10;
+	const count = Math.min(MAX_TICKS, Math.floor(length / step + 1e-9));
+	for (let i = 0; i <= count; i++) {
+		const height = RULER_WIDTH * (i % 10 === 0 ? 0.4 : i % 5 === 0 ? 0.28 : 0.18);
+		marks.push({ kind: 'path', points: flat([at(i * step, 0), at(i * step, height)]), stroke: color, width: 0.0005 });
+		if (i % 10 === 0) {
+			const label = at(i * step, RULER_WIDTH * 0.62);
+			marks.push({ kind: 'label', x: label.x, y: label.y, text: String(i / 10), size: RULER_WIDTH * 0.28, angle, color });
+		}
+	}
+	return marks;
+}
+
+function protractorMarks(object) {
+	const { length, angle: edgeAngle, at } = frameOf(object);
+	const color = object.color;
+	const radius = length / 2;
+	const polar = (degrees, distance) => {
+		const angle = (degrees * Math.PI) / 180;
+		return at(radius + distance * Math.cos(angle), distance * Math.sin(angle));
+	};
+	const marks = [{ kind: 'path', points: flat(instrumentOutline(object)), closed: true, stroke: color, width: radius * 0.006, fill: '#bae6fd', fillOpacity: 0.55 }];
+	for (let degrees = 0; degrees <= 180; degrees++) {
+		const tick = radius * (degrees % 10 === 0 ? 0.12 : degrees % 5 === 0 ? 0.08 : 0.05);
+		marks.push({ kind: 'path', points: flat([polar(degrees, radius), polar(degrees, radius - tick)]), stroke: color, width: radius * 0.003 });
+		if (degrees % 10 === 0) {
+			const label = polar(degrees, radius * 0.8);
+			marks.push({ kind: 'label', x: label.x, y: label.y, text: String(degrees), size: radius * 0.07, angle: edgeAngle + Math.PI / 2 - (degrees * Math.PI) / 180, color });
+		}
+	}
+	const centre = at(radius, 0);
+	const cross = radius * 0.05;
+	marks.push({ kind: 'path', points: flat([polar(90, cross), centre]), stroke: color, width: radius * 0.004 });
+	marks.push({ kind: 'path', points: flat([at(radius - cross, 0), at(radius + cross, 0)]), stroke: color, width: radius * 0.004 });
+	return marks;
+}
+
+const FUNCTIONS = {
+	sin: Math.sin,
+	cos: Math.cos,
+	tan: Math.tan,
+	sec: value => 1 / Math.cos(value),
+	csc: value => 1 / Math.sin(value),
+	cot: value => 1 / Math.tan(value),
+	asin: Math.asin,
+	acos: Math.acos,
+	atan: Math.atan,
+	sinh: Math.sinh,
+	cosh: Math.cosh,
+	tanh: Math.tanh,
+	sqrt: Math.sqrt,
+	cbrt: Math.cbrt,
+	abs: Math.abs,
+	exp: Math.exp,
+	ln: Math.log,
+	log: Math.log10,
+	floor: Math.floor,
+	ceil: Math.ceil,
+	round: Math.round,
+	sign: Math.sign,
+};
+
+const CONSTANTS = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+// Names in the tables themselves, not ones every object has (constructor)
+const isNamed = (table, name) => Object.prototype.hasOwnProperty.call(table, name);
+
+/**
+ * Compile the right-hand side of y = f(x) into a function of x, as the clients do.
+ * Throws an Error if it cannot be.
+ */
+function compileExpression(source) {
+	if (typeof source !== 'string' || source.length > MAX_EXPRESSION_LENGTH) throw new Error('Not an expression');
+	const tokens = source.replace(/^\s*(y|f\s*\(\s*x\s*\))\s*=/i, '').match(/\d*\.?\d+(?:e[-+]?\d+)?|[a-zA-Zπ]+|\S/g) || [];
+	let position = 0;
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+	const expect = (token) => {
+		if (next() !== token) throw new Error(`Expected "${token}"`);
+	};
+	const startsFactor = () => peek() !== undefined && (peek() === '(' || /^[\d.a-zA-Zπ]/.test(peek()));
+
+	let sum;
+	const factor = () => {
+		const token = next();
+		if (token === undefined) throw new Error('The expression ends too soon');
+		if (token === '(') {
+			const inner = sum();
+			expect(')');
+			return inner;
+		}
+		if (/^[\d.]/.test(token)) {
+			const value = Number(token);
+			if (Number.isNaN(value)) throw new Error(`"${token}" is not a number`);
+			return () => value;
+		}
+		if (token === 'x' || token === 'X') return x => x;
+		const name = token.toLowerCase();
+		if (isNamed(CONSTANTS, name)) {
+			const value = CONSTANTS[name];
+			return () => value;
+		}
+		if (isNamed(FUNCTIONS, name)) {
+			const apply = FUNCTIONS[name];
+			expect('(');
+			const argument = sum();
+			expect(')');
+			return x => apply(argument(x));
+		}
+		throw new Error(`Unexpected "${token}"`);
+	};
+	const signed = () => {
+		if (peek() === '-') {
+			next();
+			const operand = signed();
+			return x => -operand(x);
+		}
+		if (peek() === '+') next();
+		return power();
+	};
+	const power = () => {
+		const base = factor();
+		if (peek() !== '^') return base;
+		next();
+		const exponent = signed();
+		return x => base(x) ** exponent(x);
+	};
+	const product = () => {
+		let left = signed();
+		for (;;) {
+			if (peek() === '*' || peek() === '/') {
+				const divide = next() === '/';
+				const [a, b] = [left, signed()];
+				left = divide ? x => a(x) / b(x) : x => a(x) * b(x);
+			} else if (startsFactor()) {
+				const [a, b] = [left, power()];
+				left = x => a(x) * b(x);
+			} else {
+				return left;
+			}
+		}
+	};
+	sum = () => {
+		let left = product();
+		while (peek() === '+' || peek() === '-') {
+			const subtract = next() === '-';
+			const [a, b] = [left, product()];
+			left = subtract ? x => a(x) - b(x) : x => a(x) + b(x);
+		}
+		return left;
+	};
+
+	if (tokens.length === 0) throw new Error('Type an expression in x');
+	const evaluate = sum();
+	if (position < tokens.length) throw new Error(`Unexpected "${peek()}"`);
+	return evaluate;
+}
+
+function ticks(min, max) {
+	const raw = (max - min) / 8;
+	const magnitude = 10 ** Math.floor(Math.log10(raw));
+	const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(value => value >= raw) || magnitude * 10;
+	const values = [];
+	for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9 && values.length <= 50; value += step) {
+		values.push(Math.abs(value) < step * 1e-9 ? 0 : value);
+	}
+	return values;
+}
+
+const formatTick = (value) => String(Number(value.toPrecision(6)));
+
+// A plot's frame, grid, numbered axes and curve, as the clients draw them
+function plotMarks(plot) {
+	const { x, y, width, height } = plot;
+	const [xMin, xMax, yMin, yMax] = plot.axes;
+	const marks = [{
+		kind: 'path',
+		points: [x, y, x + width, y, x + width, y + height, x, y + height],
+		closed: true,
+		stroke: '#9ca3af',
+		width: Math.min(width, height) * 0.004,
+		fill: '#ffffff',
+		fillOpacity: 0.85,
+	}];
+	if (!(xMax > xMin && yMax > yMin) || !plot.axes.every(Number.isFinite)) return marks;
+
+	const toX = (value) => x + ((value - xMin) / (xMax - xMin)) * width;
+	const toY = (value) => y + ((yMax - value) / (yMax - yMin)) * height;
+	const line = Math.min(width, height) * 0.003;
+	const labelSize = Math.min(width, height) * 0.04;
+	const xTicks = ticks(xMin, xMax);
+	const yTicks = ticks(yMin, yMax);
+	xTicks.forEach(value => marks.push({ kind: 'path', points: [toX(value), y, toX(value), y + height], stroke: '#e5e7eb', width: line }));
+	yTicks.forEach(value => marks.push({ kind: 'path', points: [x, toY(value), x + width, toY(value)], stroke: '#e5e7eb', width: line }));
+
+	const xAxis = yMin <= 0 && yMax >= 0 ? toY(0) : null;
+	const yAxis = xMin <= 0 && xMax >= 0 ? toX(0) : null;
+	if (xAxis !== null) marks.push({ kind: 'path', points: [x, xAxis, x + width, xAxis], stroke: '#4b5563', width: line * 2 });
+	if (yAxis !== null) marks.push({ kind: 'path', points: [yAxis, y, yAxis, y + height], stroke: '#4b5563', width: line * 2 });
+	const labelY = xAxis !== null ? Math.min(xAxis + labelSize * 0.9, y + height - labelSize * 0.7) : y + height - labelSize * 0.7;
+	xTicks.forEach((value) => {
+		const at = toX(value);
+		if (value === 0 && yAxis !== null) return;
+		if (at < x + labelSize || at > x + width - labelSize) return;
+		marks.push({ kind: 'label', x: at, y: labelY, text: formatTick(value), size: labelSize, angle: 0, color: '#4b5563' });
+	});
+	yTicks.forEach((value) => {
+		const at = toY(value);
+		if (value === 0 && xAxis !== null) return;
+		if (at < y + labelSize || at > y + height - labelSize) return;
+		const text = formatTick(value);
+		const offset = labelSize * (0.5 + text.length * 0.3);
+		const labelX = yAxis !== null ? Math.max(yAxis - offset, x + offset - labelSize * 0.3) : x + offset - labelSize * 0.3;
+		marks.push({ kind: 'label', x: labelX, y: at, text, size: labelSize, angle: 0, color: '#4b5563' });
+	});
+
+	let evaluate;
+	try {
+		evaluate = compileExpression(plot.expression);
+	} catch (err) {
+		marks.push({ kind: 'label', x: x + width / 2, y: y + labelSize * 1.5, text: err.message, size: labelSize, angle: 0, color: '#dc2626' });
+		return marks;
+	}
+
+	let piece = null;
+	let previous = null;
+	for (let i = 0; i <= SAMPLES; i++) {
+		const vx = xMin + ((xMax - xMin) * i) / SAMPLES;
+		const vy = evaluate(vx);
+		if (!Number.isFinite(vy)) {
+			piece = null;
+			previous = null;
+			continue;
+		}
+		const from = previous;
+		previous = { x: vx, y: vy };
+		if (!from) continue;
+		if ((from.y > yMax && vy > yMax) || (from.y < yMin && vy < yMin) || (from.y > yMax && vy < yMin) || (from.y < yMin && vy > yMax)) {
+			piece = null;
+			continue;
+		}
+		const dy = vy - from.y;
+		const [enter, exit] = dy === 0 ? [0, 1] : [(yMax - from.y) / dy, (yMin - from.y) / dy].sort((a, b) => a - b);
+		const start = Math.max(0, enter);
+		const end = Math.min(1, exit);
+		if (start > end) {
+			piece = null;
+			continue;
+		}
+		const at = (t) => [toX(from.x + (vx - from.x) * t), toY(from.y + dy * t)];
+		if (!piece || start > 0) {
+			piece = at(start);
+			marks.push({ kind: 'path', points: piece, stroke: plot.color, width: plot.size });
+		}
+		piece.push(...at(end));
+		if (end < 1) piece = null;
+	}
+	return marks;
+}
+
+/**
+ * The marks of a ruler, protractor or plot; empty for any other object
+ */
+function objectMarks(object) {
+	if (object.type === 'ruler') return rulerMarks(object);
+	if (object.type === 'protractor') return protractorMarks(object);
+	if (object.type === 'plot') return plotMarks(object);
+	return [];
+}
+
+// Smallest box around a ruler, protractor or plot
+function objectBounds(object) {
+	if (object.type === 'plot') return { x: object.x, y: object.y, width: object.width, height: object.height };
+	const outline = instrumentOutline(object);
+	const xs = outline.map(point => point.x);
+	const ys = outline.map(point => point.y);
+	const [x, y] = [Math.min(...xs), Math.min(...ys)];
+	return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function escapeXml(text) {
+	return String(text).replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Marks as SVG elements, with board units multiplied by `scale` and formatted by `num`
+function marksToSvg(marks, scale, num) {
+	const s = (value) => num(value * scale);
+	return marks.map((mark) => {
+		if (mark.kind === 'dot') return `<circle cx="${s(mark.x)}" cy="${s(mark.y)}" r="${s(mark.radius)}" fill="${escapeXml(mark.color)}"/>`;
+		if (mark.kind === 'label') {
+			const degrees = num((mark.angle * 180) / Math.PI);
+			return `<text x="${s(mark.x)}" y="${s(mark.y)}" transform="rotate(${degrees} ${s(mark.x)} ${s(mark.y)})" font-family="sans-serif" font-size="${s(mark.size)}" fill="${escapeXml(mark.color)}" text-anchor="middle" dominant-baseline="central">${escapeXml(mark.text)}</text>`;
+		}
+		const points = [];
+		for (let i = 0; i < mark.points.length; i += 2) points.push(`${s(mark.points[i])},${s(mark.points[i + 1])}`);
+		const fill = mark.fill ? `fill="${escapeXml(mark.fill)}"${mark.fillOpacity !== undefined ? ` fill-opacity="${mark.fillOpacity}"` : ''}` : 'fill="none"';
+		const stroke = mark.stroke && mark.width ? `stroke="${escapeXml(mark.stroke)}" stroke-width="${s(mark.width)}" stroke-linecap="round" stroke-linejoin="round"` : '';
+		return `<${mark.closed ? 'polygon' : 'polyline'} points="${points.join(' ')}" ${fill} ${stroke}/>`;
+	}).join('');
+}
+
+const fillStateName = (opacity) => `Fill${Math.round(opacity * 100)}`;
+
+// The graphics states translucent fills are painted with, which PDF pages list under /ExtGState
+function pdfFillStates() {
+	return FILL_OPACITIES.map(opacity => ({ name: fillStateName(opacity), opacity }));
+}
+
+/**
+ * Marks as PDF operators in board units. `color(color, operator)` sets a colour, `text(string)`
+ * writes a PDF string and labels are set in the page's /Text font.
+ */
+function marksToPdf(marks, num, color, text) {
+	const ops = [];
+	marks.forEach((mark) => {
+		if (mark.kind === 'dot') {
+			const { x, y, radius } = mark;
+			const k = radius * CIRCLE_KAPPA;
+			ops.push(
+				color(mark.color, 'rg'),
+				`${num(x + radius)} ${num(y)} m`,
+				`${num(x + radius)} ${num(y + k)} ${num(x + k)} ${num(y + radius)} ${num(x)} ${num(y + radius)} c`,
+				`${num(x - k)} ${num(y + radius)} ${num(x - radius)} ${num(y + k)} ${num(x - radius)} ${num(y)} c`,
+				`${num(x - radius)} ${num(y - k)} ${num(x - k)} ${num(y - radius)} ${num(x)} ${num(y - radius)} c`,
+				`${num(x + k)} ${num(y - radius)} ${num(x + radius)} ${num(y - k)} ${num(x + radius)} ${num(y)} c`,
+				'f'
+			);
+			return;
+		}
+		if (mark.kind === 'label') {
+			// Centred on its point by an estimate of its width; the page is flipped, so the glyphs are too
+			const [cos, sin] = [Math.cos(mark.angle), Math.sin(mark.angle)];
+			const half = (mark.text.length * AVERAGE_CHAR_WIDTH * mark.size) / 2;
+			const drop = mark.size * 0.35;
+			const x = mark.x - half * cos - drop * sin;
+			const y = mark.y - half * sin + drop * cos;
+			ops.push('BT', color(mark.color, 'rg'), `/Text ${num(mark.size)} Tf`, `${num(cos)} ${num(sin)} ${num(sin)} ${num(-cos)} ${num(x)} ${num(y)} Tm`, `${text(mark.text)} Tj`, 'ET');
+			return;
+		}
+		const stroked = mark.stroke && mark.width;
+		if (!stroked && !mark.fill) return;
+		const path = [`${num(mark.points[0])} ${num(mark.points[1])} m`];
+		for (let i = 2; i < mark.points.length; i += 2) path.push(`${num(mark.points[i])} ${num(mark.points[i + 1])} l`);
+		if (mark.closed) path.push('h');
+		const translucent = mark.fill && mark.fillOpacity !== undefined && FILL_OPACITIES.includes(mark.fillOpacity);
+		if (translucent) ops.push('q', `/${fillStateName(mark.fillOpacity)} gs`);
+		if (mark.fill) ops.push(color(mark.fill, 'rg'));
+		if (stroked) ops.push(color(mark.stroke, 'RG'), `${num(mark.width)} w`);
+		ops.push(...path, mark.fill && stroked ? 'B' : mark.fill ? 'f' : 'S');
+		if (translucent) ops.push('Q');
+	});
+	return ops;
+}
+
+module.exports = {
+	TEMPLATES,
+	MAX_EXPRESSION_LENGTH,
+	templateMarks,
+	objectMarks,
+	objectBounds,
+	marksToSvg,
+	marksToPdf,
+	pdfFillStates,
+};
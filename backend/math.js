@@ -0,0 +1,218 @@
+// LaTeX typeset by MathJax, for equations in exported boards. The clients typeset equations
+// themselves (frontend/src/whiteboard/math.ts, with the same TeX packages); this is what lets
+// the server's SVG and PDF exports show them as the board does. MathJax lays a formula out as
+// SVG in units of 1/1000 em, with the baseline at y = 0.
+
+const { mathjax } = require('mathjax-full/js/mathjax.js');
+const { TeX } = require('mathjax-full/js/input/tex.js');
+const { SVG } = require('mathjax-full/js/output/svg.js');
+const { liteAdaptor } = require('mathjax-full/js/adaptors/liteAdaptor.js');
+const { RegisterHTMLHandler } = require('mathjax-full/js/handlers/html.js');
+require('mathjax-full/js/input/tex/base/BaseConfiguration.js');
+require('mathjax-full/js/input/tex/ams/AmsConfiguration.js');
+require('mathjax-full/js/input/tex/newcommand/NewcommandConfiguration.js');
+require('mathjax-full/js/input/tex/boldsymbol/BoldsymbolConfiguration.js');
+require('mathjax-full/js/input/tex/braket/BraketConfiguration.js');
+require('mathjax-full/js/input/tex/cancel/CancelConfiguration.js');
+require('mathjax-full/js/input/tex/cases/CasesConfiguration.js');
+require('mathjax-full/js/input/tex/color/ColorConfiguration.js');
+require('mathjax-full/js/input/tex/gensymb/GensymbConfiguration.js');
+require('mathjax-full/js/input/tex/mathtools/MathtoolsConfiguration.js');
+require('mathjax-full/js/input/tex/mhchem/MhchemConfiguration.js');
+require('mathjax-full/js/input/tex/textmacros/TextMacrosConfiguration.js');
+require('mathjax-full/js/input/tex/upgreek/UpgreekConfiguration.js');
+
+const PACKAGES = ['base', 'ams', 'newcommand', 'boldsymbol', 'braket', 'cancel', 'cases', 'color', 'gensymb', 'mathtools', 'mhchem', 'textmacros', 'upgreek'];
+const MAX_CACHED = 300;
+
+let adaptor = null;
+let mathDocument = null;
+const formulas = new Map();
+
+const IDENTITY = [1, 0, 0, 1, 0, 0];
+
+function multiply(m, n) {
+	return [
+		m[0] * n[0] + m[2] * n[1],
+		m[1] * n[0] + m[3] * n[1],
+		m[0] * n[2] + m[2] * n[3],
+		m[1] * n[2] + m[3] * n[3],
+		m[0] * n[4] + m[2] * n[5] + m[4],
+		m[1] * n[4] + m[3] * n[5] + m[5],
+	];
+}
+
+// The matrix of an SVG transform attribute; MathJax only writes translate, scale, rotate and matrix
+function parseTransform(transform) {
+	let matrix = IDENTITY;
+	(transform || '').replace(/(\w+)\(([^)]*)\)/g, (_, name, args) => {
+		const [a = 0, b, c, d, e, f] = args.trim().split(/[\s,]+/).map(Number);
+		let step = IDENTITY;
+		if (name === 'translate') step = [1, 0, 0, 1, a, b || 0];
+		else if (name === 'scale') step = [a, 0, 0, b === undefined ? a : b, 0, 0];
+		else if (name === 'rotate') {
+			const angle = (a * Math.PI) / 180;
+			step = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+		} else if (name === 'matrix') step = [a, b, c, d, e, f];
+		matrix = multiply(matrix, step);
+		return '';
+	});
+	return matrix;
+}
+
+// Everything the formula paints ({ kind: 'path', d } or { kind: 'text', text, fontSize }, with
+// matrix, fill, stroke and strokeWidth), with the styles each element inherits
+function collectShapes(node, inherited, shapes) {
+	const attribute = (name) => adaptor.getAttribute(node, name);
+	const number = (name) => Number(attribute(name)) || 0;
+	const strokeWidth = attribute('stroke-width');
+	const style = {
+		matrix: multiply(inherited.matrix, parseTransform(attribute('transform'))),
+		fill: attribute('fill') || inherited.fill,
+		stroke: attribute('stroke') || inherited.stroke,
+		strokeWidth: strokeWidth === null || strokeWidth === undefined ? inherited.strokeWidth : Number(strokeWidth) || 0,
+	};
+
+	switch (adaptor.kind(node)) {
+		case 'g':
+		case 'svg':
+			if (adaptor.kind(node) === 'svg') style.matrix = multiply(style.matrix, [1, 0, 0, 1, number('x'), number('y')]);
+			adaptor.childNodes(node).forEach((child) => {
+				if (adaptor.kind(child) !== '#text' && adaptor.kind(child) !== '#comment') collectShapes(child, style, shapes);
+			});
+			break;
+		case 'path':
+			shapes.push({ ...style, kind: 'path', d: attribute('d') || '' });
+			break;
+		case 'rect': {
+			const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(number);
+			shapes.push({ ...style, kind: 'path', d: `M${x} ${y}H${x + width}V${y + height}H${x}Z` });
+			break;
+		}
+		case 'line':
+			shapes.push({ ...style, kind: 'path', d: `M${number('x1')} ${number('y1')}L${number('x2')} ${number('y2')}` });
+			break;
+		case 'text':
+			shapes.push({ ...style, kind: 'text', text: adaptor.textContent(node), fontSize: number('font-size') });
+			break;
+		default:
+			break;
+	}
+}
+
+function typeset(latex) {
+	if (!mathDocument) {
+		adaptor = liteAdaptor();
+		RegisterHTMLHandler(adaptor);
+		mathDocument = mathjax.document('', {
+			// Mistakes are reported rather than shown in red in the formula
+			InputJax: new TeX({ packages: PACKAGES, formatError: (_, error) => { throw new Error(error.message); } }),
+			OutputJax: new SVG({ fontCache: 'none' }),
+		});
+	}
+	const svg = adaptor.firstChild(mathDocument.convert(latex, { display: true }));
+	const viewBox = String(adaptor.getAttribute(svg, 'viewBox')).split(' ').map(Number);
+	const shapes = [];
+	collectShapes(svg, { matrix: IDENTITY, fill: 'currentColor', stroke: 'none', strokeWidth: 1 }, shapes);
+	return { viewBox, shapes, markup: adaptor.innerHTML(svg) };
+}
+
+/**
+ * Typeset LaTeX as a displayed formula: { viewBox: [minX, minY, width, height], shapes, markup }
+ * where markup is the SVG's contents. Returns null if the LaTeX has mistakes in it.
+ */
+function renderMath(latex) {
+	if (!formulas.has(latex)) {
+		let formula = null;
+		try {
+			formula = typeset(latex);
+		} catch {
+			formula = null;
+		}
+		if (formulas.size >= MAX_CACHED) formulas.delete(formulas.keys().next().value);
+		formulas.set(latex, formula);
+	}
+	return formulas.get(latex);
+}
+
+// Where a formula goes in a box: as large as fits and centred, as a matrix from its units
+function placeFormula(formula, box) {
+	const [minX, minY, width, height] = formula.viewBox;
+	const scale = width > 0 && height > 0 ? Math.min(box.width / width, box.height / height) : 0;
+	const x = box.x + (box.width - width * scale) / 2 - minX * scale;
+	const y = box.y + (box.height - height * scale) / 2 - minY * scale;
+	return [scale, 0, 0, scale, x, y];
+}
+
+const PATH_ARGUMENTS = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, Z: 0 };
+
+/**
+ * SVG path data as PDF path operators, each point mapped by `matrix` and formatted by `num`.
+ * PDF curves are cubic, so quadratic pieces are raised to cubics on the way.
+ */
+function pathToPdf(d, matrix, num) {
+	const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) || [];
+	const ops = [];
+	const [ma, mb, mc, md, me, mf] = matrix;
+	const point = (px, py) => `${num(ma * px + mc * py + me)} ${num(mb * px + md * py + mf)}`;
+	let [x, y, startX, startY] = [0, 0, 0, 0];
+	// The control point of the curve before, for S (after a cubic) and T (after a quadratic) to reflect
+	let last = { kind: null, x: 0, y: 0 };
+	const reflected = (kind) => (last.kind === kind ? [2 * x - last.x, 2 * y - last.y] : [x, y]);
+	let command = '';
+	let i = 0;
+	while (i < tokens.length) {
+		if (/[a-zA-Z]/.test(tokens[i])) command = tokens[i++];
+		else if (command.toUpperCase() === 'Z') break; // numbers straight after a close are not path data
+		const upper = command.toUpperCase();
+		const count = PATH_ARGUMENTS[upper];
+		if (count === undefined) return [];
+		const args = tokens.slice(i, i + count).map(Number);
+		if (args.length < count || args.some(Number.isNaN)) break;
+		i += count;
+		// Relative commands are made absolute
+		if (command !== upper) {
+			if (upper === 'H') args[0] += x;
+			else if (upper === 'V') args[0] += y;
+			else for (let k = 0; k < count; k++) args[k] += k % 2 === 0 ? x : y;
+		}
+
+		let curve = { kind: null, x: 0, y: 0 };
+		if (upper === 'M') {
+			[x, y] = args;
+			[startX, startY] = [x, y];
+			ops.push(`${point(x, y)} m`);
+			// Further pairs after a move are lines
+			command = command === 'M' ? 'L' : 'l';
+		} else if (upper === 'L' || upper === 'H' || upper === 'V') {
+			if (upper === 'L') [x, y] = args;
+			else if (upper === 'H') x = args[0];
+			else y = args[0];
+			ops.push(`${point(x, y)} l`);
+		} else if (upper === 'C' || upper === 'S') {
+			const [c1x, c1y] = upper === 'C' ? args : reflected('cubic');
+			const [c2x, c2y, endX, endY] = upper === 'C' ? args.slice(2) : args;
+			ops.push(`${point(c1x, c1y)} ${point(c2x, c2y)} ${point(endX, endY)} c`);
+			curve = { kind: 'cubic', x: c2x, y: c2y };
+			[x, y] = [endX, endY];
+		} else if (upper === 'Q' || upper === 'T') {
+			const [qx, qy] = upper === 'Q' ? args : reflected('quadratic');
+			const [endX, endY] = upper === 'Q' ? args.slice(2) : args;
+			ops.push(`${point(x + (qx - x) * 2 / 3, y + (qy - y) * 2 / 3)} ${point(endX + (qx - endX) * 2 / 3, endY + (qy - endY) * 2 / 3)} ${point(endX, endY)} c`);
+			curve = { kind: 'quadratic', x: qx, y: qy };
+			[x, y] = [endX, endY];
+		} else {
+			ops.push('h');
+			[x, y] = [startX, startY];
+		}
+		last = curve;
+	}
+	return ops;
+}
+
+module.exports = {
+	multiply,
+	renderMath,
+	placeFormula,
+	pathToPdf,
+};
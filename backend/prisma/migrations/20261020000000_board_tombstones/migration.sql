@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Board" ADD COLUMN     "deleted" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "horizon" JSONB,
+ADD COLUMN     "clock" BIGINT NOT NULL DEFAULT 0;
@@ -0,0 +1,105 @@
+// Timelines of the main whiteboard, one per session, so it can be replayed afterwards. A
+// recording is a JSON Lines file: a header with the board as the session found it, then one
+// line per change with the milliseconds since the session started. Like uploads, recordings
+// always live on disk, whichever database holds the rest of the data.
+
+const fs = require('fs');
+const path = require('path');
+
+const RECORDINGS_DIR = path.join(__dirname, 'data', 'recordings');
+// Changes are written out in batches at most this far apart
+const FLUSH_DELAY_MS = 2000;
+const RECORDING_VERSION = 2;
+
+const ID_PATTERN = /^[\w-]+$/;
+
+const active = new Map(); // { sessionId: { file, startedAt, lines, changed, timer, writing } } for live sessions
+
+function recordingPath(classroomId, sessionId) {
+	return path.join(RECORDINGS_DIR, classroomId, `${sessionId}.jsonl`);
+}
+
+// Append the lines waiting to be written; writes are chained so they land in order. Sessions
+// in which the board never changed leave no file behind.
+function flush(recording) {
+	clearTimeout(recording.timer);
+	recording.timer = null;
+	if (!recording.changed || recording.lines.length === 0) return recording.writing;
+
+	const text = recording.lines.join('\n') + '\n';
+	recording.lines = [];
+	recording.writing = recording.writing
+		.then(() => fs.promises.mkdir(path.dirname(recording.file), { recursive: true }))
+		.then(() => fs.promises.appendFile(recording.file, text))
+		.catch(err => console.error(`Failed to save recording ${recording.file}:`, err));
+	return recording.writing;
+}
+
+/**
+ * Start recording a session, from the pages its board was loaded with
+ */
+function startRecording(classroomId, sessionId, pages) {
+	if (!ID_PATTERN.test(classroomId) || !ID_PATTERN.test(sessionId)) return;
+	const startedAt = Date.now();
+	const header = { type: 'start', version: RECORDING_VERSION, classroomId, sessionId, startedAt: new Date(startedAt).toISOString(), pages };
+	active.set(sessionId, { file: recordingPath(classroomId, sessionId), startedAt, lines: [JSON.stringify(header)], changed: false, timer: null, writing: Promise.resolve() });
+}
+
+/**
+ * Add a change to a session's recording: { type: 'op' | 'page' | 'clear' | 'moderate' | 'navigate', ... }
+ */
+function record(sessionId, event) {
+	const recording = active.get(sessionId);
+	if (!recording) return;
+	recording.lines.push(JSON.stringify({ t: Date.now() - recording.startedAt, ...event }));
+	recording.changed = true;
+	if (!recording.timer) recording.timer = setTimeout(() => flush(recording), FLUSH_DELAY_MS);
+}
+
+async function stopRecording(sessionId) {
+	const recording = active.get(sessionId);
+	if (!recording) return;
+	active.delete(sessionId);
+	await flush(recording);
+}
+
+/**
+ * Sessions of a classroom that have a recording, with its size in bytes
+ */
+async function listRecordings(classroomId, sessions) {
+	const recordings = await Promise.all(sessions.map(async (session) => {
+		const recording = active.get(session.id);
+		if (recording) await flush(recording);
+		try {
+			const stats = await fs.promises.stat(recordingPath(classroomId, session.id));
+			return { sessionId: session.id, startedAt: session.startedAt, endedAt: session.endedAt, size: stats.size };
+		} catch (error) {
+			if (error.code === 'ENOENT') return null;
+			throw error;
+		}
+	}));
+	return recordings.filter(Boolean);
+}
+
+/**
+ * Read a recording, up to the latest change if the session is still going, or null if there is none
+ */
+async function readRecording(classroomId, sessionId) {
+	if (!ID_PATTERN.test(classroomId) || !ID_PATTERN.test(sessionId)) return null;
+	const recording = active.get(sessionId);
+	if (recording) await flush(recording);
+	try {
+		return await fs.promises.readFile(recordingPath(classroomId, sessionId));
+	} catch (error) {
+		if (error.code === 'ENOENT') return null;
+		throw error;
+	}
+}
+
+module.exports = {
+	startRecording,
+	record,
+	stopRecording,
+	listRecordings,
+	readRecording,
+};
@@ -3,27 +3,20 @@ const https = require('https');
 const http = require('http');
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
 const socketIo = require('socket.io');
 const cors = require('cors');
 const { ExpressPeerServer } = require('peer');
-const { register, login, verifyToken, getProfile } = require('./auth');
-const { PrismaClient } = require('@prisma/client');
+const { register, login, verifyToken, verifySocketToken, getProfile } = require('./auth');
+const store = require('./store');
+const board = require('./board');
+const wire = require('./wire');
+const boardExport = require('./export');
+const uploads = require('./uploads');
+const recordings = require('./recordings');
+const db = require('./db');
 
 const app = express();
-const prisma = new PrismaClient();
-
-prisma.$connect()
-  .then(() => {
-    console.log('Prisma connected to database successfully');
-    return prisma.user.count();
-  })
-  .then((count) => {
-    console.log(`Current user count: ${count}`);
-  })
-  .catch((err) => {
-    console.error('Prisma connection failed:', err.message);
-    console.error(' Will fall back to file-based storage if available');
-  });
 
 const useHttps = process.env.NODE_ENV !== 'production' && process.env.USE_HTTPS !== 'false';
 let server;
@@ -110,76 +103,691 @@ if (process.env.NODE_ENV === 'production') {
   app.set('trust proxy', 1);
 }
 
-// In-memory state (no database)
-const appState = {
-  admin: null,
-  users: {}, // { socketId: { name, role, streamActive, canDraw, inVideoCall, peerId } }
-  chat: [],
-  drawingEnabled: true, // global toggle (default: true)
-  adminCode: 'teach123'
+// In-memory state for live classrooms; classrooms, sessions and chat are persisted through ./store
+// How long a room waits for its teacher after an unexpected disconnect (0 ends the session immediately)
+const ADMIN_RECONNECT_GRACE_MS = parseInt(process.env.ADMIN_RECONNECT_GRACE_MS || '60000', 10);
+const rooms = {}; // { roomId: { id, title, ownerId, sessionId, admin, adminAccountId, paused, staff, settings, lobby, admittedAccounts, breakouts, users, chat, board, drawingEnabled, createdAt } }
+const loadingRooms = {}; // { roomId: Promise<room|null> } while a classroom is being loaded from storage
+
+// Room roles below the host ('admin') and the powers each one starts with;
+// the host can adjust powers per user
+const STAFF_ROLES = ['teacher', 'ta'];
+const PERMISSIONS = ['kick', 'clearCanvas', 'toggleDrawing', 'manageChat', 'admit', 'breakouts'];
+const ROLE_DEFAULT_PERMISSIONS = {
+  teacher: { kick: true, clearCanvas: true, toggleDrawing: true, manageChat: true, admit: true, breakouts: true },
+  ta: { kick: false, clearCanvas: false, toggleDrawing: true, manageChat: true, admit: true, breakouts: false },
+  student: { kick: false, clearCanvas: false, toggleDrawing: false, manageChat: false, admit: false, breakouts: false }
 };
 
+// Main boards are written to storage at most this often while people draw
+const BOARD_SAVE_DELAY_MS = 2000;
+// A client whose changes were turned down or restamped gets the board back at most this often,
+// so an outbox turned down op after op brings one copy of the board rather than one for each
+const BOARD_SYNC_DELAY_MS = 100;
+// Live cursors are relayed at most this often per participant
+const CURSOR_INTERVAL_MS = 40;
+
+const MAX_BREAKOUT_GROUPS = 20;
+const MAX_BREAKOUT_MINUTES = 240;
+
+// Room codes avoid look-alike characters so they can be read out loud in class
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+
+async function generateRoomCode() {
+  let code;
+  do {
+    code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+    }
+  } while (rooms[code] || await store.findClassroom(code));
+  return code;
+}
+
+function normalizeRoomId(roomId) {
+  return typeof roomId === 'string' ? roomId.trim().toUpperCase() : '';
+}
+
+async function createClassroom(title, ownerId) {
+  const id = await generateRoomCode();
+  return store.createClassroom({
+    id,
+    title: (typeof title === 'string' && title.trim()) || `Classroom ${id}`,
+    ownerId
+  });
+}
+
+// Bring a stored classroom live: load its chat history and open a new session
+async function activateRoom(roomId) {
+  const classroom = await store.findClassroom(roomId);
+  if (!classroom) return null;
+
+  const [history, boardPages, session] = await Promise.all([
+    store.loadChatHistory(classroom.id),
+    store.loadBoard(classroom.id),
+    store.startSession(classroom.id)
+  ]);
+
+  rooms[classroom.id] = {
+    id: classroom.id,
+    title: classroom.title,
+    ownerId: classroom.ownerId,
+    sessionId: session.id,
+    admin: null,
+    adminAccountId: null,
+    paused: null, // { accountId, resumeBy, timer } while waiting for the teacher to reconnect
+    staff: {}, // { accountId: { role, permissions } } so co-teachers keep their role across reconnects
+    settings: {
+      lobbyEnabled: !!classroom.lobbyEnabled, // new students wait until staff admit them
+      locked: false, // no new students at all
+      maxCapacity: classroom.maxCapacity || null // student seats; staff don't count
+    },
+    lobby: {}, // { socketId: { name, accountId, requestedAt } } students waiting to be admitted
+    admittedAccounts: new Set(), // students let in this session skip the lobby when they reconnect
+    breakouts: null, // { groups: { groupId: { id, name, members: Set<accountId>, chat } }, endsAt, timer } while groups are running
+    users: {}, // { socketId: { name, role, accountId, streamActive, canDraw, inVideoCall, peerId } }
+    chat: history.map(msg => ({
+      id: msg.id,
+      userId: msg.userId,
+      username: msg.username,
+      message: msg.message,
+      timestamp: new Date(msg.createdAt).toISOString(),
+      role: msg.role
+    })),
+    board: { ...board.createBoard(boardPages), saveTimer: null }, // authoritative main whiteboard
+    drawingEnabled: classroom.drawingEnabled, // per-room toggle (default: true)
+    createdAt: new Date(classroom.createdAt).toISOString()
+  };
+  recordings.startRecording(classroom.id, session.id, rooms[classroom.id].board.pages);
+  console.log(`Room ${classroom.id} activated (session ${session.id})`);
+  return rooms[classroom.id];
+}
+
+async function getOrActivateRoom(roomId) {
+  if (rooms[roomId]) return rooms[roomId];
+  if (!loadingRooms[roomId]) {
+    loadingRooms[roomId] = activateRoom(roomId).finally(() => {
+      delete loadingRooms[roomId];
+    });
+  }
+  return loadingRooms[roomId];
+}
+
+// Drop a live room from memory and close its session; the classroom itself stays stored
+function closeRoom(room) {
+  if (room.paused) {
+    clearTimeout(room.paused.timer);
+  }
+  if (room.breakouts) {
+    clearTimeout(room.breakouts.timer);
+  }
+  if (room.board.saveTimer) {
+    clearTimeout(room.board.saveTimer);
+    saveBoard(room);
+  }
+  Object.keys(room.lobby).forEach((socketId) => {
+    const waitingSocket = io.sockets.sockets.get(socketId);
+    if (waitingSocket) {
+      waitingSocket.data.lobbyRoomId = null;
+      waitingSocket.emit('join_error', { error: 'The classroom was closed' });
+    }
+  });
+  delete rooms[room.id];
+  recordings.stopRecording(room.sessionId).catch(err => console.error(`Failed to finish recording for room ${room.id}:`, err));
+  store.endSession(room.sessionId).catch(err => console.error(`Failed to end session for room ${room.id}:`, err));
+}
+
+function summarizeRoom(room) {
+  return {
+    id: room.id,
+    title: room.title,
+    userCount: Object.keys(room.users).length,
+    hasAdmin: !!room.admin,
+    createdAt: room.createdAt
+  };
+}
+
+// The host holds every power; co-teachers and TAs hold the ones granted to them
+function can(user, permission) {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+  return !!(user.permissions && user.permissions[permission]);
+}
+
+function isStaff(user) {
+  return !!user && (user.role === 'admin' || STAFF_ROLES.includes(user.role));
+}
+
+// Assign a room role, remembering staff assignments by account for the rest of the session
+function applyRole(room, user, role, permissions) {
+  user.role = role;
+  user.permissions = { ...ROLE_DEFAULT_PERMISSIONS[role === 'admin' ? 'teacher' : role], ...permissions };
+  if (STAFF_ROLES.includes(role)) {
+    room.staff[user.accountId] = { role, permissions: user.permissions };
+  } else {
+    delete room.staff[user.accountId];
+  }
+  if (role === 'student') {
+    room.admittedAccounts.add(user.accountId);
+  }
+}
+
+// Resolve the room and user record for the socket that emitted an event
+function getContext(socket) {
+  const room = socket.data.roomId ? rooms[socket.data.roomId] : null;
+  const user = room ? room.users[socket.id] : null;
+  return { room, user };
+}
+
+// Breakout groups draw on their own board, which is dropped when the groups close
+function boardOf(room, user) {
+  return user && user.breakoutId ? room.breakouts.groups[user.breakoutId].board : room.board;
+}
+
+function saveBoard(room) {
+  room.board.saveTimer = null;
+  store.saveBoard(room.id, board.storedState(room.board)).catch(err => console.error(`Failed to save board of ${room.id}:`, err));
+}
+
+function scheduleBoardSave(room) {
+  if (!room.board.saveTimer) {
+    room.board.saveTimer = setTimeout(() => saveBoard(room), BOARD_SAVE_DELAY_MS);
+  }
+}
+
+// Put a client that has already applied changes locally back in step with the server's board
+function scheduleBoardSync(socket) {
+  if (socket.data.boardSyncTimer) return;
+  socket.data.boardSyncTimer = setTimeout(() => {
+    socket.data.boardSyncTimer = null;
+    const { room, user } = getContext(socket);
+    if (room && user && socket.connected) socket.emit('board_sync', { board: board.snapshot(boardOf(room, user)) });
+  }, BOARD_SYNC_DELAY_MS);
+}
+
+// Anyone allowed to draw may add objects; students may only change their own
+function canDrawOnBoard(room, user) {
+  return !!user && (isStaff(user) || (room.drawingEnabled && user.canDraw));
+}
+
+// Students may only change their own objects on the board; staff may change anything
+function editableBy(user) {
+  return (object) => isStaff(user) || object.authorId === user.accountId;
+}
+
+// Chat, whiteboard and video signalling are scoped to the main room or the
+// breakout group a user is in; control events still go to the whole classroom
+function channelOf(room, user) {
+  return user && user.breakoutId ? `${room.id}#${user.breakoutId}` : `${room.id}#main`;
+}
+
+// Changes to the main board go into the session's recording; breakout boards are not recorded
+function recordBoard(room, user, event) {
+  if (!user.breakoutId) recordings.record(room.sessionId, event);
+}
+
+// End the session for everyone still in the room and close it
+function endRoomSession(room, reason) {
+  io.to(room.id).emit('session_ended', { reason });
+  Object.keys(room.users).forEach((socketId) => {
+    const memberSocket = io.sockets.sockets.get(socketId);
+    if (memberSocket) {
+      memberSocket.data.roomId = null;
+      memberSocket.leave(room.id);
+      memberSocket.leave(channelOf(room, room.users[socketId]));
+    }
+  });
+  closeRoom(room);
+  console.log(`Room ${room.id} closed: ${reason}`);
+}
+
+// Keep the room and its state while the teacher's connection is down
+function pauseRoom(room) {
+  const resumeBy = Date.now() + ADMIN_RECONNECT_GRACE_MS;
+  room.paused = {
+    accountId: room.adminAccountId,
+    resumeBy,
+    timer: setTimeout(() => {
+      room.paused = null;
+      endRoomSession(room, 'Teacher did not reconnect in time');
+    }, ADMIN_RECONNECT_GRACE_MS)
+  };
+  io.to(room.id).emit('session_paused', { reason: 'Teacher reconnecting', resumeBy });
+  console.log(`Room ${room.id} paused, waiting ${ADMIN_RECONNECT_GRACE_MS}ms for the teacher`);
+}
+
+// Remove a socket from its room. An admin leaving on purpose ends the session,
+// an admin dropping out pauses it for the reconnect grace period.
+function leaveRoom(socket, { unexpected = false } = {}) {
+  const { room, user } = getContext(socket);
+  socket.data.roomId = null;
+  if (!room || !user) return;
+
+  socket.leave(room.id);
+  socket.leave(channelOf(room, user));
+
+  // If user was in video call, notify peers of peer_left
+  if (user.peerId) {
+    socket.to(channelOf(room, user)).emit('peer_left', { peerId: user.peerId });
+  }
+
+  if (user.role === 'admin' && !(unexpected && ADMIN_RECONNECT_GRACE_MS > 0)) {
+    endRoomSession(room, 'Admin left the session');
+    return;
+  }
+
+  // Remove user and notify others
+  delete room.users[socket.id];
+  socket.to(room.id).emit('user_left', { userId: socket.id });
+
+  if (user.role === 'admin') {
+    room.admin = null;
+    pauseRoom(room);
+    return;
+  }
+
+  // Students waiting in the lobby keep the room open for the teacher
+  if (Object.keys(room.users).length === 0 && Object.keys(room.lobby).length === 0 && !room.paused) {
+    closeRoom(room);
+    console.log(`Room ${room.id} closed (empty)`);
+  }
+}
+
+// Add a socket to the room's live state and send it everything it needs
+function admitUser(socket, room, role, permissions) {
+  const account = socket.data.user;
+
+  // Add user to state (everyone can draw by default)
+  room.users[socket.id] = {
+    name: account.username,
+    role,
+    permissions: {},
+    accountId: account.userId,
+    streamActive: false,
+    canDraw: true,
+    inVideoCall: false,
+    peerId: null,
+    breakoutId: null
+  };
+  applyRole(room, room.users[socket.id], role, permissions);
+
+  // Students assigned to a running breakout go straight back to their group
+  const group = room.breakouts && findBreakoutFor(room, account.userId);
+  if (group) {
+    room.users[socket.id].breakoutId = group.id;
+  }
+
+  // Join the classroom's socket room
+  socket.data.roomId = room.id;
+  socket.join(room.id);
+  socket.join(channelOf(room, room.users[socket.id]));
+
+  // Send current state to new user
+  socket.emit('join_success', {
+    roomId: room.id,
+    roomTitle: room.title,
+    role,
+    users: room.users,
+    chat: group ? group.chat : room.chat,
+    board: board.snapshot(group ? group.board : room.board),
+    drawingEnabled: room.drawingEnabled,
+    pausedUntil: room.paused ? room.paused.resumeBy : null,
+    breakouts: breakoutSummary(room),
+    breakoutId: group ? group.id : null,
+    settings: room.settings,
+    lobby: isStaff(room.users[socket.id]) ? lobbyList(room) : [],
+    isAdmin: role === 'admin'
+  });
+
+  // Notify all users about new user
+  socket.to(room.id).emit('user_joined', {
+    userId: socket.id,
+    user: room.users[socket.id]
+  });
+
+  store.enrollUser(room.id, account.userId, role).catch(err => console.error(`Failed to enroll ${account.username} in ${room.id}:`, err));
+
+  console.log(`${account.username} joined ${room.id} as ${role}`);
+}
+
+function lobbyList(room) {
+  return Object.entries(room.lobby)
+    .map(([socketId, entry]) => ({ socketId, name: entry.name, requestedAt: entry.requestedAt }))
+    .sort((a, b) => a.requestedAt - b.requestedAt);
+}
+
+// Only staff see the waiting queue
+function notifyLobby(room) {
+  const payload = { lobby: lobbyList(room) };
+  Object.entries(room.users).forEach(([socketId, user]) => {
+    if (isStaff(user)) io.to(socketId).emit('lobby_updated', payload);
+  });
+}
+
+function isFull(room) {
+  if (!room.settings.maxCapacity) return false;
+  const students = Object.values(room.users).filter(user => !isStaff(user)).length;
+  return students >= room.settings.maxCapacity;
+}
+
+function admitFromLobby(room, socketId) {
+  delete room.lobby[socketId];
+  const waitingSocket = io.sockets.sockets.get(socketId);
+  if (!waitingSocket) return;
+  waitingSocket.data.lobbyRoomId = null;
+  admitUser(waitingSocket, room, 'student');
+}
+
+// Admit waiting students in arrival order until the room is full; returns how many are still waiting
+function admitAllFromLobby(room) {
+  lobbyList(room).forEach(({ socketId }) => {
+    if (!isFull(room)) admitFromLobby(room, socketId);
+  });
+  notifyLobby(room);
+  return Object.keys(room.lobby).length;
+}
+
+function removeFromLobby(socket) {
+  const room = socket.data.lobbyRoomId ? rooms[socket.data.lobbyRoomId] : null;
+  socket.data.lobbyRoomId = null;
+  if (!room || !room.lobby[socket.id]) return;
+
+  delete room.lobby[socket.id];
+  notifyLobby(room);
+
+  if (Object.keys(room.users).length === 0 && Object.keys(room.lobby).length === 0 && !room.paused) {
+    closeRoom(room);
+    console.log(`Room ${room.id} closed (empty)`);
+  }
+}
+
+function breakoutSummary(room) {
+  if (!room.breakouts) return null;
+  return {
+    endsAt: room.breakouts.endsAt,
+    groups: Object.values(room.breakouts.groups).map(group => ({ id: group.id, name: group.name }))
+  };
+}
+
+function findBreakoutFor(room, accountId) {
+  return Object.values(room.breakouts.groups).find(group => group.members.has(accountId)) || null;
+}
+
+function videoPeers(room, socketId, user) {
+  return Object.entries(room.users)
+    .filter(([id, u]) => id !== socketId && !!u.peerId && u.peerId !== user.peerId && u.breakoutId === user.breakoutId)
+    .map(([id, u]) => ({ peerId: u.peerId, userName: u.name, userRole: u.role }));
+}
+
+// Move a participant between the main room and a breakout group (null = main room),
+// carrying their video connection over to the new group's mesh
+function moveToBreakout(room, socketId, breakoutId) {
+  const user = room.users[socketId];
+  const memberSocket = io.sockets.sockets.get(socketId);
+  if (!user || !memberSocket || user.breakoutId === breakoutId) return;
+
+  const oldChannel = channelOf(room, user);
+  if (user.peerId) {
+    videoPeers(room, socketId, user).forEach(({ peerId }) => memberSocket.emit('peer_left', { peerId }));
+    memberSocket.to(oldChannel).emit('peer_left', { peerId: user.peerId });
+  }
+  memberSocket.leave(oldChannel);
+
+  user.breakoutId = breakoutId;
+  const group = breakoutId ? room.breakouts.groups[breakoutId] : null;
+  memberSocket.join(channelOf(room, user));
+
+  memberSocket.emit('breakout_moved', {
+    breakoutId,
+    name: group ? group.name : null,
+    chat: group ? group.chat : room.chat,
+    board: board.snapshot(group ? group.board : room.board)
+  });
+  if (user.peerId) {
+    memberSocket.emit('peers_in_room', { peers: videoPeers(room, socketId, user) });
+    memberSocket.to(channelOf(room, user)).emit('peer_joined', { peerId: user.peerId, userName: user.name, userRole: user.role });
+  }
+  io.to(room.id).emit('user_updated', { userId: socketId, user });
+}
+
+// Split students into groups, either from the teacher's assignment ({ socketId: groupIndex })
+// or dealt out at random, and bring everyone back when the timer runs out
+function startBreakouts(room, count, durationMs, assignments) {
+  const groups = {};
+  const groupIds = [];
+  for (let i = 0; i < count; i++) {
+    const id = crypto.randomUUID();
+    groups[id] = { id, name: `Group ${i + 1}`, members: new Set(), chat: [], board: board.createBoard() };
+    groupIds.push(id);
+  }
+
+  const students = Object.keys(room.users).filter(socketId => !isStaff(room.users[socketId]));
+  const placement = {};
+  if (assignments) {
+    students.forEach((socketId) => {
+      const index = parseInt(assignments[socketId], 10);
+      if (index >= 0 && index < count) placement[socketId] = groupIds[index];
+    });
+  } else {
+    const shuffled = [...students];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    shuffled.forEach((socketId, i) => {
+      placement[socketId] = groupIds[i % count];
+    });
+  }
+
+  const endsAt = Date.now() + durationMs;
+  room.breakouts = {
+    groups,
+    endsAt,
+    timer: setTimeout(() => endBreakouts(room, 'Breakout time is up'), durationMs)
+  };
+  Object.entries(placement).forEach(([socketId, groupId]) => {
+    groups[groupId].members.add(room.users[socketId].accountId);
+  });
+
+  io.to(room.id).emit('breakouts_updated', { breakouts: breakoutSummary(room) });
+  Object.entries(placement).forEach(([socketId, groupId]) => moveToBreakout(room, socketId, groupId));
+  console.log(`Room ${room.id} split into ${count} breakout groups until ${new Date(endsAt).toISOString()}`);
+}
+
+function endBreakouts(room, reason) {
+  if (!room.breakouts) return;
+  clearTimeout(room.breakouts.timer);
+  Object.keys(room.users).forEach(socketId => moveToBreakout(room, socketId, null));
+  room.breakouts = null;
+  io.to(room.id).emit('breakouts_updated', { breakouts: null, reason });
+  console.log(`Breakouts in room ${room.id} ended: ${reason}`);
+}
+
+// Every socket must present a valid JWT; identity and role come from its payload
+io.use(verifySocketToken);
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
-  console.log(`User connected: ${socket.id}`);
+  const account = socket.data.user;
+  console.log(`User connected: ${socket.id} (${account.username})`);
 
   // Join room event
-  socket.on('join_room', (data) => {
-    const { name, adminCode } = data;
-    
-    // Check if user wants to be admin
+  socket.on('join_room', async (data) => {
+    const name = account.username;
+    const roomId = normalizeRoomId(data && data.roomId);
+
+    let room;
+    try {
+      room = roomId ? await getOrActivateRoom(roomId) : null;
+    } catch (err) {
+      console.error(`Failed to load room ${roomId}:`, err);
+      socket.emit('join_error', { error: 'Failed to load classroom, please try again' });
+      return;
+    }
+
+    if (!room) {
+      socket.emit('join_error', { error: `Classroom "${roomId}" does not exist` });
+      return;
+    }
+
+    // The socket may have gone away while the classroom was loading
+    if (!socket.connected) return;
+
+    // A socket belongs to one classroom at a time
+    if (socket.data.roomId && socket.data.roomId !== room.id) {
+      leaveRoom(socket);
+    }
+    removeFromLobby(socket);
+
+    // The teacher came back before the server noticed their old connection drop
+    if (room.admin && room.admin !== socket.id && room.adminAccountId === account.userId) {
+      const staleId = room.admin;
+      const staleUser = room.users[staleId];
+      const staleSocket = io.sockets.sockets.get(staleId);
+      room.admin = null;
+      delete room.users[staleId];
+      if (staleUser && staleUser.peerId) {
+        socket.to(channelOf(room, staleUser)).emit('peer_left', { peerId: staleUser.peerId });
+      }
+      socket.to(room.id).emit('user_left', { userId: staleId });
+      if (staleSocket) {
+        staleSocket.data.roomId = null;
+        staleSocket.leave(room.id);
+        staleSocket.leave(channelOf(room, staleUser));
+        staleSocket.disconnect(true);
+      }
+    }
+
+    // Teacher accounts take over the room if it has no admin yet and otherwise
+    // join as co-teachers; staff keep the role they were given earlier in the
+    // session. A paused room is held for the host who dropped out, whatever
+    // their account, since hosting can be handed to anyone in the room.
     let role = 'student';
-    if (adminCode === appState.adminCode && !appState.admin) {
+    const resuming = !!room.paused && room.paused.accountId === account.userId;
+    const previousStaff = room.staff[account.userId];
+    if (!room.admin && (resuming || (account.role === 'admin' && !room.paused))) {
       role = 'admin';
-      appState.admin = socket.id;
+      room.admin = socket.id;
+      room.adminAccountId = account.userId;
+    } else if (previousStaff) {
+      role = previousStaff.role;
+    } else if (account.role === 'admin') {
+      role = 'teacher';
+    }
+    if (resuming) {
+      clearTimeout(room.paused.timer);
+      room.paused = null;
     }
 
-    // Add user to state (everyone can draw by default)
-    appState.users[socket.id] = {
-      name,
-      role,
-      streamActive: false,
-      canDraw: true,
-      inVideoCall: false,
-      peerId: null
-    };
+    // Students new to this session are subject to the lock, capacity and lobby settings
+    if (role === 'student' && !room.admittedAccounts.has(account.userId)) {
+      if (room.settings.locked) {
+        socket.emit('join_error', { error: 'This classroom is locked' });
+        return;
+      }
+      if (isFull(room)) {
+        socket.emit('join_error', { error: 'This classroom is full' });
+        return;
+      }
+      if (room.settings.lobbyEnabled) {
+        room.lobby[socket.id] = { name, accountId: account.userId, requestedAt: Date.now() };
+        socket.data.lobbyRoomId = room.id;
+        socket.emit('lobby_waiting', { roomId: room.id, roomTitle: room.title });
+        notifyLobby(room);
+        console.log(`${name} is waiting in the lobby of ${room.id}`);
+        return;
+      }
+    }
 
-    // Join the classroom room
-    socket.join('classroom');
+    admitUser(socket, room, role, previousStaff && previousStaff.permissions);
 
-    // Send current state to new user
-    socket.emit('join_success', {
-      role,
-      users: appState.users,
-      chat: appState.chat,
-      drawingEnabled: appState.drawingEnabled,
-      isAdmin: role === 'admin'
-    });
+    if (resuming) {
+      socket.to(room.id).emit('session_resumed', { userId: socket.id, user: room.users[socket.id] });
+      console.log(`Room ${room.id} resumed by ${name}`);
+    }
+  });
 
-    // Notify all users about new user
-    socket.to('classroom').emit('user_joined', {
-      userId: socket.id,
-      user: appState.users[socket.id]
-    });
+  // Staff: let a waiting student in
+  socket.on('admit_user', (data) => {
+    const { targetUserId } = data;
+    const { room, user } = getContext(socket);
+
+    if (can(user, 'admit') && room.lobby[targetUserId]) {
+      if (isFull(room)) {
+        socket.emit('lobby_error', { error: 'The classroom is full' });
+        return;
+      }
+      admitFromLobby(room, targetUserId);
+      notifyLobby(room);
+    }
+  });
+
+  // Staff: turn a waiting student away
+  socket.on('deny_user', (data) => {
+    const { targetUserId } = data;
+    const { room, user } = getContext(socket);
 
-    console.log(`${name} joined as ${role}`);
+    if (can(user, 'admit') && room.lobby[targetUserId]) {
+      delete room.lobby[targetUserId];
+      const waitingSocket = io.sockets.sockets.get(targetUserId);
+      if (waitingSocket) {
+        waitingSocket.data.lobbyRoomId = null;
+        waitingSocket.emit('join_error', { error: 'The teacher declined your request to join' });
+      }
+      notifyLobby(room);
+    }
+  });
+
+  socket.on('admit_all', () => {
+    const { room, user } = getContext(socket);
+
+    if (can(user, 'admit') && admitAllFromLobby(room) > 0) {
+      socket.emit('lobby_error', { error: 'The classroom is full, some students are still waiting' });
+    }
+  });
+
+  // Host: lobby mode, room lock and capacity
+  socket.on('update_room_settings', (data) => {
+    const { room, user } = getContext(socket);
+    if (!user || user.role !== 'admin' || !data) return;
+
+    if ('lobbyEnabled' in data) room.settings.lobbyEnabled = !!data.lobbyEnabled;
+    if ('locked' in data) room.settings.locked = !!data.locked;
+    if ('maxCapacity' in data) {
+      const maxCapacity = parseInt(data.maxCapacity, 10);
+      room.settings.maxCapacity = maxCapacity > 0 ? maxCapacity : null;
+    }
+
+    io.to(room.id).emit('room_settings_updated', { settings: room.settings });
+
+    // Turning the lobby off lets everyone who was waiting in
+    if (!room.settings.lobbyEnabled && Object.keys(room.lobby).length > 0) {
+      admitAllFromLobby(room);
+    }
+
+    store.updateClassroom(room.id, {
+      lobbyEnabled: room.settings.lobbyEnabled,
+      maxCapacity: room.settings.maxCapacity
+    }).catch(err => console.error('Failed to save room settings:', err));
   });
 
   // Set admin event (if no admin exists)
-  socket.on('set_admin', (data) => {
-    const { adminCode } = data;
-    
-    if (adminCode === appState.adminCode && !appState.admin) {
-      appState.admin = socket.id;
-      appState.users[socket.id].role = 'admin';
+  socket.on('set_admin', () => {
+    const { room, user } = getContext(socket);
+
+    if (room && user && account.role === 'admin' && !room.admin && !room.paused) {
+      room.admin = socket.id;
+      room.adminAccountId = account.userId;
+      applyRole(room, user, 'admin');
 
       socket.emit('admin_set', { isAdmin: true });
-      socket.to('classroom').emit('new_admin', {
+      socket.to(room.id).emit('new_admin', {
         userId: socket.id,
-        user: appState.users[socket.id]
+        user
       });
     } else {
-      socket.emit('admin_set', { isAdmin: false, error: 'Invalid code or admin already exists' });
+      socket.emit('admin_set', { isAdmin: false, error: 'Only teacher accounts can become admin, and only when no admin exists' });
     }
   });
 
@@ -188,7 +796,7 @@ io.on('connection', (socket) => {
   // New peer announces readiness and receives list of existing peers
   socket.on('peer_ready', (data) => {
     const { peerId } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
     if (user) {
       // Prevent duplicate peer registrations
       if (user.peerId === peerId) {
@@ -203,15 +811,13 @@ io.on('connection', (socket) => {
       user.inVideoCall = true;
       user.peerId = peerId;
 
-      // Send list of current peers to this user only
-      const peers = Object.entries(appState.users)
-        .filter(([id, u]) => id !== socket.id && !!u.peerId && u.peerId !== peerId)
-        .map(([id, u]) => ({ peerId: u.peerId, userName: u.name, userRole: u.role }));
+      // Send list of current peers in this room (or breakout group) to this user only
+      const peers = videoPeers(room, socket.id, user);
 
       socket.emit('peers_in_room', { peers });
 
       // Notify others about this join (only if it's a new peer)
-      socket.to('classroom').emit('peer_joined', {
+      socket.to(channelOf(room, user)).emit('peer_joined', {
         peerId,
         userName: user.name,
         userRole: user.role
@@ -224,11 +830,11 @@ io.on('connection', (socket) => {
   // Clean up duplicate peer IDs from different users
   socket.on('peer_left', (data) => {
     const { peerId } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
     if (user && user.peerId === peerId) {
       user.inVideoCall = false;
       user.peerId = null;
-      socket.to('classroom').emit('peer_left', { peerId });
+      socket.to(channelOf(room, user)).emit('peer_left', { peerId });
       console.log(`Peer left video conference: ${peerId}`);
     }
   });
@@ -236,11 +842,11 @@ io.on('connection', (socket) => {
   // Back-compat: explicit joined event (optional from client)
   socket.on('peer_joined', (data) => {
     const { peerId, userName, userRole } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
     if (user) {
       user.inVideoCall = true;
       user.peerId = peerId;
-      socket.to('classroom').emit('peer_joined', { peerId, userName, userRole });
+      socket.to(channelOf(room, user)).emit('peer_joined', { peerId, userName, userRole });
       console.log(`${userName} joined video conference with peer ID: ${peerId}`);
     }
   });
@@ -250,36 +856,19 @@ io.on('connection', (socket) => {
   // Handle user leaving session manually
   socket.on('leave_session', () => {
     console.log(`User ${socket.id} leaving session manually`);
-    const user = appState.users[socket.id];
-    
-    if (user) {
-      // If admin leaves, end session for everyone
-      if (user.role === 'admin') {
-        io.to('classroom').emit('session_ended', { reason: 'Admin left the session' });
-        
-        // Reset app state
-        appState.admin = null;
-        appState.users = {};
-        appState.chat = [];
-        appState.drawingEnabled = true;
-      } else {
-        // Remove user and notify others
-        delete appState.users[socket.id];
-        socket.to('classroom').emit('user_left', { userId: socket.id });
-      }
-    }
-    
+    removeFromLobby(socket);
+    leaveRoom(socket);
     socket.disconnect();
   });
 
   // Chat system
   socket.on('chat_message', (data) => {
     const { message } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
     
     if (user) {
       const chatMessage = {
-        id: Date.now().toString(),
+        id: crypto.randomUUID(),
         userId: socket.id,
         username: user.name,
         message,
@@ -287,71 +876,216 @@ io.on('connection', (socket) => {
         role: user.role
       };
 
-      appState.chat.push(chatMessage);
-      io.to('classroom').emit('new_message', chatMessage);
+      io.to(channelOf(room, user)).emit('new_message', chatMessage);
+
+      // Breakout chat lives only as long as the group; the main room's chat is kept
+      if (user.breakoutId) {
+        room.breakouts.groups[user.breakoutId].chat.push(chatMessage);
+        return;
+      }
+
+      room.chat.push(chatMessage);
+      store.saveChatMessage({
+        id: chatMessage.id,
+        classroomId: room.id,
+        sessionId: room.sessionId,
+        userId: user.accountId,
+        username: user.name,
+        role: user.role,
+        message,
+        createdAt: chatMessage.timestamp
+      }).catch(err => console.error('Failed to save chat message:', err));
     }
   });
 
   socket.on('delete_message', (data) => {
     const { messageId } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
 
-    // Only admin can delete messages
-    if (user && user.role === 'admin') {
-      appState.chat = appState.chat.filter(msg => msg.id !== messageId);
-      io.to('classroom').emit('message_deleted', { messageId });
+    // Only staff with chat moderation rights can delete messages
+    if (can(user, 'manageChat')) {
+      if (user.breakoutId) {
+        const group = room.breakouts.groups[user.breakoutId];
+        group.chat = group.chat.filter(msg => msg.id !== messageId);
+        io.to(channelOf(room, user)).emit('message_deleted', { messageId });
+        return;
+      }
+      room.chat = room.chat.filter(msg => msg.id !== messageId);
+      io.to(channelOf(room, user)).emit('message_deleted', { messageId });
+      store.deleteChatMessage(messageId).catch(err => console.error('Failed to delete chat message:', err));
     }
   });
 
-  // Whiteboard events
-  socket.on('draw_data', (data) => {
-    const user = appState.users[socket.id];
-    
-    // Allow admin always; others only if global drawing is enabled and user is allowed
-    if (user && (user.role === 'admin' || (appState.drawingEnabled && user.canDraw))) {
-      socket.to('classroom').emit('draw_data', {
-        ...data,
-        userId: socket.id
-      });
+  // Whiteboard events: add, extend, change and delete objects
+  // Every change is acknowledged, applied or not, so the sender knows it can stop holding on to it
+  socket.on('board_op', (data, ack) => {
+    const { room, user } = getContext(socket);
+    if (!room) return;
+
+    const op = canDrawOnBoard(room, user) ? board.applyOp(boardOf(room, user), data, user, editableBy(user)) : null;
+    if (op) {
+      if (!user.breakoutId) scheduleBoardSave(room);
+      recordBoard(room, user, { type: 'op', op });
+      socket.to(channelOf(room, user)).emit('board_op', op);
+    }
+    if (typeof ack === 'function') ack(op !== null);
+    if ((op === null && user && data && data.op !== 'append') || (op && board.wasRestamped(data, op))) {
+      scheduleBoardSync(socket);
     }
   });
 
-  socket.on('clear_canvas', () => {
-    const user = appState.users[socket.id];
-    
-    // Only admin can clear canvas
-    if (user && user.role === 'admin') {
-      io.to('classroom').emit('clear_canvas');
+  // Points added to strokes being drawn, batched by clients once per animation frame in the
+  // binary encoding of wire.js. A batch goes on to everyone else exactly as it came, unless part
+  // of it was turned down.
+  socket.on('board_points', (data, ack) => {
+    const { room, user } = getContext(socket);
+    if (!room) return;
+
+    const appends = Buffer.isBuffer(data) && canDrawOnBoard(room, user) ? wire.decodePoints(data) : null;
+    const ops = (appends || []).map(append => board.applyOp(boardOf(room, user), { op: 'append', ...append }, user, editableBy(user)));
+    const applied = ops.filter(Boolean);
+    if (applied.length > 0) {
+      if (!user.breakoutId) scheduleBoardSave(room);
+      applied.forEach(op => recordBoard(room, user, { type: 'op', op }));
+      socket.to(channelOf(room, user)).emit('board_points', ops.includes(null) ? wire.encodePoints(applied) : data);
+    }
+    if (typeof ack === 'function') ack(!!appends && !ops.includes(null));
+  });
+
+  socket.on('clear_canvas', (data) => {
+    const { room, user } = getContext(socket);
+    const pageId = data && data.pageId;
+
+    // Only staff allowed to clear the canvas
+    const stamp = can(user, 'clearCanvas') && board.clearPage(boardOf(room, user), pageId);
+    if (stamp) {
+      if (!user.breakoutId) scheduleBoardSave(room);
+      recordBoard(room, user, { type: 'clear', pageId, stamp });
+      io.to(channelOf(room, user)).emit('clear_canvas', { pageId, stamp });
+    }
+  });
+
+  // Staff: hide, show again or erase everything one person has drawn, e.g. after vandalism
+  socket.on('board_moderate', (data) => {
+    const { room, user } = getContext(socket);
+    if (!can(user, 'clearCanvas') || !data || typeof data.authorId !== 'string') return;
+
+    const currentBoard = boardOf(room, user);
+    let changed;
+    let stamp;
+    if (data.action === 'hide' || data.action === 'show') {
+      changed = board.setAuthorHidden(currentBoard, data.authorId, data.action === 'hide');
+    } else if (data.action === 'erase') {
+      stamp = board.eraseAuthor(currentBoard, data.authorId);
+      changed = !!stamp;
+      if (changed && !user.breakoutId) scheduleBoardSave(room);
+    }
+    if (changed) {
+      const moderation = { action: data.action, authorId: data.authorId, hiddenAuthors: currentBoard.hiddenAuthors, ...(stamp ? { stamp } : {}) };
+      recordBoard(room, user, { type: 'moderate', ...moderation });
+      io.to(channelOf(room, user)).emit('board_moderate', moderation);
     }
   });
 
+  // Staff: add, delete and reorder whiteboard pages
+  socket.on('board_page', (data) => {
+    const { room, user } = getContext(socket);
+    if (!isStaff(user)) return;
+
+    const change = board.applyPageOp(boardOf(room, user), data);
+    if (change) {
+      if (!user.breakoutId) scheduleBoardSave(room);
+      recordBoard(room, user, { type: 'page', change });
+      io.to(channelOf(room, user)).emit('board_page', change);
+    }
+  });
+
+  // Staff: make students follow the page being presented, or let them browse freely
+  socket.on('board_follow', (data) => {
+    const { room, user } = getContext(socket);
+    if (!isStaff(user) || !data) return;
+
+    const currentBoard = boardOf(room, user);
+    currentBoard.follow = !!data.enabled;
+    if (board.findPage(currentBoard, data.pageId)) currentBoard.presenterPageId = data.pageId;
+    io.to(channelOf(room, user)).emit('board_view', { follow: currentBoard.follow, presenterPageId: currentBoard.presenterPageId });
+  });
+
+  socket.on('board_navigate', (data) => {
+    const { room, user } = getContext(socket);
+    const currentBoard = room && boardOf(room, user);
+    if (!isStaff(user) || !data || !board.findPage(currentBoard, data.pageId)) return;
+
+    currentBoard.presenterPageId = data.pageId;
+    recordBoard(room, user, { type: 'navigate', pageId: data.pageId });
+    if (currentBoard.follow) {
+      socket.to(channelOf(room, user)).emit('board_view', { follow: true, presenterPageId: data.pageId });
+    }
+  });
+
+  // Staff can bring everyone to the page and part of it they are looking at
+  socket.on('board_viewport', (data) => {
+    const { room, user } = getContext(socket);
+    const currentBoard = room && boardOf(room, user);
+    const viewport = data && board.sanitizeViewport(data.viewport);
+    if (!isStaff(user) || !viewport || !board.findPage(currentBoard, data.pageId)) return;
+
+    currentBoard.presenterPageId = data.pageId;
+    recordBoard(room, user, { type: 'navigate', pageId: data.pageId });
+    socket.to(channelOf(room, user)).emit('board_viewport', { pageId: data.pageId, viewport });
+  });
+
+  // Live cursors and the staff laser pointer. They are never stored and dropped rather than
+  // queued when a connection falls behind; a hidden cursor always goes through.
+  socket.on('board_cursor', (data) => {
+    const { room, user } = getContext(socket);
+    const currentBoard = room && boardOf(room, user);
+    if (!user || !data || !board.findPage(currentBoard, data.pageId)) return;
+
+    const point = board.sanitizeCursor(data.point);
+    const now = Date.now();
+    if (point && now - (socket.data.cursorSentAt || 0) < CURSOR_INTERVAL_MS) return;
+    socket.data.cursorSentAt = now;
+    (point ? socket.volatile : socket).to(channelOf(room, user)).emit('board_cursor', {
+      userId: socket.id,
+      pageId: data.pageId,
+      point,
+      laser: isStaff(user) && data.laser === true
+    });
+  });
+
   socket.on('toggle_draw', (data) => {
     const { enabled } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
 
-    // Only admin can toggle global drawing
-    if (user && user.role === 'admin') {
-      appState.drawingEnabled = enabled;
-      io.to('classroom').emit('drawing_toggled', { enabled });
+    // Only staff allowed to toggle drawing for the room
+    if (can(user, 'toggleDrawing')) {
+      room.drawingEnabled = enabled;
+      io.to(room.id).emit('drawing_toggled', { enabled });
+      store.updateClassroom(room.id, { drawingEnabled: !!enabled }).catch(err => console.error('Failed to save drawing toggle:', err));
     }
   });
 
   // Admin: set individual user's draw permission
   socket.on('set_user_draw', (data) => {
     const { targetUserId, canDraw } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
 
-    if (user && user.role === 'admin' && appState.users[targetUserId]) {
-      appState.users[targetUserId].canDraw = !!canDraw;
-      io.to('classroom').emit('user_updated', { userId: targetUserId, user: appState.users[targetUserId] });
+    if (can(user, 'toggleDrawing') && room.users[targetUserId]) {
+      room.users[targetUserId].canDraw = !!canDraw;
+      io.to(room.id).emit('user_updated', { userId: targetUserId, user: room.users[targetUserId] });
     }
   });
 
   // Admin: kick a user
   socket.on('kick_user', (data) => {
     const { targetUserId } = data;
-    const user = appState.users[socket.id];
-    if (user && user.role === 'admin') {
+    const { room, user } = getContext(socket);
+    // Staff can only kick users from their own room, and only the host can kick other staff
+    const target = room && room.users[targetUserId];
+    if (can(user, 'kick') && target && target.role !== 'admin' && (user.role === 'admin' || !isStaff(target))) {
+      // Kicked students have to go through the lobby again
+      room.admittedAccounts.delete(target.accountId);
       const targetSocket = io.sockets.sockets.get(targetUserId);
       if (targetSocket) {
         try {
@@ -365,22 +1099,121 @@ io.on('connection', (socket) => {
         }, 100);
       } else {
         // If socket not found, ensure state is cleaned
-        if (appState.users[targetUserId]) {
-          delete appState.users[targetUserId];
-          io.to('classroom').emit('user_left', { userId: targetUserId });
-        }
+        delete room.users[targetUserId];
+        io.to(room.id).emit('user_left', { userId: targetUserId });
       }
     }
   });
 
+  // Host: make a participant a co-teacher, TA or plain student again
+  socket.on('set_user_role', (data) => {
+    const { targetUserId, role } = data;
+    const { room, user } = getContext(socket);
+    const target = room && room.users[targetUserId];
+
+    if (user && user.role === 'admin' && target && target.role !== 'admin' && (STAFF_ROLES.includes(role) || role === 'student')) {
+      applyRole(room, target, role);
+      io.to(room.id).emit('user_updated', { userId: targetUserId, user: target });
+      // Newly promoted staff need the current waiting queue
+      notifyLobby(room);
+    }
+  });
+
+  // Host: grant or revoke individual powers of a co-teacher or TA
+  socket.on('set_user_permissions', (data) => {
+    const { targetUserId, permissions } = data;
+    const { room, user } = getContext(socket);
+    const target = room && room.users[targetUserId];
+
+    if (user && user.role === 'admin' && target && STAFF_ROLES.includes(target.role) && permissions) {
+      const changes = {};
+      PERMISSIONS.forEach((permission) => {
+        if (permission in permissions) changes[permission] = !!permissions[permission];
+      });
+      applyRole(room, target, target.role, { ...target.permissions, ...changes });
+      io.to(room.id).emit('user_updated', { userId: targetUserId, user: target });
+    }
+  });
+
+  // Host: hand the session over to another participant; the old host stays on as co-teacher
+  socket.on('transfer_host', (data) => {
+    const { targetUserId } = data;
+    const { room, user } = getContext(socket);
+    const target = room && room.users[targetUserId];
+
+    if (user && user.role === 'admin' && target && targetUserId !== socket.id) {
+      applyRole(room, target, 'admin');
+      applyRole(room, user, 'teacher');
+      room.admin = targetUserId;
+      room.adminAccountId = target.accountId;
+
+      io.to(room.id).emit('user_updated', { userId: targetUserId, user: target });
+      io.to(room.id).emit('user_updated', { userId: socket.id, user });
+      io.to(room.id).emit('host_transferred', { fromUserId: socket.id, toUserId: targetUserId });
+      console.log(`Host of ${room.id} transferred from ${user.name} to ${target.name}`);
+    }
+  });
+
+  // Staff: split the class into breakout groups for a fixed time
+  socket.on('start_breakouts', (data) => {
+    const { room, user } = getContext(socket);
+    if (!can(user, 'breakouts') || room.breakouts || !data) return;
+
+    const count = parseInt(data.count, 10);
+    const minutes = parseFloat(data.durationMinutes);
+    if (!(count >= 1 && count <= MAX_BREAKOUT_GROUPS) || !(minutes > 0 && minutes <= MAX_BREAKOUT_MINUTES)) {
+      socket.emit('breakout_error', { error: `Choose 1-${MAX_BREAKOUT_GROUPS} groups and up to ${MAX_BREAKOUT_MINUTES} minutes` });
+      return;
+    }
+    startBreakouts(room, count, minutes * 60 * 1000, data.assignments || null);
+  });
+
+  socket.on('end_breakouts', () => {
+    const { room, user } = getContext(socket);
+    if (can(user, 'breakouts') && room.breakouts) {
+      endBreakouts(room, `${user.name} closed the breakout rooms`);
+    }
+  });
+
+  // Staff: move a student into a group (or back to the main room) while breakouts run
+  socket.on('assign_breakout', (data) => {
+    const { targetUserId, breakoutId } = data;
+    const { room, user } = getContext(socket);
+    const target = room && room.users[targetUserId];
+    if (!can(user, 'breakouts') || !room.breakouts || !target || isStaff(target)) return;
+    if (breakoutId && !room.breakouts.groups[breakoutId]) return;
+
+    Object.values(room.breakouts.groups).forEach(group => group.members.delete(target.accountId));
+    if (breakoutId) room.breakouts.groups[breakoutId].members.add(target.accountId);
+    moveToBreakout(room, targetUserId, breakoutId || null);
+  });
+
+  // Staff: drop in on a group or return to the main room
+  socket.on('visit_breakout', (data) => {
+    const { breakoutId } = data;
+    const { room, user } = getContext(socket);
+    if (!isStaff(user) || !room.breakouts) return;
+    if (breakoutId && !room.breakouts.groups[breakoutId]) return;
+    moveToBreakout(room, socket.id, breakoutId || null);
+  });
+
+  // Staff: announce something to every group at once
+  socket.on('breakout_broadcast', (data) => {
+    const { message } = data;
+    const { room, user } = getContext(socket);
+    if (can(user, 'breakouts') && room.breakouts && typeof message === 'string' && message.trim()) {
+      io.to(room.id).emit('breakout_broadcast', { message: message.trim(), from: user.name });
+    }
+  });
+
   // User stream status
   socket.on('stream_status', (data) => {
     const { streamActive } = data;
-    const user = appState.users[socket.id];
+    const { room, user } = getContext(socket);
 
     if (user) {
       user.streamActive = streamActive;
-      socket.to('classroom').emit('user_stream_status', {
+      socket.to(room.id).emit('user_stream_status', {
         userId: socket.id,
         streamActive
       });
@@ -390,29 +1223,8 @@ io.on('connection', (socket) => {
   // Handle disconnection
   socket.on('disconnect', () => {
     console.log(`User disconnected: ${socket.id}`);
-    
-    const user = appState.users[socket.id];
-    if (user) {
-      // If user was in video call, notify peers of peer_left
-      if (user.peerId) {
-        socket.to('classroom').emit('peer_left', { peerId: user.peerId });
-      }
-
-      // If admin disconnects, end session for everyone
-      if (user.role === 'admin') {
-        io.to('classroom').emit('session_ended', { reason: 'Admin left the session' });
-        
-        // Reset app state
-        appState.admin = null;
-        appState.users = {};
-        appState.chat = [];
-        appState.drawingEnabled = true;
-      } else {
-        // Remove user and notify others
-        delete appState.users[socket.id];
-        socket.to('classroom').emit('user_left', { userId: socket.id });
-      }
-    }
+    removeFromLobby(socket);
+    leaveRoom(socket, { unexpected: true });
   });
 });
 
@@ -421,22 +1233,204 @@ app.post('/api/auth/register', register);
 app.post('/api/auth/login', login);
 app.get('/api/auth/profile', verifyToken, getProfile);
 
+// Classroom routes
+app.get('/api/rooms', (req, res) => {
+  res.json({ rooms: Object.values(rooms).map(summarizeRoom) });
+});
+
+app.post('/api/rooms', verifyToken, async (req, res) => {
+  try {
+    const classroom = await createClassroom(req.body && req.body.title, req.user.userId);
+    await store.enrollUser(classroom.id, req.user.userId, 'admin');
+    console.log(`Room ${classroom.id} created: ${classroom.title}`);
+    res.status(201).json({
+      room: { id: classroom.id, title: classroom.title, userCount: 0, hasAdmin: false, createdAt: classroom.createdAt }
+    });
+  } catch (error) {
+    console.error('Create classroom error:', error);
+    res.status(500).json({ error: 'Failed to create classroom' });
+  }
+});
+
+// Classrooms the logged-in user owns or has attended before
+app.get('/api/rooms/mine', verifyToken, async (req, res) => {
+  try {
+    const classrooms = await store.listClassroomsForUser(req.user.userId);
+    res.json({
+      rooms: classrooms.map(classroom => ({
+        id: classroom.id,
+        title: classroom.title,
+        isOwner: classroom.ownerId === req.user.userId,
+        isLive: !!rooms[classroom.id],
+        lastSessionAt: classroom.lastSessionAt
+      }))
+    });
+  } catch (error) {
+    console.error('List classrooms error:', error);
+    res.status(500).json({ error: 'Failed to list classrooms' });
+  }
+});
+
+app.get('/api/rooms/:roomId', async (req, res) => {
+  const roomId = normalizeRoomId(req.params.roomId);
+  if (rooms[roomId]) {
+    return res.json({ room: summarizeRoom(rooms[roomId]) });
+  }
+  try {
+    const classroom = await store.findClassroom(roomId);
+    if (!classroom) {
+      return res.status(404).json({ error: 'Classroom not found' });
+    }
+    res.json({
+      room: { id: classroom.id, title: classroom.title, userCount: 0, hasAdmin: false, createdAt: classroom.createdAt }
+    });
+  } catch (error) {
+    console.error('Get classroom error:', error);
+    res.status(500).json({ error: 'Failed to fetch classroom' });
+  }
+});
+
+// Owners and enrolled users may download what happened in a classroom
+async function isClassroomMember(classroom, userId) {
+  return classroom.ownerId === userId || !!(await store.findEnrollment(classroom.id, userId));
+}
+
+// Download a classroom's main whiteboard: ?format=pdf (every page, the default) or
+// ?format=svg&page=N. Live rooms export what is on the board now, others what was saved.
+app.get('/api/rooms/:roomId/board/export', verifyToken, async (req, res) => {
+  const roomId = normalizeRoomId(req.params.roomId);
+  try {
+    const classroom = await store.findClassroom(roomId);
+    if (!classroom) {
+      return res.status(404).json({ error: 'Classroom not found' });
+    }
+    if (!(await isClassroomMember(classroom, req.user.userId))) {
+      return res.status(403).json({ error: 'Only members of this classroom can download its board' });
+    }
+
+    const pages = rooms[roomId] ? board.visiblePages(rooms[roomId].board) : board.createBoard(await store.loadBoard(classroom.id)).pages;
+    const images = new Map();
+    for (const page of pages) {
+      const upload = page.background && page.background.upload;
+      if (upload && !images.has(upload)) {
+        const data = await uploads.readUpload(classroom.id, upload);
+        if (data) images.set(upload, data);
+      }
+    }
+
+    const format = req.query.format || 'pdf';
+    if (format === 'pdf') {
+      res.attachment(`${classroom.id}-board.pdf`);
+      return res.type('application/pdf').send(boardExport.pagesToPdf(pages, images));
+    }
+    if (format === 'svg') {
+      const pageNumber = parseInt(req.query.page || '1', 10);
+      const page = pages[pageNumber - 1];
+      if (!page) {
+        return res.status(404).json({ error: 'Page not found' });
+      }
+      res.attachment(`${classroom.id}-page-${pageNumber}.svg`);
+      return res.type('image/svg+xml').send(boardExport.pageToSvg(page, images));
+    }
+    res.status(400).json({ error: 'Format must be pdf or svg' });
+  } catch (error) {
+    console.error('Export board error:', error);
+    res.status(500).json({ error: 'Failed to export board' });
+  }
+});
+
+// Sessions of a classroom whose main whiteboard was recorded, newest first
+app.get('/api/rooms/:roomId/recordings', verifyToken, async (req, res) => {
+  try {
+    const classroom = await store.findClassroom(normalizeRoomId(req.params.roomId));
+    if (!classroom) {
+      return res.status(404).json({ error: 'Classroom not found' });
+    }
+    if (!(await isClassroomMember(classroom, req.user.userId))) {
+      return res.status(403).json({ error: 'Only members of this classroom can watch its recordings' });
+    }
+    res.json({ recordings: await recordings.listRecordings(classroom.id, await store.listSessions(classroom.id)) });
+  } catch (error) {
+    console.error('List recordings error:', error);
+    res.status(500).json({ error: 'Failed to list recordings' });
+  }
+});
+
+// One session's whiteboard timeline as a JSON Lines file, to replay or keep
+app.get('/api/rooms/:roomId/recordings/:sessionId', verifyToken, async (req, res) => {
+  try {
+    const classroom = await store.findClassroom(normalizeRoomId(req.params.roomId));
+    if (!classroom) {
+      return res.status(404).json({ error: 'Classroom not found' });
+    }
+    if (!(await isClassroomMember(classroom, req.user.userId))) {
+      return res.status(403).json({ error: 'Only members of this classroom can watch its recordings' });
+    }
+    const data = await recordings.readRecording(classroom.id, req.params.sessionId);
+    if (!data) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+    res.attachment(`${classroom.id}-${req.params.sessionId}.jsonl`);
+    res.type('application/x-ndjson').send(data);
+  } catch (error) {
+    console.error('Read recording error:', error);
+    res.status(500).json({ error: 'Failed to read recording' });
+  }
+});
+
+// Staff upload page backgrounds (JPEG data in the request body) while the class is live
+app.post('/api/rooms/:roomId/uploads', verifyToken, express.raw({ type: 'image/jpeg', limit: uploads.MAX_UPLOAD_BYTES }), async (req, res) => {
+  const room = rooms[normalizeRoomId(req.params.roomId)];
+  const uploader = room && Object.values(room.users).find(user => user.accountId === req.user.userId && isStaff(user));
+  if (!uploader) {
+    return res.status(403).json({ error: 'Only staff in a live classroom can upload backgrounds' });
+  }
+  try {
+    const upload = Buffer.isBuffer(req.body) ? await uploads.saveUpload(room.id, req.body) : null;
+    if (!upload) {
+      return res.status(400).json({ error: 'Upload must be a JPEG image' });
+    }
+    res.status(201).json({ upload });
+  } catch (error) {
+    console.error('Upload error:', error);
+    res.status(500).json({ error: 'Failed to store upload' });
+  }
+});
+
+// Upload ids are random, so backgrounds can be loaded as plain images without a token
+app.get('/api/rooms/:roomId/uploads/:uploadId', async (req, res) => {
+  try {
+    const data = await uploads.readUpload(normalizeRoomId(req.params.roomId), req.params.uploadId);
+    if (!data) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+    res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    res.type('image/jpeg').send(data);
+  } catch (error) {
+    console.error('Read upload error:', error);
+    res.status(500).json({ error: 'Failed to read upload' });
+  }
+});
+
 // Health check endpoint
 app.get('/health', (req, res) => {
+  const roomList = Object.values(rooms);
   res.json({ 
     status: 'OK', 
-    users: Object.keys(appState.users).length,
-    admin: appState.admin ? 'present' : 'none'
+    rooms: roomList.length,
+    users: roomList.reduce((total, room) => total + Object.keys(room.users).length, 0)
   });
 });
 
 // Get current state endpoint
 app.get('/state', (req, res) => {
   res.json({
-    userCount: Object.keys(appState.users).length,
-    hasAdmin: !!appState.admin,
-    chatMessages: appState.chat.length,
-    drawingEnabled: appState.drawingEnabled
+    roomCount: Object.keys(rooms).length,
+    rooms: Object.values(rooms).map(room => ({
+      ...summarizeRoom(room),
+      chatMessages: room.chat.length,
+      drawingEnabled: room.drawingEnabled
+    }))
   });
 });
 
@@ -461,20 +1455,22 @@ const shutdown = (signal) => {
 process.on('SIGTERM', () => shutdown('SIGTERM'));
 process.on('SIGINT', () => shutdown('SIGINT'));
 
-server.listen(PORT, '0.0.0.0', () => {
-  const protocol = useHttps ? 'https' : 'http';
-  const host = process.env.RENDER_EXTERNAL_URL || `${protocol}://localhost:${PORT}`;
-  
-  console.log(` EduCanvas Live server running on port ${PORT}`);
-  console.log(`PeerJS signaling available at ${host}/peerjs`);
-  console.log(`Health check: ${host}/health`);
-  console.log(`Admin code: ${appState.adminCode}`);
-  
-  if (useHttps) {
-    console.log(`  Note: Accept self-signed certificate in browser`);
-  }
-  
-  if (process.env.NODE_ENV === 'production') {
-    console.log(` External URL: ${process.env.RENDER_EXTERNAL_URL}`);
-  }
+// Storage is settled (the database, or files if it cannot be reached) before anyone connects
+db.ready.then(() => {
+  server.listen(PORT, '0.0.0.0', () => {
+    const protocol = useHttps ? 'https' : 'http';
+    const host = process.env.RENDER_EXTERNAL_URL || `${protocol}://localhost:${PORT}`;
+    
+    console.log(` EduCanvas Live server running on port ${PORT}`);
+    console.log(`PeerJS signaling available at ${host}/peerjs`);
+    console.log(`Health check: ${host}/health`);
+    
+    if (useHttps) {
+      console.log(`  Note: Accept self-signed certificate in browser`);
+    }
+    
+    if (process.env.NODE_ENV === 'production') {
+      console.log(` External URL: ${process.env.RENDER_EXTERNAL_URL}`);
+    }
+  });
 });
@@ -0,0 +1,292 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const db = require('./db');
+require('dotenv').config();
+
+const DATA_DIR = path.join(__dirname, 'data');
+const CLASSROOMS_FILE = path.join(DATA_DIR, 'classrooms.json');
+// Boards grow large, so the file fallback keeps one file per classroom
+const BOARDS_DIR = path.join(DATA_DIR, 'boards');
+const CHAT_HISTORY_LIMIT = 200;
+
+function emptyData() {
+	return { classrooms: [], sessions: [], enrollments: [], messages: [] };
+}
+
+function readDataFile() {
+	try {
+		if (!fs.existsSync(CLASSROOMS_FILE)) return emptyData();
+		const raw = fs.readFileSync(CLASSROOMS_FILE, 'utf8');
+		if (!raw.trim()) return emptyData();
+		return { ...emptyData(), ...JSON.parse(raw) };
+	} catch (err) {
+		console.error('Failed to read classrooms file, resetting file:', err);
+		return emptyData();
+	}
+}
+
+function writeDataFile(data) {
+	try {
+		if (!fs.existsSync(DATA_DIR)) {
+			fs.mkdirSync(DATA_DIR, { recursive: true });
+		}
+		fs.writeFileSync(CLASSROOMS_FILE, JSON.stringify(data, null, 2), 'utf8');
+	} catch (err) {
+		console.error('Failed to write classrooms file:', err);
+		throw err;
+	}
+}
+
+/**
+ * Find a classroom by its room code
+ */
+async function findClassroom(id) {
+	if (db.prisma) {
+		return await db.prisma.classroom.findUnique({ where: { id } });
+	} else {
+		const data = readDataFile();
+		return data.classrooms.find(c => c.id === id) || null;
+	}
+}
+
+/**
+ * Create a classroom, optionally owned by a teacher account
+ */
+async function createClassroom({ id, title, ownerId = null }) {
+	if (db.prisma) {
+		return await db.prisma.classroom.create({
+			data: { id, title, ownerId }
+		});
+	} else {
+		const data = readDataFile();
+		const now = new Date().toISOString();
+		const classroom = { id, title, ownerId, drawingEnabled: true, lobbyEnabled: false, maxCapacity: null, createdAt: now, updatedAt: now };
+		data.classrooms.push(classroom);
+		writeDataFile(data);
+		return classroom;
+	}
+}
+
+async function updateClassroom(id, changes) {
+	if (db.prisma) {
+		return await db.prisma.classroom.update({ where: { id }, data: changes });
+	} else {
+		const data = readDataFile();
+		const classroom = data.classrooms.find(c => c.id === id);
+		if (!classroom) return null;
+		Object.assign(classroom, changes, { updatedAt: new Date().toISOString() });
+		writeDataFile(data);
+		return classroom;
+	}
+}
+
+/**
+ * Record that a user attends a classroom, refreshing lastSeenAt on repeat visits
+ */
+async function enrollUser(classroomId, userId, role) {
+	if (db.prisma) {
+		return await db.prisma.enrollment.upsert({
+			where: { classroomId_userId: { classroomId, userId } },
+			create: { classroomId, userId, role },
+			update: { role, lastSeenAt: new Date() }
+		});
+	} else {
+		const data = readDataFile();
+		const now = new Date().toISOString();
+		let enrollment = data.enrollments.find(e => e.classroomId === classroomId && e.userId === userId);
+		if (enrollment) {
+			enrollment.role = role;
+			enrollment.lastSeenAt = now;
+		} else {
+			enrollment = { id: crypto.randomUUID(), classroomId, userId, role, joinedAt: now, lastSeenAt: now };
+			data.enrollments.push(enrollment);
+		}
+		writeDataFile(data);
+		return enrollment;
+	}
+}
+
+/**
+ * Find a user's enrollment in a classroom, or null if they have never joined it
+ */
+async function findEnrollment(classroomId, userId) {
+	if (db.prisma) {
+		return await db.prisma.enrollment.findUnique({ where: { classroomId_userId: { classroomId, userId } } });
+	} else {
+		const data = readDataFile();
+		return data.enrollments.find(e => e.classroomId === classroomId && e.userId === userId) || null;
+	}
+}
+
+/**
+ * List the classrooms a user owns or is enrolled in, most recently used first
+ */
+async function listClassroomsForUser(userId) {
+	if (db.prisma) {
+		const classrooms = await db.prisma.classroom.findMany({
+			where: {
+				OR: [{ ownerId: userId }, { enrollments: { some: { userId } } }]
+			},
+			include: {
+				sessions: { orderBy: { startedAt: 'desc' }, take: 1 }
+			},
+			orderBy: { updatedAt: 'desc' }
+		});
+		return classrooms.map(({ sessions, ...classroom }) => ({
+			...classroom,
+			lastSessionAt: sessions[0] ? sessions[0].startedAt : null
+		}));
+	} else {
+		const data = readDataFile();
+		const enrolledIds = new Set(data.enrollments.filter(e => e.userId === userId).map(e => e.classroomId));
+		return data.classrooms
+			.filter(c => c.ownerId === userId || enrolledIds.has(c.id))
+			.map(classroom => {
+				const lastSession = data.sessions
+					.filter(s => s.classroomId === classroom.id)
+					.sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+				return { ...classroom, lastSessionAt: lastSession ? lastSession.startedAt : null };
+			})
+			.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+	}
+}
+
+async function startSession(classroomId) {
+	if (db.prisma) {
+		return await db.prisma.session.create({ data: { classroomId } });
+	} else {
+		const data = readDataFile();
+		const session = { id: crypto.randomUUID(), classroomId, startedAt: new Date().toISOString(), endedAt: null };
+		data.sessions.push(session);
+		writeDataFile(data);
+		return session;
+	}
+}
+
+async function endSession(sessionId) {
+	if (db.prisma) {
+		return await db.prisma.session.update({ where: { id: sessionId }, data: { endedAt: new Date() } });
+	} else {
+		const data = readDataFile();
+		const session = data.sessions.find(s => s.id === sessionId);
+		if (!session) return null;
+		session.endedAt = new Date().toISOString();
+		writeDataFile(data);
+		return session;
+	}
+}
+
+/**
+ * Sessions of a classroom, newest first
+ */
+async function listSessions(classroomId) {
+	if (db.prisma) {
+		return await db.prisma.session.findMany({ where: { classroomId }, orderBy: { startedAt: 'desc' } });
+	} else {
+		const data = readDataFile();
+		return data.sessions
+			.filter(s => s.classroomId === classroomId)
+			.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+	}
+}
+
+/**
+ * Load the most recent chat messages of a classroom across all its sessions, oldest first
+ */
+async function loadChatHistory(classroomId, limit = CHAT_HISTORY_LIMIT) {
+	if (db.prisma) {
+		const messages = await db.prisma.chatMessage.findMany({
+			where: { classroomId },
+			orderBy: { createdAt: 'desc' },
+			take: limit
+		});
+		return messages.reverse();
+	} else {
+		const data = readDataFile();
+		return data.messages
+			.filter(m => m.classroomId === classroomId)
+			.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+			.slice(-limit);
+	}
+}
+
+async function saveChatMessage({ id, classroomId, sessionId, userId, username, role, message, createdAt }) {
+	if (db.prisma) {
+		return await db.prisma.chatMessage.create({
+			data: { id, classroomId, sessionId, userId, username, role, message, createdAt: new Date(createdAt) }
+		});
+	} else {
+		const data = readDataFile();
+		const chatMessage = { id, classroomId, sessionId, userId, username, role, message, createdAt };
+		data.messages.push(chatMessage);
+		writeDataFile(data);
+		return chatMessage;
+	}
+}
+
+async function deleteChatMessage(id) {
+	if (db.prisma) {
+		await db.prisma.chatMessage.deleteMany({ where: { id } });
+	} else {
+		const data = readDataFile();
+		data.messages = data.messages.filter(m => m.id !== id);
+		writeDataFile(data);
+	}
+}
+
+/**
+ * Load the stored whiteboard of a classroom: its pages, tombstones, horizon and clock (see
+ * board.storedState), or just its pages if it was saved before they were kept
+ */
+async function loadBoard(classroomId) {
+	if (db.prisma) {
+		const board = await db.prisma.board.findUnique({ where: { classroomId } });
+		if (!board) return [];
+		// Rows saved before tombstones were kept have no horizon
+		if (board.horizon === null) return board.pages;
+		return { pages: board.pages, deleted: board.deleted, horizon: board.horizon, clock: Number(board.clock) };
+	} else {
+		const file = path.join(BOARDS_DIR, `${classroomId}.json`);
+		try {
+			if (!fs.existsSync(file)) return [];
+			return JSON.parse(fs.readFileSync(file, 'utf8'));
+		} catch (err) {
+			console.error(`Failed to read board of ${classroomId}, starting blank:`, err);
+			return [];
+		}
+	}
+}
+
+async function saveBoard(classroomId, stored) {
+	if (db.prisma) {
+		const { pages, deleted, horizon, clock } = stored;
+		return await db.prisma.board.upsert({
+			where: { classroomId },
+			create: { classroomId, pages, deleted, horizon, clock },
+			update: { pages, deleted, horizon, clock }
+		});
+	} else {
+		if (!fs.existsSync(BOARDS_DIR)) {
+			fs.mkdirSync(BOARDS_DIR, { recursive: true });
+		}
+		fs.writeFileSync(path.join(BOARDS_DIR, `${classroomId}.json`), JSON.stringify(stored), 'utf8');
+	}
+}
+
+module.exports = {
+	findClassroom,
+	createClassroom,
+	updateClassroom,
+	enrollUser,
+	findEnrollment,
+	listClassroomsForUser,
+	startSession,
+	endSession,
+	listSessions,
+	loadChatHistory,
+	saveChatMessage,
+	deleteChatMessage,
+	loadBoard,
+	saveBoard,
+};
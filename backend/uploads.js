@@ -0,0 +1,74 @@
+// Files teachers upload as whiteboard backgrounds. Clients turn PDF pages and images into
+// JPEGs before uploading, so every upload is a JPEG. Uploads always live on disk, whichever
+// database holds the rest of the data.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const UPLOADS_DIR = path.join(__dirname, 'data', 'uploads');
+const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+const MAX_DIMENSION = 4096;
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function isUploadId(id) {
+	return typeof id === 'string' && UPLOAD_ID_PATTERN.test(id);
+}
+
+/**
+ * Width and height of a JPEG from its frame header, or null if the data is not a JPEG
+ */
+function jpegSize(buffer) {
+	if (!Buffer.isBuffer(buffer) || buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+	let offset = 2;
+	while (offset + 9 < buffer.length) {
+		if (buffer[offset] !== 0xff) return null;
+		const marker = buffer[offset + 1];
+		// SOF0-SOF15 carry the frame size; C4, C8 and CC are other tables with the same prefix
+		if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+			return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+		}
+		offset += 2 + buffer.readUInt16BE(offset + 2);
+	}
+	return null;
+}
+
+function uploadPath(classroomId, id) {
+	return path.join(UPLOADS_DIR, classroomId, `${id}.jpg`);
+}
+
+/**
+ * Store an uploaded JPEG for a classroom. Returns its id and size, or null if it is not a
+ * usable image.
+ */
+async function saveUpload(classroomId, data) {
+	const size = jpegSize(data);
+	if (!size || !size.width || !size.height || size.width > MAX_DIMENSION || size.height > MAX_DIMENSION) return null;
+
+	const id = crypto.randomUUID();
+	await fs.promises.mkdir(path.join(UPLOADS_DIR, classroomId), { recursive: true });
+	await fs.promises.writeFile(uploadPath(classroomId, id), data);
+	return { id, ...size };
+}
+
+/**
+ * Read an uploaded file, or null if there is no such upload
+ */
+async function readUpload(classroomId, id) {
+	if (!isUploadId(id) || !/^[\w-]+$/.test(classroomId)) return null;
+	try {
+		return await fs.promises.readFile(uploadPath(classroomId, id));
+	} catch (error) {
+		if (error.code === 'ENOENT') return null;
+		throw error;
+	}
+}
+
+module.exports = {
+	MAX_UPLOAD_BYTES,
+	isUploadId,
+	jpegSize,
+	saveUpload,
+	readUpload,
+};
@@ -0,0 +1,143 @@
+// The compact encoding of points added to strokes while they are drawn. These are most of the
+// whiteboard's traffic, so instead of a JSON op per pointer move, clients send what was drawn
+// in each animation frame as one binary batch, which the server relays as it is:
+//
+//   batch  := version:u8 record*
+//   record := pageId:string id:string offset:varint count:varint flags:u8
+//             (dx:zigzag dy:zigzag){count} pressure:u8{count if flags & 1}
+//   string := length:varint utf8
+//
+// Coordinates are whole multiples of 1/2^18 of the board width (clients round points to that
+// when they sample them, so nothing is lost on the way) and each is sent as the difference
+// from the point before, which for handwriting fits in a byte or two. Pressures go as 0-255.
+// frontend/src/whiteboard/wire.ts is the same encoding for the browser.
+
+const WIRE_VERSION = 1;
+const SCALE = 2 ** 18;
+const HAS_PRESSURES = 1;
+const MAX_STRING_LENGTH = 64;
+const MAX_POINTS = 10000; // points per record, as many as a stroke can hold
+
+function writeVarint(bytes, value) {
+	while (value >= 128) {
+		bytes.push((value % 128) + 128);
+		value = Math.floor(value / 128);
+	}
+	bytes.push(value);
+}
+
+function writeString(bytes, text) {
+	const encoded = Buffer.from(text, 'utf8');
+	writeVarint(bytes, encoded.length);
+	encoded.forEach(byte => bytes.push(byte));
+}
+
+const zigzag = (value) => (value >= 0 ? value * 2 : -value * 2 - 1);
+const unzigzag = (value) => (value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+
+/**
+ * Encode appends ({ pageId, id, offset, points, pressures? }) as one batch. Appends that carry
+ * straight on from the one before them are sent as a single record.
+ */
+function encodePoints(appends) {
+	const records = [];
+	appends.forEach((append) => {
+		const last = records[records.length - 1];
+		if (last && last.pageId === append.pageId && last.id === append.id && last.offset + last.points.length === append.offset &&
+			!last.pressures === !append.pressures) {
+			records[records.length - 1] = {
+				...last,
+				points: last.points.concat(append.points),
+				...(last.pressures ? { pressures: last.pressures.concat(append.pressures) } : {})
+			};
+		} else {
+			records.push(append);
+		}
+	});
+
+	const bytes = [WIRE_VERSION];
+	records.forEach(({ pageId, id, offset, points, pressures }) => {
+		writeString(bytes, pageId);
+		writeString(bytes, id);
+		writeVarint(bytes, offset);
+		writeVarint(bytes, points.length / 2);
+		bytes.push(pressures ? HAS_PRESSURES : 0);
+		let x = 0;
+		let y = 0;
+		for (let i = 0; i < points.length; i += 2) {
+			const nextX = Math.round(points[i] * SCALE);
+			const nextY = Math.round(points[i + 1] * SCALE);
+			writeVarint(bytes, zigzag(nextX - x));
+			writeVarint(bytes, zigzag(nextY - y));
+			x = nextX;
+			y = nextY;
+		}
+		if (pressures) pressures.forEach(pressure => bytes.push(Math.round(pressure * 255)));
+	});
+	return Buffer.from(bytes);
+}
+
+/**
+ * Decode a batch into appends, or return null if it is not one
+ */
+function decodePoints(buffer) {
+	let position = 0;
+	const readByte = () => {
+		if (position >= buffer.length) throw new Error('Batch ends early');
+		return buffer[position++];
+	};
+	const readVarint = () => {
+		let value = 0;
+		let scale = 1;
+		for (;;) {
+			const byte = readByte();
+			value += (byte % 128) * scale;
+			if (byte < 128) return value;
+			scale *= 128;
+			if (scale > 2 ** 49) throw new Error('Number too long');
+		}
+	};
+	const readString = () => {
+		const length = readVarint();
+		if (length > MAX_STRING_LENGTH || position + length > buffer.length) throw new Error('Bad string');
+		const text = buffer.toString('utf8', position, position + length);
+		position += length;
+		return text;
+	};
+
+	try {
+		if (readByte() !== WIRE_VERSION) return null;
+		const appends = [];
+		while (position < buffer.length) {
+			const pageId = readString();
+			const id = readString();
+			const offset = readVarint();
+			const count = readVarint();
+			if (count > MAX_POINTS) return null;
+			const flags = readByte();
+			const points = [];
+			let x = 0;
+			let y = 0;
+			for (let i = 0; i < count; i++) {
+				x += unzigzag(readVarint());
+				y += unzigzag(readVarint());
+				points.push(x / SCALE, y / SCALE);
+			}
+			const append = { pageId, id, offset, points };
+			if (flags & HAS_PRESSURES) {
+				const pressures = [];
+				for (let i = 0; i < count; i++) pressures.push(readByte() / 255);
+				append.pressures = pressures;
+			}
+			appends.push(append);
+		}
+		return appends;
+	} catch {
+		return null;
+	}
+}
+
+module.exports = {
+	encodePoints,
+	decodePoints,
+};
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import AuthPage from './components/AuthPage';
 import LandingPage from './components/LandingPage';
-import Classroom from './components/Classroom';
+import Classroom, { JoinData } from './components/Classroom';
+import { RoomRole } from './types';
 
 interface AppState {
   socket: Socket | null;
@@ -10,7 +11,13 @@ interface AppState {
   isAuthenticated: boolean;
   authToken: string | null;
   inClassroom: boolean;
-  userRole: 'admin' | 'student';
+  inLobby: boolean;
+  roomId: string;
+  roomTitle: string;
+  accountRole: 'admin' | 'student';
+  userRole: RoomRole;
+  // The room as the server last sent it on joining, for the classroom to start from
+  joinData: JoinData | null;
   userName: string;
   userEmail: string;
   error: string | null;
@@ -23,11 +30,18 @@ function App() {
     isAuthenticated: false,
     authToken: null,
     inClassroom: false,
+    inLobby: false,
+    roomId: '',
+    roomTitle: '',
+    accountRole: 'student',
     userRole: 'student',
+    joinData: null,
     userName: '',
     userEmail: '',
     error: null
   });
+  // Room to rejoin automatically when the socket reconnects after a network drop
+  const currentRoomRef = useRef<string>('');
 
   // Check for existing auth token on mount
   useEffect(() => {
@@ -43,6 +57,7 @@ function App() {
           authToken: token,
           userName: user.username,
           userEmail: user.email,
+          accountRole: user.role,
           userRole: user.role
         }));
       } catch (error) {
@@ -53,7 +68,7 @@ function App() {
     }
   }, []);
 
-  const connectSocket = () => {
+  const connectSocket = (token: string) => {
     // Use environment variable or construct URL based on current location
     const host = window.location.hostname;
     const protocol = window.location.protocol; // Use same protocol as the frontend
@@ -62,6 +77,8 @@ function App() {
     console.log('Connecting to backend:', backendUrl);
 
     const newSocket = io(backendUrl, {
+      // The server authenticates the handshake with the JWT issued at login
+      auth: { token },
       // Accept self-signed certificates in development only
       rejectUnauthorized: process.env.NODE_ENV === 'production'
     });
@@ -69,6 +86,11 @@ function App() {
     newSocket.on('connect', () => {
       console.log('Connected to server', backendUrl);
       setState(prev => ({ ...prev, socket: newSocket, isConnected: true }));
+
+      if (currentRoomRef.current) {
+        console.log('Rejoining classroom after reconnect:', currentRoomRef.current);
+        newSocket.emit('join_room', { roomId: currentRoomRef.current });
+      }
     });
 
     newSocket.on('disconnect', () => {
@@ -76,17 +98,56 @@ function App() {
       setState(prev => ({ ...prev, isConnected: false }));
     });
 
-    newSocket.on('join_success', (data) => {
+    newSocket.on('join_success', (data: JoinData) => {
+      currentRoomRef.current = data.roomId;
       setState(prev => ({
         ...prev,
         inClassroom: true,
+        inLobby: false,
+        roomId: data.roomId,
+        roomTitle: data.roomTitle,
         userRole: data.role,
+        joinData: data,
         error: null
       }));
     });
 
-    newSocket.on('connect_error', (error) => {
+    // Held in the waiting room until a teacher admits or denies us
+    newSocket.on('lobby_waiting', (data: { roomId: string; roomTitle: string }) => {
+      currentRoomRef.current = data.roomId;
+      setState(prev => ({ ...prev, inLobby: true, roomId: data.roomId, roomTitle: data.roomTitle, error: null }));
+    });
+
+    newSocket.on('join_error', (data: { error: string }) => {
+      currentRoomRef.current = '';
+      newSocket.disconnect();
+      setState(prev => ({ ...prev, socket: null, isConnected: false, inLobby: false, error: data.error }));
+    });
+
+    newSocket.on('connect_error', (error: Error & { data?: { code?: string } }) => {
       console.error('Connection failed:', error);
+
+      // Rejected by the server's token check: the stored login is no longer usable
+      if (error.data?.code) {
+        localStorage.removeItem('authToken');
+        localStorage.removeItem('user');
+        newSocket.disconnect();
+        setState(prev => ({
+          ...prev,
+          socket: null,
+          isConnected: false,
+          isAuthenticated: false,
+          authToken: null,
+          error: error.message
+        }));
+        return;
+      }
+
+      // Every failed reconnection attempt lands here. In a classroom the attempts carry on
+      // behind its "Connection lost" banner: swapping in the error screen would unmount it
+      // and lose the drawing it has yet to send.
+      if (currentRoomRef.current) return;
+
       setState(prev => ({ ...prev, error: 'Failed to connect to server. Make sure the backend is running.' }));
     });
 
@@ -100,24 +161,25 @@ function App() {
       authToken: token,
       userName: user.username,
       userEmail: user.email,
+      accountRole: user.role as 'admin' | 'student',
       userRole: user.role as 'admin' | 'student',
       error: null
     }));
   };
 
-  const handleJoinClassroom = (name: string, adminCode?: string) => {
+  const handleJoinClassroom = (roomId: string) => {
     setState(prev => ({ ...prev, error: null }));
     
     let socket = state.socket;
     if (!socket || !socket.connected) {
-      socket = connectSocket();
+      socket = connectSocket(state.authToken || '');
     }
 
     // Wait for connection then join room
     const joinRoom = () => {
       if (socket && socket.connected) {
-        socket.emit('join_room', { name, adminCode });
-      } else {
+        socket.emit('join_room', { roomId });
+      } else if (socket && socket.active) {
         setTimeout(joinRoom, 100);
       }
     };
@@ -126,18 +188,26 @@ function App() {
   };
 
   const handleLeaveSession = () => {
+    currentRoomRef.current = '';
     if (state.socket) {
+      // Tell the server this is on purpose, so a host leaving ends the session instead of pausing it
+      state.socket.emit('leave_session');
       state.socket.disconnect();
     }
     setState(prev => ({
       ...prev,
       socket: null,
       isConnected: false,
-      inClassroom: false
+      inClassroom: false,
+      inLobby: false,
+      roomId: '',
+      roomTitle: '',
+      joinData: null
     }));
   };
 
   const handleLogout = () => {
+    currentRoomRef.current = '';
     localStorage.removeItem('authToken');
     localStorage.removeItem('user');
     if (state.socket) {
@@ -149,7 +219,12 @@ function App() {
       isAuthenticated: false,
       authToken: null,
       inClassroom: false,
+      inLobby: false,
+      roomId: '',
+      roomTitle: '',
+      accountRole: 'student',
       userRole: 'student',
+      joinData: null,
       userName: '',
       userEmail: '',
       error: null
@@ -191,17 +266,49 @@ function App() {
     return <AuthPage onAuthSuccess={handleAuthSuccess} />;
   }
 
+  if (state.inLobby) {
+    return (
+      <div className="min-h-screen space-bg flex items-center justify-center p-4">
+        <div className="glass-dark rounded-xl p-8 w-full max-w-md border border-cyan-500/30 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400 mx-auto mb-4"></div>
+          <h2 className="text-xl font-bold text-white mb-2">Waiting to be admitted</h2>
+          <p className="text-cyan-300/80 mb-1">{state.roomTitle}</p>
+          <p className="text-sm text-gray-400 mb-6">The teacher will let you in shortly.</p>
+          <button
+            onClick={handleLeaveSession}
+            className="cyber-btn px-6 py-2 neon-pink text-white rounded-lg text-sm font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Show landing page if authenticated but not in classroom
   if (!state.inClassroom) {
-    return <LandingPage onJoinClassroom={handleJoinClassroom} onLogout={handleLogout} userName={state.userName} />;
+    return (
+      <LandingPage
+        onJoinClassroom={handleJoinClassroom}
+        onLogout={handleLogout}
+        userName={state.userName}
+        userRole={state.accountRole}
+        authToken={state.authToken}
+      />
+    );
   }
 
-  if (state.socket && state.inClassroom) {
+  if (state.socket && state.inClassroom && state.joinData) {
     return (
       <Classroom
         socket={state.socket}
+        joinData={state.joinData}
         userRole={state.userRole}
         userName={state.userName}
+        roomId={state.roomId}
+        roomTitle={state.roomTitle}
+        authToken={state.authToken}
+        isConnected={state.isConnected}
         onLeaveSession={handleLeaveSession}
       />
     );
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { BOARD_ASPECT, BoardPoint, Viewport, sizeCanvas, visibleRegion } from '../whiteboard/coordinates';
+import { BoardObject, Bounds, pageExtent, renderObjects } from '../whiteboard/objects';
+
+interface BoardMinimapProps {
+  objects: BoardObject[];
+  viewport: Viewport;
+  width: number;
+  onNavigate: (point: BoardPoint) => void;
+}
+
+// The region the minimap shows: the page, everything drawn on it and the viewport, with a margin
+const mapRegion = (objects: BoardObject[], viewport: Viewport): Bounds => {
+  const extent = pageExtent(objects);
+  const visible = visibleRegion(viewport);
+  const x = Math.min(extent.x, visible.x);
+  const y = Math.min(extent.y, visible.y);
+  const width = Math.max(extent.x + extent.width, visible.x + visible.width) - x;
+  const height = Math.max(extent.y + extent.height, visible.y + visible.height) - y;
+  // Keep the board's aspect ratio so the map is never stretched
+  const size = Math.max(width, height * BOARD_ASPECT) * 1.1;
+  return { x: x + width / 2 - size / 2, y: y + height / 2 - size / BOARD_ASPECT / 2, width: size, height: size / BOARD_ASPECT };
+};
+
+// Overview of the whole page in the corner of the board, with the part on screen outlined.
+// Clicking or dragging on it moves the viewport there.
+const BoardMinimap: React.FC<BoardMinimapProps> = ({ objects, viewport, width, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const draggingRef = useRef(false);
+  const region = mapRegion(objects, viewport);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = sizeCanvas(canvas, width, Math.round(width / BOARD_ASPECT));
+    if (!ctx) return;
+    const scale = canvas.width / region.width;
+    const toMap = (target: CanvasRenderingContext2D) => target.setTransform(scale, 0, 0, scale, -region.x * scale, -region.y * scale);
+
+    // Ink goes on a layer of its own so erasers do not cut through the page underneath
+    const ink = document.createElement('canvas');
+    ink.width = canvas.width;
+    ink.height = canvas.height;
+    const inkCtx = ink.getContext('2d');
+    if (inkCtx) {
+      toMap(inkCtx);
+      renderObjects(inkCtx, objects);
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    toMap(ctx);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 1, 1 / BOARD_ASPECT);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(ink, 0, 0);
+
+    const visible = visibleRegion(viewport);
+    toMap(ctx);
+    ctx.strokeStyle = '#06b6d4';
+    ctx.lineWidth = 2 / scale;
+    ctx.strokeRect(visible.x, visible.y, visible.width, visible.height);
+  }, [objects, viewport, width, region.x, region.y, region.width]);
+
+  const navigate = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = rect.width / region.width;
+    onNavigate({ x: region.x + (e.clientX - rect.left) / scale, y: region.y + (e.clientY - rect.top) / scale });
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      title="Click to move around the board"
+      className="block rounded border border-gray-400 shadow touch-none cursor-pointer"
+      onPointerDown={(e) => {
+        draggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (draggingRef.current) navigate(e);
+      }}
+      onPointerUp={() => {
+        draggingRef.current = false;
+      }}
+    />
+  );
+};
+
+export default BoardMinimap;
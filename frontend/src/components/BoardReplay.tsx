@@ -0,0 +1,309 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { BOARD_ASPECT, sizeCanvas } from '../whiteboard/coordinates';
+import { Bounds } from '../whiteboard/objects';
+import { downloadBlob } from '../whiteboard/export';
+import { loadMath } from '../whiteboard/math';
+import {
+  Recording, ReplayState, advance, drawReplayFrame, loadBackgrounds, pageFrames, parseRecording, recordVideo, replayTo, startOf
+} from '../whiteboard/replay';
+
+interface RecordingSummary {
+  sessionId: string;
+  startedAt: string;
+  endedAt: string | null;
+  size: number;
+}
+
+interface BoardReplayProps {
+  classroomId: string;
+  title: string;
+  backendUrl: string;
+  authToken?: string | null;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8, 16];
+const VIEW_WIDTH = 720;
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Watch how a classroom's whiteboard was built up during a past (or the current) session:
+// play, pause, scrub and change speed, or take the session file or a video away
+const BoardReplay: React.FC<BoardReplayProps> = ({ classroomId, title, backendUrl, authToken, onClose }) => {
+  const [recordings, setRecordings] = useState<RecordingSummary[] | null>(null);
+  const [error, setError] = useState('');
+  const [loaded, setLoaded] = useState<{ recording: Recording; text: string } | null>(null);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [skipPauses, setSkipPauses] = useState(true);
+  const [videoProgress, setVideoProgress] = useState<number | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const inkRef = useRef<HTMLCanvasElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const stateRef = useRef<ReplayState | null>(null);
+  const framesRef = useRef(new Map<string, Bounds>());
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  const timeRef = useRef(0);
+  const cancelVideoRef = useRef(false);
+
+  const headers = authToken ? { Authorization: `Bearer ${authToken}` } : undefined;
+  const recording = loaded?.recording || null;
+  const uploadUrl = useCallback(
+    (upload: string) => `${backendUrl}/api/rooms/${recording?.classroomId || classroomId}/uploads/${upload}`,
+    [backendUrl, recording, classroomId]
+  );
+
+  useEffect(() => {
+    fetch(`${backendUrl}/api/rooms/${classroomId}/recordings`, { headers: authToken ? { Authorization: `Bearer ${authToken}` } : undefined })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load recordings');
+        setRecordings(data.recordings);
+      })
+      .catch((err: Error) => setError(err.message || 'Failed to load recordings'));
+  }, [backendUrl, classroomId, authToken]);
+
+  // Stop a video that is being made when the viewer closes
+  useEffect(() => () => {
+    cancelVideoRef.current = true;
+  }, []);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !stateRef.current) return;
+    if (!inkRef.current) inkRef.current = document.createElement('canvas');
+    drawReplayFrame(canvas, inkRef.current, stateRef.current, framesRef.current, imagesRef.current);
+  }, []);
+
+  const seek = useCallback((next: number) => {
+    if (!recording || !stateRef.current) return;
+    timeRef.current = next;
+    stateRef.current = replayTo(recording, stateRef.current, next);
+    setTime(next);
+    draw();
+  }, [recording, draw]);
+
+  const open = (text: string) => {
+    const parsed = parseRecording(text);
+    cancelVideoRef.current = true;
+    setPlaying(false);
+    setLoaded({ recording: parsed, text });
+    framesRef.current = pageFrames(parsed);
+    imagesRef.current = new Map();
+    stateRef.current = startOf(parsed);
+    timeRef.current = 0;
+    setTime(0);
+  };
+
+  // Size the canvas for a new recording and show its start, then again once backgrounds and
+  // the equation typesetter arrive
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !recording) return;
+    sizeCanvas(canvas, VIEW_WIDTH, Math.round(VIEW_WIDTH / BOARD_ASPECT));
+    draw();
+    let cancelled = false;
+    Promise.all([loadBackgrounds(recording, uploadUrl), loadMath().catch(() => {})]).then(([images]) => {
+      if (cancelled) return;
+      imagesRef.current = images;
+      draw();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recording, draw, uploadUrl]);
+
+  // Playback moves on with the clock, one animation frame at a time
+  useEffect(() => {
+    if (!playing || !recording) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = advance(recording, stateRef.current || startOf(recording), timeRef.current, now - last, speed, skipPauses);
+      last = now;
+      seek(next);
+      if (next >= recording.duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, recording, speed, skipPauses, seek]);
+
+  const handleSelect = async (sessionId: string) => {
+    setError('');
+    try {
+      const response = await fetch(`${backendUrl}/api/rooms/${classroomId}/recordings/${sessionId}`, { headers });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to load the recording');
+      }
+      open(await response.text());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the recording');
+    }
+  };
+
+  const handleOpenFile = async (file: File) => {
+    setError('');
+    try {
+      open(await file.text());
+    } catch (err: any) {
+      setError(err.message || 'Failed to open the file');
+    }
+  };
+
+  const handlePlay = () => {
+    if (!recording) return;
+    if (!playing && timeRef.current >= recording.duration) seek(0);
+    setPlaying(!playing);
+  };
+
+  const handleDownload = () => {
+    if (!loaded) return;
+    const { recording: { classroomId: id, sessionId }, text } = loaded;
+    downloadBlob(new Blob([text], { type: 'application/x-ndjson' }), `${id}-${sessionId}.jsonl`);
+  };
+
+  const handleExportVideo = async () => {
+    if (!recording) return;
+    if (videoProgress !== null) {
+      cancelVideoRef.current = true;
+      return;
+    }
+    cancelVideoRef.current = false;
+    setVideoProgress(0);
+    try {
+      const video = await recordVideo(recording, uploadUrl, {
+        speed,
+        skipPauses,
+        onProgress: setVideoProgress,
+        isCancelled: () => cancelVideoRef.current
+      });
+      if (video) downloadBlob(video, `${recording.classroomId}-${recording.sessionId}.webm`);
+    } catch (err: any) {
+      alert(err.message || 'Failed to export the video');
+    } finally {
+      setVideoProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-30 flex items-center justify-center p-4">
+      <div className="glass-dark rounded-xl p-6 w-full max-w-3xl border border-cyan-500/30 relative animate-fade-in">
+        <button
+          onClick={onClose}
+          className="absolute -top-2 -right-2 neon-pink text-white rounded-full w-8 h-8 flex items-center justify-center text-lg"
+          aria-label="Close replay"
+        >
+          ×
+        </button>
+
+        <h2 className="text-xl font-bold text-cyber text-glow mb-4" style={{ color: 'var(--cyber-blue)' }}>
+          ▶️ Whiteboard replay · {title}
+        </h2>
+
+        {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+        <div className="flex items-center gap-2 mb-3">
+          <select
+            value={recording?.sessionId || ''}
+            onChange={(e) => e.target.value && handleSelect(e.target.value)}
+            className="flex-1 glass rounded-lg text-sm text-white bg-transparent px-2 py-2"
+          >
+            <option value="" className="text-black">
+              {recordings === null ? 'Loading sessions…' : recordings.length === 0 ? 'No recorded sessions yet' : 'Choose a session'}
+            </option>
+            {(recordings || []).map(item => (
+              <option key={item.sessionId} value={item.sessionId} className="text-black">
+                {new Date(item.startedAt).toLocaleString()}{item.endedAt ? '' : ' (live)'}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Open a session file downloaded earlier"
+            className="glass px-3 py-2 rounded-lg text-xs text-cyan-300 border border-transparent hover:border-cyan-400"
+          >
+            📂 Open file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".jsonl,application/x-ndjson"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleOpenFile(file);
+            }}
+          />
+        </div>
+
+        {recording && (
+          <>
+            <canvas ref={canvasRef} className="block rounded-lg border border-gray-600 mx-auto" />
+            <div className="mt-3 flex items-center gap-2">
+              <button onClick={handlePlay} className="cyber-btn px-3 py-1 neon-blue text-white rounded-lg text-sm w-12">
+                {playing ? '⏸' : '▶'}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={recording.duration}
+                step={100}
+                value={time}
+                onChange={(e) => seek(Number(e.target.value))}
+                className="flex-1"
+                aria-label="Position in the replay"
+              />
+              <span className="text-xs text-gray-300 whitespace-nowrap w-24 text-right">
+                {formatTime(time)} / {formatTime(recording.duration)}
+              </span>
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-3">
+              <select
+                value={speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                title="Playback speed"
+                className="glass rounded-lg text-xs text-white bg-transparent px-2 py-1"
+              >
+                {SPEEDS.map(value => <option key={value} value={value} className="text-black">{value}×</option>)}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-gray-300">
+                <input type="checkbox" checked={skipPauses} onChange={(e) => setSkipPauses(e.target.checked)} />
+                Skip pauses
+              </label>
+              <div className="ml-auto flex items-center gap-2">
+                <button
+                  onClick={handleDownload}
+                  title="Keep the recording to replay later"
+                  className="glass px-3 py-1 rounded-lg text-xs text-gray-200"
+                >
+                  ⬇️ Session file
+                </button>
+                <button
+                  onClick={handleExportVideo}
+                  title={`Render a WebM video at ${speed}×; this takes as long as playing it`}
+                  className={`px-3 py-1 rounded-lg text-xs text-white ${videoProgress === null ? 'neon-purple' : 'neon-pink'}`}
+                >
+                  {videoProgress === null ? '🎬 Export video' : `Stop (${Math.round(videoProgress * 100)}%)`}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BoardReplay;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { Socket } from 'socket.io-client';
+import Classroom, { JoinData } from './Classroom';
+import { loadMath } from '../whiteboard/math';
+
+// Enough of a socket to mount the classroom on: it records the listeners put on it, and
+// `receive` plays an event from the server to them
+const fakeSocket = () => {
+  const handlers = new Map<string, ((...args: any[]) => void)[]>();
+  const socket = {
+    id: 'socket-1',
+    connected: true,
+    on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+      handlers.set(event, [...(handlers.get(event) || []), handler]);
+    }),
+    off: jest.fn((event: string, handler: (...args: any[]) => void) => {
+      handlers.set(event, (handlers.get(event) || []).filter(other => other !== handler));
+    }),
+    emit: jest.fn(),
+    listeners: (event: string) => handlers.get(event) || [],
+    receive: (event: string, ...args: unknown[]) => act(() => {
+      (handlers.get(event) || []).forEach(handler => handler(...args));
+    })
+  };
+  return socket;
+};
+
+const member = (name: string, role: JoinData['role']) => ({
+  name, role, permissions: {}, accountId: `account-${name}`, streamActive: false, canDraw: true, videoEnabled: false, audioEnabled: false, breakoutId: null
+});
+
+// The room as the server describes it to someone joining
+const joinData = (): JoinData => ({
+  roomId: 'room-1',
+  roomTitle: 'Algebra',
+  role: 'student',
+  users: { 'socket-0': member('Tess', 'admin'), 'socket-1': member('Sam', 'student') },
+  chat: [{ id: 'message-1', userId: 'socket-0', username: 'Tess', message: 'Open your books at page 12 and solve $x^2 = 4$', timestamp: new Date(0).toISOString(), role: 'admin' }],
+  board: { pages: [{ id: 'page-1', objects: [] }], follow: false, presenterPageId: 'page-1', hiddenAuthors: [], clock: 0, deleted: [] },
+  drawingEnabled: true,
+  pausedUntil: null,
+  breakouts: null,
+  breakoutId: null,
+  settings: { lobbyEnabled: false, locked: false, maxCapacity: null },
+  lobby: [],
+  isAdmin: false
+});
+
+const classroom = (socket: ReturnType<typeof fakeSocket>, join = joinData()) => (
+  <Classroom
+    socket={socket as unknown as Socket}
+    joinData={join}
+    userRole="student"
+    userName="Sam"
+    roomId="room-1"
+    roomTitle="Algebra"
+    authToken="token"
+    isConnected
+    onLeaveSession={() => {}}
+  />
+);
+
+// Mounted once MathJax, which the classroom loads as it opens, has arrived
+const mount = async (socket: ReturnType<typeof fakeSocket>) => {
+  const view = render(classroom(socket));
+  await act(() => loadMath());
+  return view;
+};
+
+describe('Classroom', () => {
+  // jsdom has no canvas to draw on, which the board copes without, and does not lay anything
+  // out, so nothing is ever resized
+  beforeEach(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    Object.assign(window, { ResizeObserver: class { observe() {} unobserve() {} disconnect() {} } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('listens for what the server sends and stops when it goes', async () => {
+    const socket = fakeSocket();
+    const { unmount } = await mount(socket);
+    ['disconnect', 'new_message', 'board_op', 'board_sync', 'session_paused'].forEach((event) => {
+      expect(socket.listeners(event)).toHaveLength(1);
+    });
+
+    const appHandler = jest.fn();
+    socket.on('disconnect', appHandler);
+    unmount();
+    expect(socket.listeners('disconnect')).toEqual([appHandler]);
+    expect(socket.listeners('new_message')).toHaveLength(0);
+  });
+
+  it('starts from the room as it was when we joined', async () => {
+    await mount(fakeSocket());
+    fireEvent.click(screen.getByText('Chat'));
+    expect(screen.getByText(/Open your books at page 12/)).toBeInTheDocument();
+    expect(screen.getByAltText('x^2 = 4')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Users'));
+    expect(screen.getByText('Connected (2)')).toBeInTheDocument();
+  });
+
+  it('catches up with the room on joining again', async () => {
+    const socket = fakeSocket();
+    const { rerender } = await mount(socket);
+    const rejoin = { ...joinData(), users: { ...joinData().users, 'socket-2': member('Kim', 'student') } };
+    rerender(classroom(socket, rejoin));
+    fireEvent.click(screen.getByText('Users'));
+    expect(screen.getByText('Connected (3)')).toBeInTheDocument();
+  });
+});
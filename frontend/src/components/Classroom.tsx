@@ -1,14 +1,44 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { Socket } from 'socket.io-client';
 import SimpleVideoCall from './SimpleVideoCall';
+import PageThumbnail from './PageThumbnail';
+import BoardMinimap from './BoardMinimap';
+import MathText from './MathText';
+import PlotControls from './PlotControls';
+import { RoomRole, Permission, ROLE_LABELS, PERMISSION_LABELS } from '../types';
+import {
+  BOARD_HEIGHT, BoardPoint, DEFAULT_VIEWPORT, Viewport, applyViewport, centreOn, fitBoard, fitViewport, sizeCanvas, toBoardPoint, toBoardSize,
+  zoomAround
+} from '../whiteboard/coordinates';
+import {
+  BoardChange, BoardObject, BoardPage, BoardState, Bounds, EquationObject, InstrumentTool, LINE_HEIGHT, MAX_PAGES, PageChange, PlotObject,
+  PolygonObject, STICKY_TEXT_COLOR, ShapeTool, Stamp, StickyObject, StrokeObject, StrokeTool, TextObject, TextTool, applyPageChange,
+  drawObject, drawSelection, drawStrokeSegment, contentBounds, contributions, equationEm, equationSize, getBounds, hitTest, isInstrument,
+  isStroke, isTextual, newObjectId, renderObjects, stickyPadding, transformObject, turnHandle, withoutAuthors
+} from '../whiteboard/objects';
+import { MAX_LATEX_LENGTH, formulaSize, loadMath, mathImageUrl, renderMath } from '../whiteboard/math';
+import { History, emptyHistory, pickFields, record, step } from '../whiteboard/history';
+import { PageOp, Tombstones, applyBoardOp, opCounter, removeBefore, stampChange, tombstonesOf } from '../whiteboard/sync';
+import { PageAppend, decodePoints, encodePoints, quantize, quantizePressure } from '../whiteboard/wire';
+import { exportPdf, exportPng, exportSvg } from '../whiteboard/export';
+import { recognizeShape } from '../whiteboard/recognize';
+import { PAGE_TEMPLATES, PageTemplate } from '../whiteboard/geometry';
+import { DEFAULT_AXES } from '../whiteboard/plot';
+import { BackgroundImage, backgroundStyle, imageFileToJpeg, isPdfFile, pdfFileToJpegs } from '../whiteboard/backgrounds';
+import {
+  CURSOR_INTERVAL_MS, LaserTrail, RemoteCursor, cursorColor, drawCursor, drawLaserTrail, extendTrail, isFading
+} from '../whiteboard/cursors';
 
 interface User {
   name: string;
-  role: 'admin' | 'student';
+  role: RoomRole;
+  permissions: { [permission in Permission]?: boolean };
+  accountId: string;
   streamActive: boolean;
   canDraw: boolean;
   videoEnabled: boolean;
   audioEnabled: boolean;
+  breakoutId: string | null;
 }
 
 interface ChatMessage {
@@ -17,17 +47,103 @@ interface ChatMessage {
   username: string;
   message: string;
   timestamp: string;
-  role: 'admin' | 'student';
+  role: RoomRole;
+}
+
+interface LobbyEntry {
+  socketId: string;
+  name: string;
+  requestedAt: number;
+}
+
+interface RoomSettings {
+  lobbyEnabled: boolean;
+  locked: boolean;
+  maxCapacity: number | null;
+}
+
+interface Breakouts {
+  endsAt: number;
+  groups: { id: string; name: string }[];
+}
+
+// What the server sends someone who has joined: the room as it is now
+export interface JoinData {
+  roomId: string;
+  roomTitle: string;
+  role: RoomRole;
+  users: { [socketId: string]: User };
+  chat: ChatMessage[];
+  board: BoardState;
+  drawingEnabled: boolean;
+  pausedUntil: number | null;
+  breakouts: Breakouts | null;
+  breakoutId: string | null;
+  settings: RoomSettings;
+  lobby: LobbyEntry[];
+  isAdmin: boolean;
 }
 
 interface ClassroomProps {
   socket: Socket;
-  userRole: 'admin' | 'student';
+  joinData: JoinData;
+  userRole: RoomRole;
   userName: string;
+  roomId: string;
+  roomTitle: string;
+  authToken: string | null;
+  isConnected: boolean;
   onLeaveSession: () => void;
 }
 
-const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLeaveSession }) => {
+const isStaffRole = (role?: RoomRole) => role === 'admin' || role === 'teacher' || role === 'ta';
+
+// Objects that are typed into in place: text, sticky notes, and the LaTeX of equations
+type TypedObject = TextObject | StickyObject | EquationObject;
+
+const isTyped = (object: BoardObject): object is TypedObject => isTextual(object) || object.type === 'equation';
+
+const typedText = (object: TypedObject) => (object.type === 'equation' ? object.latex : object.text);
+
+// The LaTeX box sits over the equation, with the typeset result showing underneath it
+const EQUATION_EDITOR_HEIGHT = 72;
+
+// Fingers moving the board around. `from` is the viewport when the current set of fingers went
+// down, with the centre of the fingers and how far apart they were, in CSS pixels; `moved` is
+// the furthest the fingers have since travelled, to tell taps from pans.
+interface Gesture {
+  startedAt: number;
+  fingers: number;
+  moved: number;
+  from: { viewport: Viewport; centre: { x: number; y: number }; spread: number };
+}
+
+// Touch contacts wider than this (in CSS pixels) are a resting hand rather than a fingertip
+const PALM_CONTACT_SIZE = 40;
+const TAP_DISTANCE = 20;
+const TAP_DURATION = 300;
+
+const STICKY_COLORS = ['#fde68a', '#bbf7d0', '#bfdbfe', '#fbcfe8'];
+// In pixels at the reference board width, like brush sizes
+const FONT_SIZES = [16, 24, 36, 48, 72];
+// How long the pen has to be held still before a stroke snaps into a shape
+const SNAP_PAUSE = 500;
+// Length of the edge of a ruler or protractor put down with a click rather than dragged out
+const INSTRUMENT_LENGTH: { [type in InstrumentTool]: number } = { ruler: 0.4, protractor: 0.25 };
+// Width and height of a new plot; square, so that equal ranges on its axes give a true shape
+const PLOT_SIZE = 0.3;
+// Turning an instrument with Shift held goes in steps of this many degrees
+const TURN_STEP = 15;
+// Key of our own laser trail among everyone else's
+const LOCAL_TRAIL = '';
+
+// A change of ours on its way to the server
+interface PendingOp {
+  op: PageOp;
+  sent: boolean;
+}
+
+const Classroom: React.FC<ClassroomProps> = ({ socket, joinData, userRole: initialRole, userName, roomId, roomTitle, authToken, isConnected, onLeaveSession }) => {
   const [users, setUsers] = useState<{ [socketId: string]: User }>({});
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
@@ -35,95 +151,334 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentColor, setCurrentColor] = useState('#000000');
   const [brushSize, setBrushSize] = useState(3);
-  const [lastDrawPoint, setLastDrawPoint] = useState<{ x: number; y: number } | null>(null);
-  const [tool, setTool] = useState<'pen' | 'eraser' | 'line' | 'rect' | 'circle'>('pen');
+  const [tool, setTool] = useState<'select' | 'pan' | 'laser' | StrokeTool | ShapeTool | 'polygon' | TextTool | InstrumentTool | 'plot'>('pen');
+  const [fillShapes, setFillShapes] = useState(false);
+  // Whether pen strokes held still at the end turn into the shapes they look like; some prefer raw ink
+  const [snapShapes, setSnapShapes] = useState(() => localStorage.getItem('snapShapes') === 'on');
+  const [fontSize, setFontSize] = useState(24);
+  const [stickyColor, setStickyColor] = useState(STICKY_COLORS[0]);
+  // What new plots show
+  const [plotSettings, setPlotSettings] = useState<Pick<PlotObject, 'expression' | 'axes'>>({ expression: 'sin(x)', axes: DEFAULT_AXES });
+  // The text, sticky note or equation being typed into; `isNew` ones are only sent once they are committed
+  const [editing, setEditing] = useState<{ object: TypedObject; isNew: boolean } | null>(null);
+  const [editingText, setEditingText] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+  const [pages, setPages] = useState<BoardPage[]>([]);
+  const [currentPageId, setCurrentPageId] = useState('');
+  const [boardView, setBoardView] = useState({ follow: false, presenterPageId: '' });
+  const [hiddenAuthors, setHiddenAuthorsState] = useState<string[]>([]);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [viewport, setViewportState] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  const [showCursors, setShowCursors] = useState(false);
   const [showTools, setShowTools] = useState<boolean>(false);
   const [showAdminPanel, setShowAdminPanel] = useState<boolean>(false);
-  const canvasSnapshotRef = useRef<ImageData | null>(null);
   const [localUserId, setLocalUserId] = useState<string>('');
   const [showVideoCall, setShowVideoCall] = useState(false);
   const [isVideoFullScreen, setIsVideoFullScreen] = useState(false);
   const [videoParticipants, setVideoParticipants] = useState<{ [userName: string]: { role: string; muted: boolean; videoMuted: boolean; sharing: boolean } }>({});
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [lobby, setLobby] = useState<LobbyEntry[]>([]);
+  const [settings, setSettings] = useState<RoomSettings>({ lobbyEnabled: false, locked: false, maxCapacity: null });
+  const [breakouts, setBreakouts] = useState<Breakouts | null>(null);
+  const [breakoutCount, setBreakoutCount] = useState(2);
+  const [breakoutMinutes, setBreakoutMinutes] = useState(10);
+  const [breakoutMode, setBreakoutMode] = useState<'random' | 'manual'>('random');
+  const [breakoutPlan, setBreakoutPlan] = useState<{ [socketId: string]: number }>({});
+  const [broadcastDraft, setBroadcastDraft] = useState('');
+  const [broadcast, setBroadcast] = useState<{ message: string; from: string } | null>(null);
+  // Formulas show as written until MathJax arrives
+  const [, setMathLoaded] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Cursors and laser trails are drawn above the board so they never touch it
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const overlayFrameRef = useRef<number | null>(null);
+  const boardContainerRef = useRef<HTMLDivElement>(null);
+  // Pages of the board (each with its objects in drawing order), the page on screen and the
+  // gesture in progress
+  const pagesRef = useRef<BoardPage[]>([]);
+  const currentPageIdRef = useRef('');
+  const boardViewRef = useRef({ follow: false, presenterPageId: '' });
+  const hiddenAuthorsRef = useRef<string[]>([]);
+  const tombstonesRef = useRef<Tombstones>(new Map());
+  // Stamps for our changes (see whiteboard/sync.ts), and the changes the server has yet to
+  // acknowledge: these are sent while we are in the room and kept through disconnections
+  const replicaRef = useRef(newObjectId());
+  const clockRef = useRef(0);
+  const outboxRef = useRef<PendingOp[]>([]);
+  // Changes go out together once per animation frame
+  const outboxFrameRef = useRef<number | null>(null);
+  // The classroom is only shown once joined, so this starts out true
+  const joinedRef = useRef(true);
+  // Where this user is looking on the page on screen, and on each page they have visited
+  const viewportRef = useRef<Viewport>(DEFAULT_VIEWPORT);
+  const viewportsRef = useRef(new Map<string, Viewport>());
+  const thumbnailTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Pages this user asked for that are still on their way; they are taken to the last one
+  const addingPagesRef = useRef(0);
+  const selectedIdRef = useRef<string | null>(null);
+  // This user's own changes, for undo/redo
+  const historyRef = useRef<History>(emptyHistory());
+  const dragRef = useRef<{
+    // 'snapped' is a pen stroke already turned into the shape `objectId`, until the pen lifts;
+    // 'turn' swings the far end of a ruler or protractor round
+    mode: 'stroke' | 'snapped' | 'shape' | 'polygon' | 'move' | 'resize' | 'turn' | 'pan';
+    start: BoardPoint;
+    // Where a pan started on screen, and the viewport then
+    panFrom?: { x: number; y: number; viewport: Viewport };
+    objectId?: string;
+    bounds?: Bounds;
+    preview?: BoardObject;
+    changes?: Partial<BoardObject>;
+    // A pen stroke that may yet snap into a shape is only drawn here, as `preview`, until it
+    // does or the pen lifts; then the shape or the stroke goes to everyone as one add
+    held?: boolean;
+  } | null>(null);
+  // Fingers on the board by pointer id; two or more make a gesture rather than a drawing
+  const touchesRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<Gesture | null>(null);
+  // The one pointer drawing right now; others are ignored until it lifts
+  const drawingPointerRef = useRef<number | null>(null);
+  const penSeenRef = useRef(false);
+  // The wait for the pen to stay still, and where it was when the wait began
+  const snapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const snapAnchorRef = useRef<BoardPoint | null>(null);
+  // A click that only finished editing text should not start new text as well
+  const skipClickRef = useRef(false);
+  // The text being edited, for handlers that outlive a render
+  const editingRef = useRef<{ object: TypedObject; isNew: boolean; text: string } | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Socket listeners are registered once, so they read the role through a ref
+  const isStaffRef = useRef(false);
+  // Other participants' cursors and laser trails by socket id; ours is LOCAL_TRAIL
+  const cursorsRef = useRef(new Map<string, RemoteCursor>());
+  const laserTrailsRef = useRef(new Map<string, LaserTrail>());
+  const showCursorsRef = useRef(false);
+  const usersRef = useRef<{ [socketId: string]: User }>({});
+  // Our own cursor: when it was last sent, the position waiting to go out, and whether others see it
+  const cursorSentAtRef = useRef(0);
+  const pendingCursorRef = useRef<{ pageId: string; point: BoardPoint | null; laser: boolean } | null>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cursorSharedRef = useRef(false);
+
+  // Roles can change mid-session (promotion, host transfer), so derive them from the live user list
+  const currentUser = users[localUserId];
+  const userRole: RoomRole = currentUser?.role || initialRole;
+  const isStaff = isStaffRole(userRole);
+  const can = (permission: Permission) => userRole === 'admin' || !!currentUser?.permissions?.[permission];
+  const breakoutId = currentUser?.breakoutId || null;
+  const currentGroup = breakouts?.groups.find(group => group.id === breakoutId);
+  const backendUrl = (process.env.REACT_APP_BACKEND_URL || `${window.location.protocol}//${window.location.hostname}:5000`).replace(/\/$/, '');
+  const uploadUrl = (upload: string) => `${backendUrl}/api/rooms/${roomId}/uploads/${upload}`;
+  const currentPage = pages.find(page => page.id === currentPageId);
+  const selectedBoardObject = currentPage?.objects.find(object => object.id === selectedId);
+  const selectedPlot = selectedBoardObject?.type === 'plot' ? selectedBoardObject : null;
+  const boardContributions = contributions(pages);
+  isStaffRef.current = isStaff;
+  usersRef.current = users;
+  showCursorsRef.current = showCursors;
+  // Students can only browse pages while the teacher is not presenting
+  const canBrowsePages = isStaff || !boardView.follow;
 
   useEffect(() => {
     // Initialize canvas with white background
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-      }
-    }
+    clearCanvas();
 
     // Capture local user ID from socket
     setLocalUserId(socket.id || '');
     
-    // Socket event listeners
-    socket.on('join_success', (data) => {
-      setUsers(data.users);
+    // Socket event listeners. Each is removed on its own when this effect ends: App listens
+    // to some of the same events (disconnect) and must keep hearing them.
+    const listeners: [string, (...args: any[]) => void][] = [];
+    const listen = (event: string, handler: (...args: any[]) => void) => {
+      socket.on(event, handler);
+      listeners.push([event, handler]);
+    };
+    const handleDisconnect = () => {
+      joinedRef.current = false;
+      outboxRef.current.forEach((pending) => {
+        pending.sent = false;
+      });
+    };
+    listen('disconnect', handleDisconnect);
+
+    listen('breakouts_updated', (data: { breakouts: Breakouts | null; reason?: string }) => {
+      setBreakouts(data.breakouts);
+      if (!data.breakouts) {
+        setBroadcast(null);
+        if (data.reason) alert(`Back to the main room: ${data.reason}`);
+      }
+    });
+
+    listen('breakout_moved', (data: { breakoutId: string | null; chat: ChatMessage[]; board: BoardState }) => {
+      // Changes not through yet were for the board we left
+      outboxRef.current = [];
+      replayBoard(data.board);
       setChatMessages(data.chat);
-      setDrawingEnabled(data.drawingEnabled);
-      setLocalUserId(socket.id || '');
+      setVideoParticipants({});
+    });
+
+    listen('breakout_broadcast', (data: { message: string; from: string }) => {
+      setBroadcast(data);
     });
 
-    socket.on('user_joined', (data) => {
+    listen('breakout_error', (data: { error: string }) => {
+      alert(data.error);
+    });
+
+    listen('lobby_updated', (data: { lobby: LobbyEntry[] }) => {
+      setLobby(data.lobby);
+    });
+
+    listen('room_settings_updated', (data: { settings: RoomSettings }) => {
+      setSettings(data.settings);
+    });
+
+    listen('lobby_error', (data: { error: string }) => {
+      alert(data.error);
+    });
+
+    listen('user_joined', (data) => {
       setUsers(prev => ({
         ...prev,
         [data.userId]: data.user
       }));
     });
 
-    socket.on('user_left', (data) => {
+    listen('user_left', (data) => {
       setUsers(prev => {
         const newUsers = { ...prev };
         delete newUsers[data.userId];
         return newUsers;
       });
-      
+      cursorsRef.current.delete(data.userId);
+      laserTrailsRef.current.delete(data.userId);
+      requestOverlay();
     });
 
-    socket.on('new_message', (message) => {
+    listen('new_message', (message) => {
       setChatMessages(prev => [...prev, message]);
     });
 
-    socket.on('message_deleted', (data) => {
+    listen('message_deleted', (data) => {
       setChatMessages(prev => prev.filter(msg => msg.id !== data.messageId));
     });
 
-    socket.on('draw_data', (data) => {
-      drawOnCanvas(data);
+    listen('board_op', (op: PageOp) => {
+      applyRemoteOp(op);
+    });
+
+    listen('board_points', (data: ArrayBuffer) => {
+      (decodePoints(new Uint8Array(data)) || []).forEach(applyRemoteOp);
     });
 
-    socket.on('clear_canvas', () => {
-      clearCanvas();
+    // The server turned down one of our changes; take its copy of the board
+    listen('board_sync', (data: { board: BoardState }) => {
+      adoptBoard(data.board);
+      setPages(pagesRef.current);
+      setHiddenAuthors(data.board.hiddenAuthors);
+      setView(data.board);
+      if (!currentObjects().some(object => object.id === selectedIdRef.current)) {
+        selectedIdRef.current = null;
+        setSelectedId(null);
+      }
+      renderBoard();
+    });
+
+    listen('clear_canvas', (data: { pageId: string; stamp: Stamp }) => {
+      const page = pagesRef.current.find(item => item.id === data.pageId);
+      if (page) setPageObjects(data.pageId, removeBefore(page.objects, data.stamp, tombstonesRef.current, isPendingAdd));
+      const history = historyRef.current;
+      setHistory({
+        undo: history.undo.filter(entry => entry.pageId !== data.pageId),
+        redo: history.redo.filter(entry => entry.pageId !== data.pageId)
+      });
+      if (data.pageId === currentPageIdRef.current) selectObject(null);
+    });
+
+    listen('board_page', (change: PageChange) => {
+      pagesRef.current = applyPageChange(pagesRef.current, change);
+      setPages(pagesRef.current);
+      if (change.action === 'add' && addingPagesRef.current > 0) {
+        addingPagesRef.current--;
+        if (addingPagesRef.current === 0) showPage(change.page.id);
+      } else if (change.action === 'delete') {
+        boardViewRef.current = { ...boardViewRef.current, presenterPageId: change.presenterPageId };
+        setBoardView(boardViewRef.current);
+        if (change.pageId === currentPageIdRef.current) showPage(change.presenterPageId, false);
+      }
+    });
+
+    // Staff hid, showed again or erased everything by one author
+    listen('board_moderate', (data: { action: 'hide' | 'show' | 'erase'; authorId: string; hiddenAuthors: string[]; stamp?: Stamp }) => {
+      const { stamp } = data;
+      if (data.action === 'erase' && stamp) {
+        const keep = (object: BoardObject) => object.authorId !== data.authorId || isPendingAdd(object);
+        pagesRef.current = pagesRef.current.map(page => ({ ...page, objects: removeBefore(page.objects, stamp, tombstonesRef.current, keep) }));
+        setPages(pagesRef.current);
+      }
+      setHiddenAuthors(data.hiddenAuthors);
+      const selected = currentObjects().find(object => object.id === selectedIdRef.current);
+      selectObject(selected && !data.hiddenAuthors.includes(selected.authorId) ? selected.id : null);
+    });
+
+    listen('board_view', (data: { follow: boolean; presenterPageId: string }) => {
+      setView(data);
+    });
+
+    // Staff bringing everyone to what they are looking at
+    listen('board_viewport', (data: { pageId: string; viewport: Viewport }) => {
+      if (isStaffRef.current) return;
+      boardViewRef.current = { ...boardViewRef.current, presenterPageId: data.pageId };
+      setBoardView(boardViewRef.current);
+      showPage(data.pageId, false);
+      setViewport(data.viewport);
     });
 
-    socket.on('drawing_toggled', (data) => {
+    listen('board_cursor', (data: { userId: string; pageId: string; point: BoardPoint | null; laser: boolean }) => {
+      receiveCursor(data);
+    });
+
+    listen('drawing_toggled', (data) => {
       setDrawingEnabled(data.enabled);
     });
 
-    socket.on('user_updated', (data) => {
+    listen('user_updated', (data) => {
       setUsers(prev => ({
         ...prev,
         [data.userId]: data.user
       }));
     });
 
-    socket.on('session_ended', () => {
-      alert('Session ended - Admin left the classroom');
+    listen('session_ended', (payload: { reason?: string }) => {
+      alert(`Session ended - ${payload?.reason || 'Admin left the classroom'}`);
       onLeaveSession();
     });
 
-    socket.on('kicked', (payload: { reason?: string }) => {
+    listen('session_paused', (payload: { resumeBy: number }) => {
+      setPausedUntil(payload.resumeBy);
+    });
+
+    listen('session_resumed', () => {
+      setPausedUntil(null);
+    });
+
+    listen('host_transferred', (payload: { toUserId: string }) => {
+      if (payload.toUserId === socket.id) {
+        alert('You are now the host of this classroom');
+      }
+    });
+
+    listen('kicked', (payload: { reason?: string }) => {
       alert(payload?.reason || 'You were removed by the admin');
       onLeaveSession();
     });
 
-    socket.on('peer_joined', (data) => {
+    listen('peer_joined', (data) => {
       const { peerId, userName, userRole } = data;
       setVideoParticipants(prev => ({
         ...prev,
@@ -136,7 +491,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
       }));
     });
 
-    socket.on('peer_left', (data) => {
+    listen('peer_left', (data) => {
       const { peerId } = data;
       // Find and remove the peer by peerId
       setVideoParticipants(prev => {
@@ -152,207 +507,1350 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
     });
 
     return () => {
-      socket.off('join_success');
-      socket.off('user_joined');
-      socket.off('user_left');
-      socket.off('new_message');
-      socket.off('message_deleted');
-      socket.off('draw_data');
-      socket.off('clear_canvas');
-      socket.off('drawing_toggled');
-      socket.off('user_updated');
-      socket.off('session_ended');
-      socket.off('kicked');
-      socket.off('peer_joined');
-      socket.off('peer_left');
+      listeners.forEach(([event, handler]) => socket.off(event, handler));
     };
   }, [socket, onLeaveSession, localUserId]);
 
-  useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatMessages]);
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [chatMessages]);
+
+  // Tick the reconnect countdown while the session is paused
+  useEffect(() => {
+    if (!pausedUntil) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pausedUntil]);
+
+  // Tick the breakout countdown while groups are running
+  useEffect(() => {
+    if (!breakouts) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [breakouts]);
+
+  const formatCountdown = (until: number) => {
+    const seconds = Math.max(0, Math.ceil((until - now) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  const sendMessage = () => {
+    if (newMessage.trim()) {
+      socket.emit('chat_message', { message: newMessage });
+      setNewMessage('');
+    }
+  };
+
+  const deleteMessage = (messageId: string) => {
+    socket.emit('delete_message', { messageId });
+  };
+
+  // The wheel scrolls around the board; with Ctrl (or a trackpad pinch) it zooms around the pointer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = viewportRef.current;
+      const lines = e.deltaMode === 1 ? 16 : 1;
+      if (e.ctrlKey || e.metaKey) {
+        const delta = Math.max(-50, Math.min(50, e.deltaY * lines));
+        setViewportRef.current(zoomAround(current, toBoardPoint(canvas, e.clientX, e.clientY, current), Math.exp(-delta * 0.005)));
+      } else {
+        const scale = canvas.clientWidth * current.zoom;
+        setViewportRef.current({ ...current, x: current.x + (e.deltaX * lines) / scale, y: current.y + (e.deltaY * lines) / scale });
+      }
+    };
+    // Not passive, so the page itself does not scroll or zoom
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Stop animating the overlay and sending our cursor and changes once the board is gone
+  useEffect(() => {
+    const overlayFrame = overlayFrameRef;
+    const outboxFrame = outboxFrameRef;
+    const cursorTimer = cursorTimerRef;
+    return () => {
+      if (overlayFrame.current !== null) cancelAnimationFrame(overlayFrame.current);
+      if (outboxFrame.current !== null) cancelAnimationFrame(outboxFrame.current);
+      if (cursorTimer.current) clearTimeout(cursorTimer.current);
+    };
+  }, []);
+
+  // Fit the board to the space available and redraw it whenever that space changes
+  useEffect(() => {
+    const container = boardContainerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+
+    const observer = new ResizeObserver(() => {
+      const { width, height } = fitBoard(container.clientWidth, container.clientHeight);
+      sizeCanvas(canvas, width, height);
+      if (overlayRef.current) sizeCanvas(overlayRef.current, width, height);
+      setCanvasWidth(width);
+      renderBoardRef.current();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const clearCanvas = () => {
+    const canvas = canvasRef.current;
+    if (canvas) {
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        // Clear in device pixels; the board transform is restored afterwards. The canvas stays
+        // transparent so the page background (white or an uploaded image) shows through.
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.restore();
+      }
+    }
+  };
+
+  // Take the server's copy of the board, with our changes it has not acknowledged yet on top
+  const adoptBoard = (board: BoardState) => {
+    clockRef.current = Math.max(clockRef.current, board.clock);
+    tombstonesRef.current = tombstonesOf(board.deleted);
+    pagesRef.current = outboxRef.current.reduce((pages, { op }) => pages.map(page => (
+      page.id === op.pageId ? { ...page, objects: applyBoardOp(page.objects, op, tombstonesRef.current) } : page
+    )), board.pages);
+  };
+
+  // Show a board received from the server (on join or when changing breakout group)
+  const replayBoard = (board: BoardState) => {
+    adoptBoard(board);
+    setPages(pagesRef.current);
+    setHiddenAuthors(board.hiddenAuthors);
+    setHistory(emptyHistory());
+    const keepPage = board.pages.some(page => page.id === currentPageIdRef.current);
+    setView(board, keepPage ? currentPageIdRef.current : board.presenterPageId);
+  };
+
+  // Take in the room as it was when we joined. App only shows the classroom once the server
+  // has said we are in, so it passes on that join, and each one after a reconnection.
+  const applyJoin = (data: JoinData) => {
+    setUsers(data.users);
+    setChatMessages(data.chat);
+    setDrawingEnabled(data.drawingEnabled);
+    setPausedUntil(data.pausedUntil);
+    setSettings(data.settings);
+    setLobby(data.lobby);
+    setBreakouts(data.breakouts);
+    replayBoard(data.board);
+    setLocalUserId(socket.id || '');
+    // Back after a disconnection: send what was drawn meanwhile
+    joinedRef.current = true;
+    flushOutbox();
+  };
+  const applyJoinRef = useRef(applyJoin);
+  applyJoinRef.current = applyJoin;
+  useEffect(() => {
+    applyJoinRef.current(joinData);
+  }, [joinData]);
+
+  // Follow the teacher's page when asked to; otherwise stay on `fallbackPageId`
+  const setView = (view: { follow: boolean; presenterPageId: string }, fallbackPageId = currentPageIdRef.current) => {
+    boardViewRef.current = { follow: view.follow, presenterPageId: view.presenterPageId };
+    setBoardView(boardViewRef.current);
+    const following = view.follow && !isStaffRef.current;
+    showPage(following ? view.presenterPageId : fallbackPageId, false);
+  };
+
+  const currentObjects = () => pagesRef.current.find(page => page.id === currentPageIdRef.current)?.objects || [];
+  // What is on the current page for everyone to see
+  const shownObjects = () => withoutAuthors(currentObjects(), hiddenAuthorsRef.current);
+
+  const setHiddenAuthors = (authorIds: string[] = []) => {
+    hiddenAuthorsRef.current = authorIds;
+    setHiddenAuthorsState(authorIds);
+  };
+
+  const setPageObjects = (pageId: string, objects: BoardObject[], redraw = true) => {
+    pagesRef.current = pagesRef.current.map(page => (page.id === pageId ? { ...page, objects } : page));
+    // Thumbnails only need to catch up every so often, not on every stroke point
+    if (!thumbnailTimerRef.current) {
+      thumbnailTimerRef.current = setTimeout(() => {
+        thumbnailTimerRef.current = null;
+        setPages(pagesRef.current);
+      }, 500);
+    }
+    if (redraw && pageId === currentPageIdRef.current) renderBoard();
+  };
+
+  // Put a page on screen; staff who move around while presenting take the class with them
+  const showPage = (pageId: string, announce = true) => {
+    if (!pagesRef.current.some(page => page.id === pageId)) {
+      pageId = pagesRef.current[0]?.id || '';
+    }
+    const changed = pageId !== currentPageIdRef.current;
+    // Text being typed belongs to the page it was started on
+    if (changed) commitEditing();
+    currentPageIdRef.current = pageId;
+    setCurrentPageId(pageId);
+    if (changed) {
+      dragRef.current = null;
+      viewportRef.current = viewportsRef.current.get(pageId) || DEFAULT_VIEWPORT;
+      setViewportState(viewportRef.current);
+    }
+    if (announce && isStaffRef.current && changed) {
+      boardViewRef.current = { ...boardViewRef.current, presenterPageId: pageId };
+      setBoardView(boardViewRef.current);
+      socket.emit('board_navigate', { pageId });
+    }
+    selectObject(changed ? null : selectedIdRef.current);
+    requestOverlay();
+  };
+
+  const setHistory = (history: History) => {
+    historyRef.current = history;
+    setHistorySize({ undo: history.undo.length, redo: history.redo.length });
+  };
+
+  // Redraw every object; a gesture in progress is drawn in place of the object it changes
+  const renderBoard = () => {
+    clearCanvas();
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    applyViewport(ctx, viewportRef.current);
+
+    const drag = dragRef.current;
+    const preview = drag?.preview;
+    const objects = (preview && drag?.objectId
+      ? shownObjects().map(object => (object.id === preview.id ? preview : object))
+      : shownObjects()).filter(object => object.id !== editingRef.current?.object.id);
+    renderObjects(ctx, objects);
+    if (preview && !drag?.objectId) {
+      drawObject(ctx, preview);
+    }
+
+    const selected = objects.find(object => object.id === selectedIdRef.current);
+    if (selected) {
+      drawSelection(ctx, getBounds(selected), screenSize(10), turnHandle(selected));
+    }
+    requestOverlay();
+  };
+  const renderBoardRef = useRef(renderBoard);
+  renderBoardRef.current = renderBoard;
+
+  // Typeset the board's equations, chat formulas and the equation being typed once MathJax has loaded
+  useEffect(() => {
+    let live = true;
+    loadMath().then(() => {
+      if (!live) return;
+      setMathLoaded(true);
+      renderBoardRef.current();
+    }, () => {});
+    return () => {
+      live = false;
+    };
+  }, []);
+
+  // So many screen pixels in board units, whatever the zoom
+  const screenSize = (pixels: number) => toBoardSize(pixels) / viewportRef.current.zoom;
+
+  const setViewport = (next: Viewport) => {
+    viewportRef.current = next;
+    viewportsRef.current.set(currentPageIdRef.current, next);
+    setViewportState(next);
+    renderBoard();
+  };
+  const setViewportRef = useRef(setViewport);
+  setViewportRef.current = setViewport;
+
+  // Zoom in or out around the middle of the screen
+  const handleZoom = (factor: number) => {
+    const current = viewportRef.current;
+    const centre = { x: current.x + 1 / current.zoom / 2, y: current.y + BOARD_HEIGHT / current.zoom / 2 };
+    setViewport(zoomAround(current, centre, factor));
+  };
+
+  // Show everything on the page, or the page itself when it is empty
+  const handleZoomToFit = () => {
+    setViewport(fitViewport(contentBounds(shownObjects()) || { x: 0, y: 0, width: 1, height: BOARD_HEIGHT }));
+  };
+
+  const handleBringClassHere = () => {
+    socket.emit('board_viewport', { pageId: currentPageIdRef.current, viewport: viewportRef.current });
+  };
+
+  const selectObject = (id: string | null) => {
+    selectedIdRef.current = id;
+    setSelectedId(id);
+    renderBoard();
+  };
+
+  const applyRemoteOp = (op: PageOp) => {
+    clockRef.current = Math.max(clockRef.current, opCounter(op));
+    const page = pagesRef.current.find(item => item.id === op.pageId);
+    if (!page) return;
+    const objects = page.objects;
+    const next = applyBoardOp(objects, op, tombstonesRef.current);
+    if (next === objects) return;
+    setPageObjects(op.pageId, next, false);
+    if (op.pageId !== currentPageIdRef.current) return;
+    const changed = op.op === 'add' || op.op === 'restore' ? op.object : objects.find(object => object.id === op.id);
+    if (changed && hiddenAuthorsRef.current.includes(changed.authorId)) return;
+
+    // Strokes being drawn by someone else are extended in place instead of redrawing everything
+    const last = objects[objects.length - 1];
+    const ctx = canvasRef.current?.getContext('2d');
+    // Highlighter segments would darken where they overlap, so those are redrawn whole
+    if (op.op === 'append' && ctx && last && last.id === op.id && isStroke(last) && last.type !== 'highlighter' && !dragRef.current) {
+      drawStrokeSegment(ctx, currentObjects()[objects.length - 1] as StrokeObject, last.points.length / 2);
+      return;
+    }
+    // New objects usually go on top; ones made earlier, offline, slot in underneath and need a redraw
+    if (op.op === 'add' && ctx && next[next.length - 1] === op.object && !dragRef.current && !selectedIdRef.current) {
+      drawObject(ctx, op.object);
+      return;
+    }
+    if (op.op === 'delete' && op.id === selectedIdRef.current) {
+      selectObject(null);
+      return;
+    }
+    renderBoard();
+  };
+
+  const sendBoardOp = (change: BoardChange, pageId = currentPageIdRef.current) => {
+    const page = pagesRef.current.find(item => item.id === pageId);
+    if (!page) return;
+    const stamp = (): Stamp => [++clockRef.current, replicaRef.current];
+    const op = { ...stampChange(change, page.objects, stamp), pageId };
+    setPageObjects(pageId, applyBoardOp(page.objects, op, tombstonesRef.current), false);
+    outboxRef.current.push({ op, sent: false });
+    if (outboxFrameRef.current === null) {
+      outboxFrameRef.current = requestAnimationFrame(() => {
+        outboxFrameRef.current = null;
+        flushOutbox();
+      });
+    }
+  };
+
+  // Send the changes waiting to go, unless we are out of the room; each is kept until the
+  // server acknowledges it, and sent again after a disconnection. Points added to strokes go
+  // as binary batches (see whiteboard/wire.ts), everything else as it is, all in order.
+  const flushOutbox = () => {
+    if (!joinedRef.current || !socket.connected) return;
+    const acknowledge = (sent: PendingOp[]) => () => {
+      outboxRef.current = outboxRef.current.filter(item => !sent.includes(item));
+    };
+    let batch: PendingOp[] = [];
+    const sendBatch = () => {
+      if (batch.length === 0) return;
+      socket.emit('board_points', encodePoints(batch.map(pending => pending.op as PageAppend)), acknowledge(batch));
+      batch = [];
+    };
+    outboxRef.current.forEach((pending) => {
+      if (pending.sent) return;
+      pending.sent = true;
+      if (pending.op.op === 'append') {
+        batch.push(pending);
+        return;
+      }
+      sendBatch();
+      socket.emit('board_op', pending.op, acknowledge([pending]));
+    });
+    sendBatch();
+  };
+
+  // Objects we added that the server had not seen yet when it cleared or erased, which it will keep
+  const isPendingAdd = (object: BoardObject) => outboxRef.current.some(({ op }) => op.op === 'add' && op.object.id === object.id);
+
+  const canDrawOnBoard = isStaff || (drawingEnabled && (currentUser?.canDraw !== false));
+  // Students may only rework their own objects; staff may edit anything on the board that is not hidden
+  const canEditObject = (object: BoardObject) =>
+    canDrawOnBoard && (isStaff || object.authorId === currentUser?.accountId) && !hiddenAuthorsRef.current.includes(object.authorId);
+
+  const updateSelected = (changes: Partial<BoardObject>) => {
+    const selected = currentObjects().find(object => object.id === selectedIdRef.current);
+    if (selected && canEditObject(selected)) {
+      setHistory(record(historyRef.current, { kind: 'update', pageId: currentPageIdRef.current, id: selected.id, before: pickFields(selected, changes), after: changes }));
+      sendBoardOp({ op: 'update', id: selected.id, changes });
+      renderBoard();
+    }
+  };
+
+  const handleDeleteSelected = () => {
+    const selected = currentObjects().find(object => object.id === selectedIdRef.current);
+    if (selected) {
+      setHistory(record(historyRef.current, { kind: 'delete', pageId: currentPageIdRef.current, id: selected.id, object: selected }));
+      sendBoardOp({ op: 'delete', id: selected.id });
+      selectObject(null);
+    }
+  };
+
+  // Undo and redo only ever touch this user's own changes
+  const handleUndoRedo = (direction: 'undo' | 'redo') => {
+    const objectsOf = (pageId: string) => pagesRef.current.find(page => page.id === pageId)?.objects || null;
+    const { op, pageId, history } = step(historyRef.current, direction, objectsOf, replicaRef.current);
+    setHistory(history);
+    if (!op || !pageId) return;
+    sendBoardOp(op, pageId);
+    // Show the change, unless this student is held on the teacher's page
+    if (pageId !== currentPageIdRef.current && (isStaff || !boardViewRef.current.follow)) {
+      showPage(pageId);
+    } else if (op.op === 'delete' && op.id === selectedIdRef.current) {
+      selectObject(null);
+    } else {
+      renderBoard();
+    }
+  };
+
+  const selectedObject = () => currentObjects().find(object => object.id === selectedIdRef.current);
+
+  // A sticky note's colour is its paper, so it has its own palette
+  const handleColorChange = (color: string) => {
+    setCurrentColor(color);
+    if (selectedObject()?.type !== 'sticky') updateSelected({ color });
+  };
+
+  const handleStickyColorChange = (color: string) => {
+    setStickyColor(color);
+    if (selectedObject()?.type === 'sticky') updateSelected({ color });
+  };
+
+  const handleSizeChange = (size: number) => {
+    setBrushSize(size);
+    updateSelected({ size: toBoardSize(size) });
+  };
+
+  const handleFontSizeChange = (size: number) => {
+    setFontSize(size);
+    const selected = selectedObject();
+    if (selected && isTextual(selected)) updateSelected({ fontSize: toBoardSize(size) });
+    if (selected?.type === 'equation') updateSelected(equationSize(selected.latex, toBoardSize(size)));
+  };
+
+  const handlePlotChange = (changes: Partial<Pick<PlotObject, 'expression' | 'axes'>>) => {
+    setPlotSettings(current => ({ ...current, ...changes }));
+    if (selectedObject()?.type === 'plot') updateSelected(changes);
+  };
+
+  const handleFillChange = (fill: boolean) => {
+    setFillShapes(fill);
+    const selected = selectedObject();
+    if (selected && (selected.type === 'rect' || selected.type === 'circle' || selected.type === 'polygon')) updateSelected({ fill });
+  };
+
+  // Type into a text, sticky note or equation in place; the object is hidden on the board meanwhile
+  const startEditing = (object: TypedObject, isNew: boolean) => {
+    editingRef.current = { object, isNew, text: typedText(object) };
+    setEditing({ object, isNew });
+    setEditingText(typedText(object));
+    selectObject(null);
+  };
+
+  const handleEditingTextChange = (text: string) => {
+    if (editingRef.current) editingRef.current.text = text;
+    setEditingText(text);
+  };
+
+  // New text is only added once something was typed; emptying existing text deletes it
+  const commitEditing = () => {
+    const current = editingRef.current;
+    if (!current) return;
+    editingRef.current = null;
+    setEditing(null);
+    const pageId = currentPageIdRef.current;
+    const { object, isNew, text } = current;
+
+    if (object.type === 'equation') {
+      commitEquation(object, isNew, text);
+    } else if (isNew) {
+      if (object.type === 'sticky' || text.trim()) {
+        setHistory(record(historyRef.current, { kind: 'add', pageId, id: object.id }));
+        sendBoardOp({ op: 'add', object: { ...object, text } });
+      }
+    } else {
+      const existing = currentObjects().find(item => item.id === object.id);
+      if (existing && isTextual(existing) && existing.type === 'text' && !text.trim()) {
+        setHistory(record(historyRef.current, { kind: 'delete', pageId, id: existing.id, object: existing }));
+        sendBoardOp({ op: 'delete', id: existing.id });
+      } else if (existing && isTextual(existing) && existing.text !== text) {
+        const changes = { text };
+        setHistory(record(historyRef.current, { kind: 'update', pageId, id: existing.id, before: pickFields(existing, changes), after: changes }));
+        sendBoardOp({ op: 'update', id: existing.id, changes });
+      }
+    }
+    renderBoard();
+  };
+
+  // An equation's box fits its typeset LaTeX at the size the equation was drawn at; like text, an
+  // equation emptied of LaTeX goes
+  const commitEquation = (equation: EquationObject, isNew: boolean, latex: string) => {
+    const pageId = currentPageIdRef.current;
+    if (isNew) {
+      if (!latex.trim()) return;
+      setHistory(record(historyRef.current, { kind: 'add', pageId, id: equation.id }));
+      sendBoardOp({ op: 'add', object: { ...equation, latex, ...equationSize(latex, equationEm(equation)) } });
+      return;
+    }
+    const existing = currentObjects().find(item => item.id === equation.id);
+    if (existing?.type !== 'equation' || existing.latex === latex) return;
+    if (!latex.trim()) {
+      setHistory(record(historyRef.current, { kind: 'delete', pageId, id: existing.id, object: existing }));
+      sendBoardOp({ op: 'delete', id: existing.id });
+      return;
+    }
+    const changes = { latex, ...equationSize(latex, equationEm(existing)) };
+    setHistory(record(historyRef.current, { kind: 'update', pageId, id: existing.id, before: pickFields(existing, changes), after: changes }));
+    sendBoardOp({ op: 'update', id: existing.id, changes });
+  };
+
+  const cancelEditing = () => {
+    editingRef.current = null;
+    setEditing(null);
+    renderBoard();
+  };
+
+  // A polygon is finished on its first point, with a double click or with Enter
+  const finishPolygon = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode !== 'polygon' || drag.preview?.type !== 'polygon') return;
+
+    // Drop the point following the cursor, and the repeated point a double click leaves
+    const points = drag.preview.points.slice(0, -2);
+    const vertices: number[] = [];
+    for (let i = 0; i < points.length; i += 2) {
+      const previous = vertices.length - 2;
+      if (previous < 0 || Math.hypot(points[i] - vertices[previous], points[i + 1] - vertices[previous + 1]) > screenSize(3)) {
+        vertices.push(points[i], points[i + 1]);
+      }
+    }
+    if (vertices.length >= 6) {
+      const polygon: PolygonObject = { ...drag.preview, points: vertices };
+      setHistory(record(historyRef.current, { kind: 'add', pageId: currentPageIdRef.current, id: polygon.id }));
+      sendBoardOp({ op: 'add', object: polygon });
+    }
+    renderBoard();
+  };
+
+  // Switching tools abandons a polygon that was never finished
+  useEffect(() => {
+    if (dragRef.current?.mode === 'polygon') {
+      dragRef.current = null;
+      renderBoardRef.current();
+    }
+  }, [tool]);
+
+  // Board shortcuts (unless typing in a field): Delete/Backspace removes the selected object,
+  // Ctrl+Z undoes, Ctrl+Y or Ctrl+Shift+Z redoes, Enter and Escape finish or drop a polygon
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        e.preventDefault();
+        handleUndoRedo(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+      } else if ((e.key === 'Enter' || e.key === 'Escape') && dragRef.current?.mode === 'polygon') {
+        e.preventDefault();
+        if (e.key === 'Enter') {
+          finishPolygon();
+        } else {
+          dragRef.current = null;
+          renderBoard();
+        }
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIdRef.current) {
+        e.preventDefault();
+        handleDeleteSelected();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Take back whatever a finger had started drawing when it turns out to be part of a gesture
+  const cancelTouchDrawing = () => {
+    const drag = dragRef.current;
+    if (drawingPointerRef.current === null || !touchesRef.current.has(drawingPointerRef.current)) return;
+    if (drag?.mode === 'stroke' && drag.preview && !drag.held) sendBoardOp({ op: 'delete', id: drag.preview.id });
+    if (drag?.mode === 'snapped' && drag.objectId) sendBoardOp({ op: 'delete', id: drag.objectId });
+    stopSnapWait();
+    dragRef.current = null;
+    drawingPointerRef.current = null;
+    setIsDrawing(false);
+    renderBoard();
+  };
+
+  const touchCentre = () => {
+    const touches = Array.from(touchesRef.current.values());
+    return {
+      x: touches.reduce((sum, touch) => sum + touch.x, 0) / touches.length,
+      y: touches.reduce((sum, touch) => sum + touch.y, 0) / touches.length
+    };
+  };
+
+  const touchSpread = () => {
+    const centre = touchCentre();
+    const touches = Array.from(touchesRef.current.values());
+    return touches.reduce((sum, touch) => sum + Math.hypot(touch.x - centre.x, touch.y - centre.y), 0) / touches.length;
+  };
+
+  // Fingers going down or lifting start the pan and zoom afresh from where the board is now
+  const restartGesture = (gesture: Gesture) => {
+    gesture.fingers = Math.max(gesture.fingers, touchesRef.current.size);
+    gesture.from = { viewport: viewportRef.current, centre: touchCentre(), spread: touchSpread() };
+  };
+
+  // Moving the fingers drags the board along; spreading or pinching them zooms around them
+  const moveGesture = (gesture: Gesture) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const { viewport: from, centre, spread } = gesture.from;
+    const now = touchCentre();
+    const anchor = toBoardPoint(canvas, centre.x, centre.y, from);
+    const zoomed = zoomAround(from, anchor, spread > 0 ? touchSpread() / spread : 1);
+    const scale = canvas.clientWidth * zoomed.zoom;
+    gesture.moved = Math.max(gesture.moved, Math.hypot(now.x - centre.x, now.y - centre.y), Math.abs(touchSpread() - spread));
+    setViewport({ ...zoomed, x: zoomed.x - (now.x - centre.x) / scale, y: zoomed.y - (now.y - centre.y) / scale });
+  };
+
+  // Once every finger has lifted: a quick two-finger tap undoes, three fingers redo
+  const finishGesture = (gesture: Gesture) => {
+    if (Date.now() - gesture.startedAt < TAP_DURATION && gesture.moved < TAP_DISTANCE) {
+      if (gesture.fingers === 2) handleUndoRedo('undo');
+      if (gesture.fingers === 3) handleUndoRedo('redo');
+    }
+  };
+
+  // Redraw cursors and laser trails on the next frame, and keep doing so while a trail fades
+  const requestOverlay = () => {
+    if (overlayFrameRef.current === null) overlayFrameRef.current = requestAnimationFrame(paintOverlay);
+  };
+
+  const paintOverlay = () => {
+    overlayFrameRef.current = null;
+    const overlay = overlayRef.current;
+    const canvas = canvasRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !canvas || !ctx) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    // The overlay covers the board canvas border and all, so measure from its content box
+    const ratio = overlay.width / (overlay.clientWidth || 1);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    const viewport = viewportRef.current;
+    const scale = canvas.clientWidth * viewport.zoom;
+    const project = (point: BoardPoint) => ({
+      x: canvas.clientLeft + (point.x - viewport.x) * scale,
+      y: canvas.clientTop + (point.y - viewport.y) * scale
+    });
+
+    const now = Date.now();
+    const pageId = currentPageIdRef.current;
+    let fading = false;
+    laserTrailsRef.current.forEach((trail, id) => {
+      if (!isFading(trail, now)) {
+        laserTrailsRef.current.delete(id);
+        return;
+      }
+      fading = true;
+      if (trail.pageId === pageId) drawLaserTrail(ctx, trail, project, now);
+    });
+    // Laser pointers show whether or not cursors are switched on
+    cursorsRef.current.forEach((cursor, id) => {
+      if (cursor.pageId !== pageId || !(cursor.laser || showCursorsRef.current)) return;
+      const name = showCursorsRef.current ? usersRef.current[id]?.name || '' : '';
+      drawCursor(ctx, cursor, project, name, cursorColor(id));
+    });
+    if (fading) requestOverlay();
+  };
+
+  const receiveCursor = (data: { userId: string; pageId: string; point: BoardPoint | null; laser: boolean }) => {
+    if (!data.point) {
+      cursorsRef.current.delete(data.userId);
+    } else {
+      cursorsRef.current.set(data.userId, { pageId: data.pageId, point: data.point, laser: data.laser });
+      if (data.laser) {
+        laserTrailsRef.current.set(data.userId, extendTrail(laserTrailsRef.current.get(data.userId), data.pageId, data.point, Date.now()));
+      }
+    }
+    requestOverlay();
+  };
+
+  const flushCursor = () => {
+    cursorTimerRef.current = null;
+    const cursor = pendingCursorRef.current;
+    pendingCursorRef.current = null;
+    if (!cursor) return;
+    cursorSentAtRef.current = Date.now();
+    cursorSharedRef.current = !!cursor.point;
+    // Positions that cannot keep up are dropped; the one hiding the cursor must arrive
+    (cursor.point ? socket.volatile : socket).emit('board_cursor', cursor);
+  };
+
+  // Share where our pointer is (null once it leaves the board) while live cursors are on or the
+  // laser is in hand, no more than once every CURSOR_INTERVAL_MS. The last position always goes out.
+  const shareCursor = (point: BoardPoint | null) => {
+    const laser = tool === 'laser' && isStaff;
+    if (laser && point) {
+      laserTrailsRef.current.set(LOCAL_TRAIL, extendTrail(laserTrailsRef.current.get(LOCAL_TRAIL), currentPageIdRef.current, point, Date.now()));
+      requestOverlay();
+    }
+    const shown = showCursors || laser ? point : null;
+    if (!shown && !cursorSharedRef.current && !cursorTimerRef.current) return;
+
+    pendingCursorRef.current = { pageId: currentPageIdRef.current, point: shown, laser };
+    if (cursorTimerRef.current) return;
+    const wait = shown ? cursorSentAtRef.current + CURSOR_INTERVAL_MS - Date.now() : 0;
+    if (wait > 0) {
+      cursorTimerRef.current = setTimeout(flushCursor, wait);
+    } else {
+      flushCursor();
+    }
+  };
+
+  const handleShowCursorsChange = (show: boolean) => {
+    setShowCursors(show);
+    showCursorsRef.current = show;
+    if (!show) shareCursor(null);
+    requestOverlay();
+  };
+
+  const handleCanvasPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    skipClickRef.current = false;
+
+    // Palm rejection: contacts the size of a hand are ignored, and once a stylus has been
+    // used on the board fingers no longer draw, they only pan and zoom. Two fingers always
+    // do, and so does one finger for anyone who cannot draw or has the pan tool.
+    if (e.pointerType === 'pen') penSeenRef.current = true;
+    if (e.pointerType === 'touch') {
+      if (e.width > PALM_CONTACT_SIZE || e.height > PALM_CONTACT_SIZE) return;
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touchesRef.current.size >= 2 || penSeenRef.current || !canDrawOnBoard || tool === 'pan') {
+        cancelTouchDrawing();
+        if (drawingPointerRef.current !== null) return;
+        if (gestureRef.current) {
+          restartGesture(gestureRef.current);
+        } else {
+          gestureRef.current = { startedAt: Date.now(), fingers: 0, moved: 0, from: { viewport: viewportRef.current, centre: touchCentre(), spread: 0 } };
+          restartGesture(gestureRef.current);
+        }
+        return;
+      }
+    }
+    if (drawingPointerRef.current !== null) return;
+
+    const point = toBoardPoint(canvas, e.clientX, e.clientY, viewportRef.current);
+
+    // The middle button or the pan tool drags the board around, as does anyone who cannot draw.
+    // Either way, keep receiving this pointer's events even when it strays off the board.
+    if (tool === 'pan' || e.button === 1 || (e.button === 0 && !canDrawOnBoard)) {
+      e.preventDefault();
+      drawingPointerRef.current = e.pointerId;
+      canvas.setPointerCapture(e.pointerId);
+      dragRef.current = { mode: 'pan', start: point, panFrom: { x: e.clientX, y: e.clientY, viewport: viewportRef.current } };
+      return;
+    }
+    // The laser only points; its trail follows the pointer whether or not a button is down
+    if (!canDrawOnBoard || e.button !== 0 || tool === 'laser') return;
+
+    // A click outside the text being edited only finishes it
+    if (editingRef.current) {
+      skipClickRef.current = true;
+      commitEditing();
+      return;
+    }
+    // Text, sticky notes, equations and plots are placed on click, once the pointer has let go
+    if (tool === 'text' || tool === 'sticky' || tool === 'equation' || tool === 'plot') return;
+
+    drawingPointerRef.current = e.pointerId;
+    canvas.setPointerCapture(e.pointerId);
+    const style = { color: currentColor, size: toBoardSize(brushSize), authorId: currentUser?.accountId || '', authorName: userName };
+    const tolerance = screenSize(6);
+
+    if (tool === 'select') {
+      const selected = selectedObject();
+      if (selected) {
+        const bounds = getBounds(selected);
+        const turn = turnHandle(selected);
+        if (turn && Math.hypot(point.x - turn.x, point.y - turn.y) <= tolerance * 2) {
+          dragRef.current = { mode: 'turn', start: point, objectId: selected.id, bounds };
+          setIsDrawing(true);
+          return;
+        }
+        const handleX = bounds.x + bounds.width;
+        const handleY = bounds.y + bounds.height;
+        if (Math.abs(point.x - handleX) <= tolerance * 2 && Math.abs(point.y - handleY) <= tolerance * 2) {
+          dragRef.current = { mode: 'resize', start: point, objectId: selected.id, bounds };
+          setIsDrawing(true);
+          return;
+        }
+      }
+
+      const hit = hitTest(currentObjects().filter(canEditObject), point, tolerance);
+      selectObject(hit ? hit.id : null);
+      if (hit) {
+        dragRef.current = { mode: 'move', start: point, objectId: hit.id, bounds: getBounds(hit) };
+        setIsDrawing(true);
+      }
+      return;
+    }
+
+    if (tool === 'polygon') {
+      const drag = dragRef.current;
+      if (drag?.mode === 'polygon' && drag.preview?.type === 'polygon') {
+        const points = drag.preview.points.slice(0, -2);
+        if (points.length >= 6 && Math.hypot(point.x - points[0], point.y - points[1]) <= tolerance * 2) {
+          finishPolygon();
+          return;
+        }
+        drag.preview = { ...drag.preview, points: [...points, point.x, point.y, point.x, point.y] };
+      } else {
+        selectObject(null);
+        dragRef.current = {
+          mode: 'polygon',
+          start: point,
+          preview: { id: newObjectId(), type: 'polygon', points: [point.x, point.y, point.x, point.y], fill: fillShapes, ...style }
+        };
+      }
+      renderBoard();
+      return;
+    }
+
+    selectObject(null);
+    setIsDrawing(true);
+
+    if (tool === 'pen' || tool === 'eraser' || tool === 'highlighter') {
+      // Highlighters are broad, translucent strokes
+      const size = tool === 'highlighter' ? toBoardSize(brushSize * 4) : style.size;
+      // Pen strokes drawn with a stylus follow its pressure
+      const pressures = tool === 'pen' && e.pointerType === 'pen' ? { pressures: [e.pressure] } : {};
+      const stroke: StrokeObject = { id: newObjectId(), type: tool, points: [point.x, point.y], ...pressures, ...style, size };
+      const held = tool === 'pen' && snapShapes;
+      dragRef.current = { mode: 'stroke', start: point, preview: stroke, held };
+      if (held) {
+        waitForSnap(point);
+      } else {
+        sendBoardOp({ op: 'add', object: stroke });
+      }
+      const ctx = canvas.getContext('2d');
+      if (ctx) drawObject(ctx, stroke);
+      return;
+    }
+
+    const fill = tool === 'rect' || tool === 'circle' ? { fill: fillShapes } : {};
+    dragRef.current = {
+      mode: 'shape',
+      start: point,
+      preview: { id: newObjectId(), type: tool, x1: point.x, y1: point.y, x2: point.x, y2: point.y, ...fill, ...style }
+    };
+  };
+
+  // Holding the pen still for a moment turns the stroke so far into the shape it looks like,
+  // if it looks like one. Nobody else has seen the stroke, so the shape goes as an ordinary add.
+  const waitForSnap = (point: BoardPoint) => {
+    const anchor = snapAnchorRef.current;
+    // A hand held still still trembles a little
+    if (anchor && Math.hypot(point.x - anchor.x, point.y - anchor.y) < screenSize(4)) return;
+    stopSnapWait();
+    snapAnchorRef.current = point;
+    snapTimerRef.current = setTimeout(snapStroke, SNAP_PAUSE);
+  };
+
+  const stopSnapWait = () => {
+    if (snapTimerRef.current) clearTimeout(snapTimerRef.current);
+    snapTimerRef.current = null;
+    snapAnchorRef.current = null;
+  };
+
+  const snapStroke = () => {
+    snapTimerRef.current = null;
+    const drag = dragRef.current;
+    if (drag?.mode !== 'stroke' || !drag.held || drag.preview?.type !== 'pen') return;
+    const stroke = drag.preview;
+    const recognized = recognizeShape(stroke.points);
+    if (!recognized) return;
+    const { color, size, authorId, authorName } = stroke;
+    const shape = { id: newObjectId(), ...recognized, color, size, authorId, authorName } as BoardObject;
+    sendBoardOp({ op: 'add', object: shape });
+    dragRef.current = { mode: 'snapped', start: drag.start, objectId: shape.id };
+    renderBoard();
+  };
+
+  const toggleSnapShapes = (enabled: boolean) => {
+    setSnapShapes(enabled);
+    localStorage.setItem('snapShapes', enabled ? 'on' : 'off');
+  };
+
+  const handleCanvasPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const touch = touchesRef.current.get(e.pointerId);
+    if (touch) {
+      touch.x = e.clientX;
+      touch.y = e.clientY;
+    }
+    if (gestureRef.current) {
+      if (touch) moveGesture(gestureRef.current);
+      return;
+    }
+
+    const drag = dragRef.current;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const point = toBoardPoint(canvas, e.clientX, e.clientY, viewportRef.current);
+    shareCursor(point);
+    // Staff can hover over anything to see who drew it
+    if (!drag && isStaff) {
+      const hit = hitTest(shownObjects(), point, screenSize(6));
+      canvas.title = hit ? `Drawn by ${hit.authorName}` : '';
+    }
+    // Only the pointer that started drawing draws; a polygon's last point follows any pointer
+    if (!drag || (e.pointerId !== drawingPointerRef.current && drag.mode !== 'polygon')) return;
+
+    if (drag.mode === 'pan' && drag.panFrom) {
+      const { x, y, viewport: from } = drag.panFrom;
+      const scale = canvas.clientWidth * from.zoom;
+      setViewport({ ...from, x: from.x - (e.clientX - x) / scale, y: from.y - (e.clientY - y) / scale });
+      return;
+    }
+
+    if (drag.mode === 'stroke' && drag.preview) {
+      const stroke = drag.held ? drag.preview : currentObjects().find(object => object.id === drag.preview!.id);
+      if (!stroke || !isStroke(stroke)) return;
+      // Browsers batch fast pointer movement into one event; the points in between keep
+      // handwriting legible. Points closer than a pixel to the last one add nothing.
+      const samples = e.nativeEvent.getCoalescedEvents?.() || [];
+      const points: number[] = [];
+      const pressures: number[] = [];
+      let last = { x: stroke.points[stroke.points.length - 2], y: stroke.points[stroke.points.length - 1] };
+      (samples.length ? samples : [e.nativeEvent]).forEach((sample) => {
+        const next = toBoardPoint(canvas, sample.clientX, sample.clientY, viewportRef.current);
+        if (Math.hypot(next.x - last.x, next.y - last.y) < screenSize(1)) return;
+        points.push(quantize(next.x), quantize(next.y));
+        pressures.push(quantizePressure(sample.pressure));
+        last = next;
+      });
+      if (points.length === 0) return;
+      if (drag.held) {
+        waitForSnap(last);
+        drag.preview = { ...stroke, points: [...stroke.points, ...points], ...(stroke.pressures ? { pressures: [...stroke.pressures, ...pressures] } : {}) };
+      } else {
+        sendBoardOp({ op: 'append', id: stroke.id, points, ...(stroke.pressures ? { pressures } : {}) });
+      }
+      const ctx = canvas.getContext('2d');
+      const extended = (drag.held ? drag.preview : currentObjects().find(object => object.id === stroke.id)) as StrokeObject;
+      if (stroke.type === 'highlighter') {
+        renderBoard();
+      } else if (ctx) {
+        drawStrokeSegment(ctx, extended, stroke.points.length / 2);
+      }
+      return;
+    }
+
+    // A stroke that snapped into a shape stays as it snapped
+    if (drag.mode === 'snapped') return;
+
+    // Turning an instrument moves the far end of its edge, so it can be laid at any angle and length
+    if (drag.mode === 'turn') {
+      const object = currentObjects().find(item => item.id === drag.objectId);
+      if (!object || !isInstrument(object)) return;
+      let end = point;
+      if (e.shiftKey) {
+        const step = (TURN_STEP * Math.PI) / 180;
+        const angle = Math.round(Math.atan2(point.y - object.y1, point.x - object.x1) / step) * step;
+        const length = Math.hypot(point.x - object.x1, point.y - object.y1);
+        end = { x: object.x1 + length * Math.cos(angle), y: object.y1 + length * Math.sin(angle) };
+      }
+      drag.changes = { x2: end.x, y2: end.y };
+      drag.preview = { ...object, ...drag.changes } as BoardObject;
+      renderBoard();
+      return;
+    }
+
+    if (drag.mode === 'shape' && drag.preview) {
+      drag.preview = { ...drag.preview, x2: point.x, y2: point.y } as BoardObject;
+      renderBoard();
+      return;
+    }
+
+    // The last point of a polygon being drawn follows the cursor
+    if (drag.mode === 'polygon' && drag.preview?.type === 'polygon') {
+      drag.preview = { ...drag.preview, points: [...drag.preview.points.slice(0, -2), point.x, point.y] };
+      renderBoard();
+      return;
+    }
+
+    const object = currentObjects().find(item => item.id === drag.objectId);
+    if (!object || !drag.bounds) return;
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+    const target = drag.mode === 'move'
+      ? { ...drag.bounds, x: drag.bounds.x + dx, y: drag.bounds.y + dy }
+      : { ...drag.bounds, width: Math.max(screenSize(4), drag.bounds.width + dx), height: Math.max(screenSize(4), drag.bounds.height + dy) };
+    drag.changes = transformObject(object, drag.bounds, target);
+    drag.preview = { ...object, ...drag.changes } as BoardObject;
+    renderBoard();
+  };
+
+  const handleCanvasPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const wasTouch = touchesRef.current.delete(e.pointerId);
+    const gesture = gestureRef.current;
+    if (wasTouch && gesture) {
+      if (touchesRef.current.size === 0) {
+        gestureRef.current = null;
+        finishGesture(gesture);
+      } else {
+        restartGesture(gesture);
+      }
+      return;
+    }
+    if (e.pointerId !== drawingPointerRef.current) return;
+    drawingPointerRef.current = null;
+
+    const drag = dragRef.current;
+    setIsDrawing(false);
+    stopSnapWait();
+    // Polygons take several clicks
+    if (drag?.mode === 'polygon') return;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (drag.mode === 'stroke' && drag.preview) {
+      // Held back in case it was a shape, and it was not
+      if (drag.held) sendBoardOp({ op: 'add', object: drag.preview });
+      setHistory(record(historyRef.current, { kind: 'add', pageId: currentPageIdRef.current, id: drag.preview.id }));
+    } else if (drag.mode === 'snapped' && drag.objectId) {
+      setHistory(record(historyRef.current, { kind: 'add', pageId: currentPageIdRef.current, id: drag.objectId }));
+    } else if (drag.mode === 'shape' && drag.preview) {
+      let shape = drag.preview;
+      // A click with the ruler or protractor lays one down level, at its usual size
+      if (isInstrument(shape) && Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1) < screenSize(4)) {
+        shape = { ...shape, x2: shape.x1 + INSTRUMENT_LENGTH[shape.type], y2: shape.y1 };
+      }
+      setHistory(record(historyRef.current, { kind: 'add', pageId: currentPageIdRef.current, id: shape.id }));
+      sendBoardOp({ op: 'add', object: shape });
+    } else if ((drag.mode === 'move' || drag.mode === 'resize' || drag.mode === 'turn') && drag.changes && drag.objectId) {
+      const object = currentObjects().find(item => item.id === drag.objectId);
+      const changes = drag.changes;
+      if (object) {
+        setHistory(record(historyRef.current, { kind: 'update', pageId: currentPageIdRef.current, id: object.id, before: pickFields(object, changes), after: changes }));
+        sendBoardOp({ op: 'update', id: object.id, changes });
+      }
+    }
+    renderBoard();
+  };
 
-  const sendMessage = () => {
-    if (newMessage.trim()) {
-      socket.emit('chat_message', { message: newMessage });
-      setNewMessage('');
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (skipClickRef.current) {
+      skipClickRef.current = false;
+      return;
+    }
+    if (!canDrawOnBoard || !canvas || (tool !== 'text' && tool !== 'sticky' && tool !== 'equation' && tool !== 'plot')) return;
+
+    const point = toBoardPoint(canvas, e.clientX, e.clientY, viewportRef.current);
+    const style = { color: currentColor, size: toBoardSize(brushSize), authorId: currentUser?.accountId || '', authorName: userName };
+    const hit = hitTest(currentObjects().filter(canEditObject), point, screenSize(6));
+    if (tool === 'plot') {
+      // Clicking a plot picks it to change; anywhere else puts a new one there
+      if (hit?.type === 'plot') {
+        selectObject(hit.id);
+        return;
+      }
+      const plot: PlotObject = { id: newObjectId(), type: 'plot', x: point.x, y: point.y, width: PLOT_SIZE, height: PLOT_SIZE, ...plotSettings, ...style };
+      setHistory(record(historyRef.current, { kind: 'add', pageId: currentPageIdRef.current, id: plot.id }));
+      sendBoardOp({ op: 'add', object: plot });
+      selectObject(plot.id);
+      return;
+    }
+    if (hit && isTyped(hit)) {
+      startEditing(hit, false);
+    } else if (tool === 'text') {
+      startEditing({ id: newObjectId(), type: 'text', x: point.x, y: point.y, text: '', fontSize: toBoardSize(fontSize), ...style }, true);
+    } else if (tool === 'equation') {
+      // Sized once there is LaTeX to typeset; until then its height holds the font size
+      const em = toBoardSize(fontSize);
+      startEditing({ id: newObjectId(), type: 'equation', x: point.x, y: point.y, width: em, height: em * LINE_HEIGHT, latex: '', ...style }, true);
+    } else {
+      startEditing({
+        id: newObjectId(),
+        type: 'sticky',
+        x: point.x,
+        y: point.y,
+        width: 0.2,
+        height: 0.15,
+        text: '',
+        fontSize: toBoardSize(fontSize),
+        ...style,
+        color: stickyColor
+      }, true);
     }
   };
 
-  const deleteMessage = (messageId: string) => {
-    socket.emit('delete_message', { messageId });
+  // Double-clicking text or an equation with the select tool edits it; on a polygon it finishes the shape
+  const handleCanvasDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canDrawOnBoard || !canvas) return;
+    if (tool === 'polygon') {
+      finishPolygon();
+      return;
+    }
+    if (tool !== 'select') return;
+    const hit = hitTest(currentObjects().filter(canEditObject), toBoardPoint(canvas, e.clientX, e.clientY, viewportRef.current), screenSize(6));
+    if (hit && isTyped(hit)) startEditing(hit, false);
   };
 
-  const clearCanvas = () => {
+  // Lay the editor over the object it edits, at the size the board is drawn on screen
+  const editorStyle = (object: TypedObject): React.CSSProperties => {
     const canvas = canvasRef.current;
-    if (canvas) {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const container = boardContainerRef.current;
+    if (!canvas || !container) return { display: 'none' };
+    const canvasBox = canvas.getBoundingClientRect();
+    const containerBox = container.getBoundingClientRect();
+    const scale = canvas.clientWidth * viewport.zoom;
+    const left = canvasBox.left - containerBox.left + canvas.clientLeft + (object.x - viewport.x) * scale;
+    const top = canvasBox.top - containerBox.top + canvas.clientTop + (object.y - viewport.y) * scale;
+    if (object.type === 'equation') {
+      // LaTeX is typed at a readable size whatever the zoom
+      return {
+        left,
+        top,
+        width: '34ch',
+        height: EQUATION_EDITOR_HEIGHT,
+        padding: 4,
+        fontFamily: 'monospace',
+        fontSize: 13,
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        color: '#111827'
+      };
+    }
+    const font = { fontFamily: 'sans-serif', fontSize: object.fontSize * scale, lineHeight: LINE_HEIGHT };
+
+    if (object.type === 'sticky') {
+      return {
+        ...font,
+        left,
+        top,
+        width: object.width * scale,
+        height: object.height * scale,
+        padding: stickyPadding(object) * scale,
+        backgroundColor: object.color,
+        color: STICKY_TEXT_COLOR
+      };
+    }
+    const lines = editingText.split('\n');
+    return {
+      ...font,
+      left,
+      top,
+      width: `${Math.max(8, ...lines.map(line => line.length)) + 2}ch`,
+      height: `${lines.length * LINE_HEIGHT + 0.2}em`,
+      padding: 0,
+      backgroundColor: 'rgba(255, 255, 255, 0.6)',
+      color: object.color
+    };
+  };
+
+  // The equation being typed as it will look, or what is wrong with its LaTeX
+  const equationPreview = (equation: EquationObject) => {
+    const position = editorStyle(equation);
+    const style = { left: position.left, top: Number(position.top) + EQUATION_EDITOR_HEIGHT + 4 };
+    let content: React.ReactNode = <span className="text-gray-500">The equation shows here as you type</span>;
+    if (editingText.trim()) {
+      try {
+        const formula = renderMath(editingText);
+        content = <img alt="" src={mathImageUrl(formula, equation.color)} style={{ height: `${formulaSize(formula).height * 1.5}em`, maxWidth: '60ch' }} />;
+      } catch (err: any) {
+        content = <span className="text-red-600">{err.message}</span>;
       }
     }
+    return (
+      <div style={style} className="absolute z-10 pointer-events-none rounded bg-white/95 px-2 py-1 text-xs shadow">
+        {content}
+      </div>
+    );
   };
 
-  const drawOnCanvas = (data: any) => {
-    const canvas = canvasRef.current;
-    if (canvas && data) {
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
+  const handleClearCanvas = () => {
+    socket.emit('clear_canvas', { pageId: currentPageIdRef.current });
+  };
 
-      const toolType: 'pen' | 'eraser' | 'line' | 'rect' | 'circle' = data.tool || (data.type === 'erase' ? 'eraser' : 'pen');
+  const handleModerateAuthor = (action: 'hide' | 'show' | 'erase', authorId: string, authorName: string) => {
+    if (action === 'erase' && !window.confirm(`Erase everything ${authorName} has drawn, on every page? This cannot be undone.`)) return;
+    socket.emit('board_moderate', { action, authorId });
+  };
 
-      ctx.lineWidth = data.size || brushSize;
-      ctx.lineCap = 'round';
+  const handleAddPage = () => {
+    addingPagesRef.current++;
+    socket.emit('board_page', { action: 'add', afterPageId: currentPageIdRef.current });
+  };
 
-      if (toolType === 'pen' || toolType === 'eraser') {
-        ctx.globalCompositeOperation = toolType === 'eraser' ? 'destination-out' : 'source-over';
-        ctx.strokeStyle = data.color || currentColor;
-        ctx.beginPath();
-        ctx.moveTo(data.fromX, data.fromY);
-        ctx.lineTo(data.toX, data.toY);
-        ctx.stroke();
-        ctx.globalCompositeOperation = 'source-over';
-        return;
-      }
+  const handleDeletePage = () => {
+    if (pages.length > 1 && window.confirm('Delete this page and everything on it?')) {
+      socket.emit('board_page', { action: 'delete', pageId: currentPageIdRef.current });
+    }
+  };
 
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.strokeStyle = data.color || currentColor;
-      const x1 = data.fromX, y1 = data.fromY, x2 = data.toX, y2 = data.toY;
-      const w = x2 - x1, h = y2 - y1;
-
-      ctx.beginPath();
-      if (toolType === 'line') {
-        ctx.moveTo(x1, y1);
-        ctx.lineTo(x2, y2);
-      } else if (toolType === 'rect') {
-        ctx.rect(x1, y1, w, h);
-      } else if (toolType === 'circle') {
-        const rx = w / 2;
-        const ry = h / 2;
-        const cx = x1 + rx;
-        const cy = y1 + ry;
-        const radius = Math.sqrt(rx * rx + ry * ry);
-        ctx.arc(cx, cy, Math.abs(radius), 0, Math.PI * 2);
-      }
-      ctx.stroke();
+  const handleMovePage = (offset: number) => {
+    const index = pages.findIndex(page => page.id === currentPageId);
+    const toIndex = index + offset;
+    if (index >= 0 && toIndex >= 0 && toIndex < pages.length) {
+      socket.emit('board_page', { action: 'move', pageId: currentPageId, toIndex });
+    }
+  };
+
+  // Exports take the page on screen (PNG, SVG) or the whole board (PDF)
+  const handleExport = async (format: 'png' | 'svg' | 'pdf') => {
+    // Exports show the board as everyone sees it
+    const pages = pagesRef.current.map(page => ({ ...page, objects: withoutAuthors(page.objects, hiddenAuthorsRef.current) }));
+    const index = pages.findIndex(page => page.id === currentPageIdRef.current);
+    const page = pages[index];
+    try {
+      if (format === 'png' && page) await exportPng(page, `${roomId}-page-${index + 1}.png`, uploadUrl);
+      if (format === 'svg' && page) await exportSvg(page, `${roomId}-page-${index + 1}.svg`, uploadUrl);
+      if (format === 'pdf') await exportPdf(pages, `${roomId}-board.pdf`, uploadUrl);
+    } catch (error: any) {
+      alert(error.message || 'Export failed');
     }
   };
 
-  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const currentUser = users[localUserId];
-    console.log('Drawing check:', {
-      userRole,
-      drawingEnabled,
-      localUserId,
-      currentUser: currentUser?.name,
-      canDraw: currentUser?.canDraw,
-      allowedToDraw: userRole === 'admin' || (drawingEnabled && currentUser?.canDraw)
+  const uploadBackground = async (image: BackgroundImage) => {
+    const response = await fetch(`${backendUrl}/api/rooms/${roomId}/uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/jpeg', ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}) },
+      body: image.blob
     });
-    if (!(userRole === 'admin' || (drawingEnabled && (currentUser?.canDraw !== false)))) return;
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Upload failed');
+    }
+    return { upload: data.upload.id as string, width: data.upload.width as number, height: data.upload.height as number };
+  };
 
-    setIsDrawing(true);
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  // A PDF becomes new pages after this one, one per PDF page; an image goes under this page
+  const handleImportFile = async (file: File) => {
+    const pageId = currentPageIdRef.current;
+    try {
+      let images: BackgroundImage[];
+      if (isPdfFile(file)) {
+        const room = MAX_PAGES - pagesRef.current.length;
+        if (room <= 0) throw new Error(`The board already has the maximum of ${MAX_PAGES} pages`);
+        setImportStatus('Reading PDF…');
+        images = await pdfFileToJpegs(file, room, (done, total) => setImportStatus(`Rendering page ${done} of ${total}…`));
+      } else {
+        setImportStatus('Reading image…');
+        images = [await imageFileToJpeg(file)];
+      }
 
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    setLastDrawPoint({ x, y });
+      const backgrounds = [];
+      for (let i = 0; i < images.length; i++) {
+        setImportStatus(`Uploading ${i + 1} of ${images.length}…`);
+        backgrounds.push(await uploadBackground(images[i]));
+      }
 
-    if (tool === 'line' || tool === 'rect' || tool === 'circle') {
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        canvasSnapshotRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      if (isPdfFile(file)) {
+        // Each page is inserted straight after the current one, so add them last to first
+        addingPagesRef.current += backgrounds.length;
+        [...backgrounds].reverse().forEach((background) => {
+          socket.emit('board_page', { action: 'add', afterPageId: pageId, background });
+        });
+      } else {
+        socket.emit('board_page', { action: 'background', pageId, background: backgrounds[0] });
       }
+    } catch (error: any) {
+      alert(error.message || 'Import failed');
+    } finally {
+      setImportStatus(null);
     }
   };
 
-  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
-    const currentUser = users[localUserId];
-    if (!(userRole === 'admin' || (drawingEnabled && (currentUser?.canDraw !== false)))) return;
+  const handleRemoveBackground = () => {
+    socket.emit('board_page', { action: 'background', pageId: currentPageIdRef.current, background: null });
+  };
 
-    const canvas = canvasRef.current;
-    if (!canvas || !lastDrawPoint) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    if (tool === 'pen' || tool === 'eraser') {
-      const drawData = {
-        tool,
-        fromX: lastDrawPoint.x,
-        fromY: lastDrawPoint.y,
-        toX: x,
-        toY: y,
-        color: currentColor,
-        size: brushSize
-      };
+  const handleTemplateChange = (template: PageTemplate | null) => {
+    socket.emit('board_page', { action: 'template', pageId: currentPageIdRef.current, template });
+  };
 
-      drawOnCanvas(drawData);
-      socket.emit('draw_data', drawData);
-      setLastDrawPoint({ x, y });
-      return;
-    }
+  const handleToggleFollow = () => {
+    socket.emit('board_follow', { enabled: !boardView.follow, pageId: currentPageIdRef.current });
+  };
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const handleToggleDrawing = () => {
+    socket.emit('toggle_draw', { enabled: !drawingEnabled });
+  };
+
+  const handleToggleUserDraw = (userId: string, canDraw: boolean) => {
+    socket.emit('set_user_draw', { targetUserId: userId, canDraw });
+  };
+
+  const handleSetUserRole = (userId: string, role: RoomRole) => {
+    socket.emit('set_user_role', { targetUserId: userId, role });
+  };
+
+  const handleSetUserPermission = (userId: string, permission: Permission, enabled: boolean) => {
+    socket.emit('set_user_permissions', { targetUserId: userId, permissions: { [permission]: enabled } });
+  };
 
-    if (canvasSnapshotRef.current) {
-      ctx.putImageData(canvasSnapshotRef.current, 0, 0);
+  const handleTransferHost = (userId: string, name: string) => {
+    if (window.confirm(`Make ${name} the host? You will stay on as a co-teacher.`)) {
+      socket.emit('transfer_host', { targetUserId: userId });
     }
+  };
 
-    const previewData = {
-      tool,
-      fromX: lastDrawPoint.x,
-      fromY: lastDrawPoint.y,
-      toX: x,
-      toY: y,
-      color: currentColor,
-      size: brushSize
-    };
-    drawOnCanvas(previewData);
+  const handleAdmitUser = (userId: string) => {
+    socket.emit('admit_user', { targetUserId: userId });
+  };
+
+  const handleDenyUser = (userId: string) => {
+    socket.emit('deny_user', { targetUserId: userId });
   };
 
-  const handleCanvasMouseUp = (e?: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
+  const handleAdmitAll = () => {
+    socket.emit('admit_all');
+  };
 
-    const canvas = canvasRef.current;
-    if (canvas && lastDrawPoint && (tool === 'line' || tool === 'rect' || tool === 'circle')) {
-      const rect = canvas.getBoundingClientRect();
-      const x = e ? e.clientX - rect.left : lastDrawPoint.x;
-      const y = e ? e.clientY - rect.top : lastDrawPoint.y;
-
-      const shapeData = {
-        tool,
-        fromX: lastDrawPoint.x,
-        fromY: lastDrawPoint.y,
-        toX: x,
-        toY: y,
-        color: currentColor,
-        size: brushSize
-      };
-      socket.emit('draw_data', shapeData);
+  const handleUpdateSettings = (changes: Partial<RoomSettings>) => {
+    socket.emit('update_room_settings', changes);
+  };
+
+  const handleStartBreakouts = () => {
+    socket.emit('start_breakouts', {
+      count: breakoutCount,
+      durationMinutes: breakoutMinutes,
+      assignments: breakoutMode === 'manual' ? breakoutPlan : undefined
+    });
+  };
+
+  const handleEndBreakouts = () => {
+    if (window.confirm('Bring everyone back to the main room now?')) {
+      socket.emit('end_breakouts');
     }
+  };
 
-    setIsDrawing(false);
-    setLastDrawPoint(null);
-    canvasSnapshotRef.current = null;
+  const handleAssignBreakout = (userId: string, groupId: string) => {
+    socket.emit('assign_breakout', { targetUserId: userId, breakoutId: groupId || null });
   };
 
-  const handleClearCanvas = () => {
-    socket.emit('clear_canvas');
+  const handleVisitBreakout = (groupId: string | null) => {
+    socket.emit('visit_breakout', { breakoutId: groupId });
   };
 
-  const handleToggleDrawing = () => {
-    socket.emit('toggle_draw', { enabled: !drawingEnabled });
+  const handleBroadcast = () => {
+    if (broadcastDraft.trim()) {
+      socket.emit('breakout_broadcast', { message: broadcastDraft });
+      setBroadcastDraft('');
+    }
   };
 
-  const handleToggleUserDraw = (userId: string, canDraw: boolean) => {
-    socket.emit('set_user_draw', { targetUserId: userId, canDraw });
+  const handleExit = () => {
+    const hasOtherStaff = Object.entries(users).some(([id, user]) => id !== localUserId && isStaffRole(user.role));
+    if (userRole === 'admin' && hasOtherStaff &&
+      !window.confirm('Leaving as host ends the session for everyone. Use 👑 in the admin panel to hand over first. Leave anyway?')) {
+      return;
+    }
+    onLeaveSession();
   };
 
   const handleKickUser = (userId: string) => {
@@ -395,18 +1893,24 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
             <p className="text-sm text-cyan-300/80 font-medium">
               Welcome, <span className="text-white">{userName}</span> 
               <span className={`ml-2 px-2 py-1 rounded-full text-xs ${
-                userRole === 'admin' 
+                isStaff 
                   ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' 
                   : 'bg-gradient-to-r from-blue-500 to-cyan-500 text-white'
               }`}>
-                {userRole === 'admin' ? '👑 Teacher' : '🎓 Student'}
+                {ROLE_LABELS[userRole]}
               </span>
             </p>
           </div>
+          <div className="glass px-3 py-2 rounded-lg">
+            <p className="text-xs text-cyan-300/70">{roomTitle}</p>
+            <p className="text-sm font-mono font-semibold tracking-widest text-white" title="Share this code so others can join">
+              🔑 {roomId}
+            </p>
+          </div>
         </div>
         
         <div className="flex items-center space-x-4">
-          {userRole === 'admin' && (
+          {isStaff && (
             <button
               onClick={() => setShowAdminPanel(!showAdminPanel)}
               className={`cyber-btn px-4 py-2 rounded-lg text-sm font-medium flex items-center space-x-2 ${
@@ -418,6 +1922,11 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
               </svg>
               <span>{showAdminPanel ? 'Hide Panel' : 'Admin Panel'}</span>
+              {can('admit') && lobby.length > 0 && (
+                <span className="ml-1 px-2 py-0.5 bg-yellow-400 text-black rounded-full text-xs font-bold" title="Waiting in the lobby">
+                  {lobby.length}
+                </span>
+              )}
             </button>
           )}
           
@@ -449,7 +1958,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
           </div>
           
           <button
-            onClick={onLeaveSession}
+            onClick={handleExit}
             className="cyber-btn px-4 py-2 neon-pink text-white rounded-lg text-sm font-medium"
           >
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -460,7 +1969,47 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
         </div>
       </div>
 
-      {showAdminPanel && userRole === 'admin' && (
+      {(!isConnected || pausedUntil) && (
+        <div className="glass-dark border-b border-yellow-500/40 px-6 py-2 flex items-center justify-center space-x-3 relative z-10">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-yellow-400"></div>
+          <span className="text-sm text-yellow-300">
+            {!isConnected
+              ? 'Connection lost - reconnecting to the classroom...'
+              : `Teacher reconnecting... the session is paused and ends in ${Math.max(0, Math.ceil(((pausedUntil as number) - now) / 1000))}s if they don't return`}
+          </span>
+        </div>
+      )}
+
+      {breakouts && (
+        <div className="glass-dark border-b border-green-500/40 px-6 py-2 flex items-center justify-center space-x-3 relative z-10">
+          <span className="text-sm text-green-300">
+            {currentGroup ? `👥 ${currentGroup.name}` : '🏫 Main room'} · breakout rooms close in {formatCountdown(breakouts.endsAt)}
+          </span>
+          {isStaff && breakoutId && (
+            <button
+              onClick={() => handleVisitBreakout(null)}
+              className="cyber-btn px-3 py-1 neon-blue text-white rounded text-xs font-medium"
+            >
+              Return to main room
+            </button>
+          )}
+        </div>
+      )}
+
+      {broadcast && (
+        <div className="glass-dark border-b border-orange-500/40 px-6 py-2 flex items-center justify-center space-x-3 relative z-10">
+          <span className="text-sm text-orange-300">📢 {broadcast.from}: {broadcast.message}</span>
+          <button
+            onClick={() => setBroadcast(null)}
+            className="text-orange-300 hover:text-white text-lg leading-none"
+            aria-label="Dismiss announcement"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {showAdminPanel && isStaff && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-30 flex items-center justify-center p-4">
           <div className="glass-dark rounded-xl p-6 w-full max-w-2xl border border-purple-500/30 relative animate-fade-in">
             <button
@@ -479,74 +2028,384 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
               <div className="glass p-4 rounded-lg border border-purple-500/20">
                 <h3 className="text-lg font-semibold text-purple-300 mb-3">Global Controls</h3>
                 <div className="flex items-center space-x-4">
-                  <button
-                    onClick={handleToggleDrawing}
-                    className={`cyber-btn px-4 py-2 rounded-lg text-sm font-medium ${
-                      drawingEnabled 
-                        ? 'neon-green text-white' 
-                        : 'neon-pink text-white'
-                    }`}
-                  >
-                    {drawingEnabled ? '✏️ Drawing: ON' : '🚫 Drawing: OFF'}
-                  </button>
+                  {can('toggleDrawing') && (
+                    <button
+                      onClick={handleToggleDrawing}
+                      className={`cyber-btn px-4 py-2 rounded-lg text-sm font-medium ${
+                        drawingEnabled 
+                          ? 'neon-green text-white' 
+                          : 'neon-pink text-white'
+                      }`}
+                    >
+                      {drawingEnabled ? '✏️ Drawing: ON' : '🚫 Drawing: OFF'}
+                    </button>
+                  )}
                   
-                  <button
-                    onClick={handleClearCanvas}
-                    className="cyber-btn px-4 py-2 neon-orange text-white rounded-lg text-sm font-medium"
-                  >
-                    🗑️ Clear Canvas
-                  </button>
+                  {can('clearCanvas') && (
+                    <button
+                      onClick={handleClearCanvas}
+                      className="cyber-btn px-4 py-2 neon-orange text-white rounded-lg text-sm font-medium"
+                    >
+                      🗑️ Clear Canvas
+                    </button>
+                  )}
                 </div>
               </div>
 
+              <div className="glass p-4 rounded-lg border border-blue-500/20">
+                <h3 className="text-lg font-semibold text-blue-300 mb-3">Board Contributions</h3>
+                {boardContributions.length === 0 ? (
+                  <p className="text-sm text-gray-400">Nothing has been drawn yet.</p>
+                ) : (
+                  <div className="max-h-48 overflow-y-auto space-y-2">
+                    {boardContributions.map(({ authorId, authorName, count }) => {
+                      const hidden = hiddenAuthors.includes(authorId);
+                      return (
+                        <div key={authorId} className="flex items-center justify-between glass p-2 rounded-lg">
+                          <div>
+                            <p className={`text-sm font-medium ${hidden ? 'text-gray-500 line-through' : 'text-white'}`}>{authorName}</p>
+                            <p className="text-xs text-gray-400">
+                              {count} {count === 1 ? 'object' : 'objects'}{hidden && ' · hidden from everyone'}
+                            </p>
+                          </div>
+                          {can('clearCanvas') && (
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => handleModerateAuthor(hidden ? 'show' : 'hide', authorId, authorName)}
+                                className="cyber-btn px-2 py-1 glass text-gray-200 rounded text-xs"
+                                title={hidden ? 'Show their drawing again' : 'Hide their drawing from everyone'}
+                              >
+                                {hidden ? '👁️ Show' : '🙈 Hide'}
+                              </button>
+                              <button
+                                onClick={() => handleModerateAuthor('erase', authorId, authorName)}
+                                className="cyber-btn px-2 py-1 neon-pink text-white rounded text-xs"
+                                title="Erase their drawing from every page"
+                              >
+                                🧽 Erase
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {(userRole === 'admin' || can('admit')) && (
+                <div className="glass p-4 rounded-lg border border-yellow-500/20">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold text-yellow-300">Waiting Room ({lobby.length})</h3>
+                    {can('admit') && lobby.length > 1 && (
+                      <button
+                        onClick={handleAdmitAll}
+                        className="cyber-btn px-3 py-1 neon-green text-white rounded text-xs font-medium"
+                      >
+                        Admit All
+                      </button>
+                    )}
+                  </div>
+
+                  {userRole === 'admin' && (
+                    <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-gray-300">
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={settings.lobbyEnabled}
+                          onChange={(e) => handleUpdateSettings({ lobbyEnabled: e.target.checked })}
+                        />
+                        <span>Lobby for new students</span>
+                      </label>
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={settings.locked}
+                          onChange={(e) => handleUpdateSettings({ locked: e.target.checked })}
+                        />
+                        <span>🔒 Lock room</span>
+                      </label>
+                      <label className="flex items-center space-x-2">
+                        <span>Max students</span>
+                        <input
+                          type="number"
+                          min={0}
+                          placeholder="∞"
+                          value={settings.maxCapacity ?? ''}
+                          onChange={(e) => handleUpdateSettings({ maxCapacity: e.target.value ? parseInt(e.target.value, 10) : null })}
+                          className="w-20 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+                        />
+                      </label>
+                    </div>
+                  )}
+
+                  {lobby.length === 0 ? (
+                    <p className="text-sm text-gray-400">Nobody is waiting.</p>
+                  ) : (
+                    <div className="max-h-40 overflow-y-auto space-y-2">
+                      {lobby.map(entry => (
+                        <div key={entry.socketId} className="glass p-2 rounded-lg flex items-center justify-between">
+                          <span className="text-sm text-white">{entry.name}</span>
+                          {can('admit') && (
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => handleAdmitUser(entry.socketId)}
+                                className="cyber-btn px-3 py-1 neon-green text-white rounded text-xs font-medium"
+                              >
+                                Admit
+                              </button>
+                              <button
+                                onClick={() => handleDenyUser(entry.socketId)}
+                                className="cyber-btn px-3 py-1 neon-pink text-white rounded text-xs font-medium"
+                              >
+                                Deny
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {(can('breakouts') || breakouts) && (
+                <div className="glass p-4 rounded-lg border border-green-500/20">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold text-green-300">Breakout Rooms</h3>
+                    {breakouts && can('breakouts') && (
+                      <button
+                        onClick={handleEndBreakouts}
+                        className="cyber-btn px-3 py-1 neon-pink text-white rounded text-xs font-medium"
+                      >
+                        End all ({formatCountdown(breakouts.endsAt)})
+                      </button>
+                    )}
+                  </div>
+
+                  {!breakouts ? (
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                        <label className="flex items-center space-x-2">
+                          <span>Groups</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={20}
+                            value={breakoutCount}
+                            onChange={(e) => setBreakoutCount(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                            className="w-16 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+                          />
+                        </label>
+                        <label className="flex items-center space-x-2">
+                          <span>Minutes</span>
+                          <input
+                            type="number"
+                            min={1}
+                            value={breakoutMinutes}
+                            onChange={(e) => setBreakoutMinutes(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                            className="w-16 px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+                          />
+                        </label>
+                        <select
+                          value={breakoutMode}
+                          onChange={(e) => setBreakoutMode(e.target.value as 'random' | 'manual')}
+                          className="px-2 py-1 bg-black/30 border border-gray-600 rounded text-white"
+                        >
+                          <option value="random">🎲 Random</option>
+                          <option value="manual">✋ Manual</option>
+                        </select>
+                      </div>
+
+                      {breakoutMode === 'manual' && (
+                        <div className="max-h-40 overflow-y-auto space-y-1">
+                          {Object.entries(users).filter(([, user]) => !isStaffRole(user.role)).map(([socketId, user]) => (
+                            <div key={socketId} className="flex items-center justify-between text-sm">
+                              <span className="text-white">{user.name}</span>
+                              <select
+                                value={breakoutPlan[socketId] ?? ''}
+                                onChange={(e) => setBreakoutPlan(prev => {
+                                  const next = { ...prev };
+                                  if (e.target.value === '') delete next[socketId];
+                                  else next[socketId] = parseInt(e.target.value, 10);
+                                  return next;
+                                })}
+                                className="px-2 py-1 bg-black/30 border border-gray-600 rounded text-white text-xs"
+                              >
+                                <option value="">Main room</option>
+                                {Array.from({ length: breakoutCount }, (_, i) => (
+                                  <option key={i} value={i}>Group {i + 1}</option>
+                                ))}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      <button
+                        onClick={handleStartBreakouts}
+                        className="cyber-btn px-4 py-2 neon-green text-white rounded-lg text-sm font-medium"
+                      >
+                        🚪 Open breakout rooms
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {[{ id: '', name: 'Main room' }, ...breakouts.groups].map(group => (
+                        <div key={group.id || 'main'} className="glass p-2 rounded-lg">
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="text-sm font-semibold text-green-200">
+                              {group.name}{(breakoutId || '') === group.id && ' (you are here)'}
+                            </span>
+                            {(breakoutId || '') !== group.id && (
+                              <button
+                                onClick={() => handleVisitBreakout(group.id || null)}
+                                className="cyber-btn px-2 py-0.5 neon-blue text-white rounded text-xs font-medium"
+                              >
+                                {group.id ? 'Visit' : 'Return'}
+                              </button>
+                            )}
+                          </div>
+                          <div className="space-y-1">
+                            {Object.entries(users).filter(([, user]) => (user.breakoutId || '') === group.id).map(([socketId, user]) => (
+                              <div key={socketId} className="flex items-center justify-between text-xs text-gray-300">
+                                <span>{user.name}{isStaffRole(user.role) && ` (${ROLE_LABELS[user.role]})`}</span>
+                                {can('breakouts') && !isStaffRole(user.role) && (
+                                  <select
+                                    value={user.breakoutId || ''}
+                                    onChange={(e) => handleAssignBreakout(socketId, e.target.value)}
+                                    className="px-1 py-0.5 bg-black/30 border border-gray-600 rounded text-white"
+                                  >
+                                    <option value="">Main room</option>
+                                    {breakouts.groups.map(option => (
+                                      <option key={option.id} value={option.id}>{option.name}</option>
+                                    ))}
+                                  </select>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+
+                      {can('breakouts') && (
+                        <div className="flex space-x-2">
+                          <input
+                            type="text"
+                            value={broadcastDraft}
+                            onChange={(e) => setBroadcastDraft(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleBroadcast()}
+                            placeholder="Message to all groups..."
+                            className="flex-1 px-3 py-1 bg-black/30 border border-gray-600 rounded text-white text-sm"
+                          />
+                          <button
+                            onClick={handleBroadcast}
+                            className="cyber-btn px-3 py-1 neon-orange text-white rounded text-xs font-medium"
+                          >
+                            📢 Broadcast
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="glass p-4 rounded-lg border border-cyan-500/20">
                 <h3 className="text-lg font-semibold text-cyan-300 mb-3">User Management ({Object.keys(users).length} users)</h3>
                 <div className="max-h-60 overflow-y-auto space-y-2">
                   {Object.entries(users).map(([socketId, user]) => {
                     const isCurrentUser = socketId === localUserId;
+                    const canKickUser = can('kick') && user.role !== 'admin' && (userRole === 'admin' || !isStaffRole(user.role));
                     return (
-                      <div key={socketId} className={`glass p-3 rounded-lg flex items-center justify-between ${
+                      <div key={socketId} className={`glass p-3 rounded-lg ${
                         isCurrentUser ? 'border border-purple-500/30' : ''
                       }`}>
-                        <div className="flex items-center space-x-3">
-                          <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${
-                            user.role === 'admin' 
-                              ? 'bg-gradient-to-r from-purple-500 to-pink-500' 
-                              : 'bg-gradient-to-r from-blue-500 to-cyan-500'
-                          }`}>
-                            {user.name.charAt(0).toUpperCase()}
-                          </div>
-                          <div>
-                            <p className="text-sm font-medium text-white">
-                              {user.name} {isCurrentUser && '(You)'}
-                            </p>
-                            <p className="text-xs text-gray-400">
-                              {user.role === 'admin' ? '👑 Admin' : '🎓 Student'}
-                            </p>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3">
+                            <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold ${
+                              isStaffRole(user.role) 
+                                ? 'bg-gradient-to-r from-purple-500 to-pink-500' 
+                                : 'bg-gradient-to-r from-blue-500 to-cyan-500'
+                            }`}>
+                              {user.name.charAt(0).toUpperCase()}
+                            </div>
+                            <div>
+                              <p className="text-sm font-medium text-white">
+                                {user.name} {isCurrentUser && '(You)'}
+                              </p>
+                              <p className="text-xs text-gray-400">
+                                {ROLE_LABELS[user.role]}
+                              </p>
+                            </div>
                           </div>
+                          
+                          {!isCurrentUser && (
+                            <div className="flex items-center space-x-2">
+                              {userRole === 'admin' && user.role !== 'admin' && (
+                                <select
+                                  value={user.role}
+                                  onChange={(e) => handleSetUserRole(socketId, e.target.value as RoomRole)}
+                                  className="glass rounded text-xs text-white bg-transparent px-1 py-1"
+                                  title="Change role"
+                                >
+                                  <option value="student" className="text-black">Student</option>
+                                  <option value="ta" className="text-black">TA</option>
+                                  <option value="teacher" className="text-black">Co-teacher</option>
+                                </select>
+                              )}
+
+                              {userRole === 'admin' && (
+                                <button
+                                  onClick={() => handleTransferHost(socketId, user.name)}
+                                  className="cyber-btn px-2 py-1 neon-purple text-white rounded text-xs"
+                                  title="Make host"
+                                >
+                                  👑
+                                </button>
+                              )}
+
+                              {can('toggleDrawing') && (
+                                <button
+                                  onClick={() => handleToggleUserDraw(socketId, !user.canDraw)}
+                                  className={`cyber-btn px-2 py-1 rounded text-xs ${
+                                    user.canDraw 
+                                      ? 'neon-green text-white' 
+                                      : 'neon-pink text-white'
+                                  }`}
+                                  title={user.canDraw ? 'Disable drawing' : 'Enable drawing'}
+                                >
+                                  {user.canDraw ? '✏️' : '🚫'}
+                                </button>
+                              )}
+                              
+                              {canKickUser && (
+                                <button
+                                  onClick={() => handleKickUser(socketId)}
+                                  className="cyber-btn px-2 py-1 neon-pink text-white rounded text-xs"
+                                  title="Kick user"
+                                >
+                                  👢
+                                </button>
+                              )}
+                            </div>
+                          )}
                         </div>
-                        
-                        {!isCurrentUser && (
-                          <div className="flex items-center space-x-2">
-                            <button
-                              onClick={() => handleToggleUserDraw(socketId, !user.canDraw)}
-                              className={`cyber-btn px-2 py-1 rounded text-xs ${
-                                user.canDraw 
-                                  ? 'neon-green text-white' 
-                                  : 'neon-pink text-white'
-                              }`}
-                              title={user.canDraw ? 'Disable drawing' : 'Enable drawing'}
-                            >
-                              {user.canDraw ? '✏️' : '🚫'}
-                            </button>
-                            
-                            <button
-                              onClick={() => handleKickUser(socketId)}
-                              className="cyber-btn px-2 py-1 neon-pink text-white rounded text-xs"
-                              title="Kick user"
-                            >
-                              👢
-                            </button>
+
+                        {(user.role === 'teacher' || user.role === 'ta') && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {(Object.keys(PERMISSION_LABELS) as Permission[]).map((permission) => (
+                              <label key={permission} className="flex items-center space-x-1 text-xs text-gray-300">
+                                <input
+                                  type="checkbox"
+                                  checked={!!user.permissions?.[permission]}
+                                  disabled={userRole !== 'admin'}
+                                  onChange={(e) => handleSetUserPermission(socketId, permission, e.target.checked)}
+                                  className="h-3 w-3 accent-purple-400"
+                                />
+                                <span>{PERMISSION_LABELS[permission]}</span>
+                              </label>
+                            ))}
                           </div>
                         )}
                       </div>
@@ -619,21 +2478,22 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                         <div className="flex-1">
                           <div className="flex items-center space-x-2">
                             <span className={`font-medium text-sm ${
-                              message.role === 'admin' 
+                              isStaffRole(message.role) 
                                 ? 'text-purple-400' 
                                 : 'text-cyan-400'
                             }`}>
                               {message.username}
                               {message.role === 'admin' && <span className="text-xs">👑</span>}
+                              {(message.role === 'teacher' || message.role === 'ta') && <span className="text-xs ml-1 text-purple-300">{message.role === 'ta' ? 'TA' : 'Co-teacher'}</span>}
                             </span>
                             <span className="text-xs text-gray-400">
                               {new Date(message.timestamp).toLocaleTimeString()}
                             </span>
                           </div>
-                          <p className="text-sm text-gray-200 mt-1">{message.message}</p>
+                          <p className="text-sm text-gray-200 mt-1"><MathText text={message.message} color="#e5e7eb" /></p>
                         </div>
                         
-                        {userRole === 'admin' && (
+                        {can('manageChat') && (
                           <button
                             onClick={() => deleteMessage(message.id)}
                             className="text-red-400 hover:text-red-300 text-xs ml-2"
@@ -653,7 +2513,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                     value={newMessage}
                     onChange={(e) => setNewMessage(e.target.value)}
                     onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
-                    placeholder="Type message..."
+                    placeholder="Type message... ($x^2$ for maths)"
                     className="flex-1 px-3 py-2 glass rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 bg-transparent"
                   />
                   <button
@@ -680,7 +2540,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                   {Object.entries(users).map(([socketId, user]) => (
                     <div key={socketId} className="glass p-3 rounded-lg flex items-center space-x-3">
                       <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                        user.role === 'admin' 
+                        isStaffRole(user.role) 
                           ? 'bg-gradient-to-r from-purple-500 to-pink-500' 
                           : 'bg-gradient-to-r from-blue-500 to-cyan-500'
                       }`}>
@@ -691,7 +2551,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                       <div className="flex-1">
                         <p className="text-sm font-medium text-white">{user.name}</p>
                         <p className="text-xs text-gray-400">
-                          {user.role === 'admin' ? '👑 Teacher' : '🎓 Student'}
+                          {ROLE_LABELS[user.role]}
                           {socketId === localUserId && ' (You)'}
                         </p>
                       </div>
@@ -743,6 +2603,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                   <div className="space-y-1">
                     <div className="text-xs text-gray-300">Tool:</div>
                     <div className="grid grid-cols-3 gap-2">
+                      <button onClick={() => setTool('select')} className={`p-2 rounded text-xs ${tool === 'select' ? 'neon-purple text-white' : 'glass text-gray-200'}`}>🖱️ Select</button>
                       <button onClick={() => setTool('pen')} className={`p-2 rounded text-xs ${tool === 'pen' ? 'neon-green text-white' : 'glass text-gray-200'}`}>✏️ Pen</button>
                       <button onClick={() => setTool('eraser')} className={`p-2 rounded text-xs ${tool === 'eraser' ? 'neon-pink text-white' : 'glass text-gray-200'}`}>🧽 Eraser</button>
                       <button onClick={() => setTool('line')} className={`p-2 rounded text-xs ${tool === 'line' ? 'neon-blue text-white' : 'glass text-gray-200'}`}>📏 Line</button>
@@ -751,33 +2612,36 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                     </div>
                   </div>
                   
-                  {userRole === 'admin' && (
+                  {(can('toggleDrawing') || can('clearCanvas')) && (
                     <div className="space-y-2">
-                      <button
-                        onClick={handleToggleDrawing}
-                        className={`w-full px-3 py-2 rounded-lg text-xs font-medium transition-all ${
-                          drawingEnabled 
-                            ? 'neon-green text-white' 
-                            : 'neon-pink text-white'
-                        }`}
-                      >
-                        {drawingEnabled ? '✏️ Drawing ON' : '🚫 Drawing OFF'}
-                      </button>
+                      {can('toggleDrawing') && (
+                        <button
+                          onClick={handleToggleDrawing}
+                          className={`w-full px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                            drawingEnabled 
+                              ? 'neon-green text-white' 
+                              : 'neon-pink text-white'
+                          }`}
+                        >
+                          {drawingEnabled ? '✏️ Drawing ON' : '🚫 Drawing OFF'}
+                        </button>
+                      )}
                       
-                      <button
-                        onClick={handleClearCanvas}
-                        className="w-full px-3 py-2 neon-orange text-white rounded-lg text-xs font-medium"
-                      >
-                        🗑️ Clear All
-                      </button>
+                      {can('clearCanvas') && (
+                        <button
+                          onClick={handleClearCanvas}
+                          className="w-full px-3 py-2 neon-orange text-white rounded-lg text-xs font-medium"
+                        >
+                          🗑️ Clear Page
+                        </button>
+                      )}
                     </div>
                   )}
                   
                   <div className="space-y-2">
                     <div className="text-xs text-center">
                       {(() => {
-                        const currentUser = users[localUserId];
-                        const canDraw = userRole === 'admin' || (drawingEnabled && (currentUser?.canDraw !== false));
+                        const canDraw = isStaff || (drawingEnabled && (currentUser?.canDraw !== false));
                         return (
                           <span className={`px-2 py-1 rounded-full ${
                             canDraw ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
@@ -793,7 +2657,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                       <input
                         type="color"
                         value={currentColor}
-                        onChange={(e) => setCurrentColor(e.target.value)}
+                        onChange={(e) => handleColorChange(e.target.value)}
                         className="w-8 h-8 rounded-full border-2 border-cyan-400 bg-transparent"
                       />
                     </div>
@@ -805,7 +2669,7 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
                         min="1"
                         max="20"
                         value={brushSize}
-                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                        onChange={(e) => handleSizeChange(Number(e.target.value))}
                         className="w-full accent-cyan-400"
                       />
                     </div>
@@ -831,28 +2695,295 @@ const Classroom: React.FC<ClassroomProps> = ({ socket, userRole, userName, onLea
 
                 {/* Tool selector */}
                 <div className="mb-3 flex flex-wrap items-center gap-2">
+                  <button onClick={() => setTool('select')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'select' ? 'neon-purple text-white' : 'glass text-gray-200'}`}>🖱️ Select</button>
+                  <button
+                    onClick={() => setTool('pan')}
+                    title="Drag to move around the board; the mouse wheel, middle button and two fingers also work"
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'pan' ? 'neon-purple text-white' : 'glass text-gray-200'}`}
+                  >
+                    ✋ Pan
+                  </button>
+                  {isStaff && (
+                    <button
+                      onClick={() => setTool('laser')}
+                      title="Point things out with a fading trail that leaves no marks"
+                      className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'laser' ? 'neon-pink text-white' : 'glass text-gray-200'}`}
+                    >
+                      🔴 Laser
+                    </button>
+                  )}
                   <button onClick={() => setTool('pen')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'pen' ? 'neon-green text-white' : 'glass text-gray-200'}`}>✏️ Pen</button>
+                  <button onClick={() => setTool('highlighter')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'highlighter' ? 'neon-green text-white' : 'glass text-gray-200'}`}>🖍️ Highlighter</button>
                   <button onClick={() => setTool('eraser')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'eraser' ? 'neon-pink text-white' : 'glass text-gray-200'}`}>🧽 Eraser</button>
                   <button onClick={() => setTool('line')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'line' ? 'neon-blue text-white' : 'glass text-gray-200'}`}>📏 Line</button>
+                  <button onClick={() => setTool('arrow')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'arrow' ? 'neon-blue text-white' : 'glass text-gray-200'}`}>➡️ Arrow</button>
                   <button onClick={() => setTool('rect')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'rect' ? 'neon-blue text-white' : 'glass text-gray-200'}`}>⬛ Rect</button>
                   <button onClick={() => setTool('circle')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'circle' ? 'neon-blue text-white' : 'glass text-gray-200'}`}>⚪ Circle</button>
+                  <button
+                    onClick={() => setTool('polygon')}
+                    title="Click each corner; finish on the first corner, with a double click or Enter"
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'polygon' ? 'neon-blue text-white' : 'glass text-gray-200'}`}
+                  >
+                    ⬟ Polygon
+                  </button>
+                  <button onClick={() => setTool('text')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'text' ? 'neon-purple text-white' : 'glass text-gray-200'}`}>🔤 Text</button>
+                  <button onClick={() => setTool('sticky')} className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'sticky' ? 'neon-purple text-white' : 'glass text-gray-200'}`}>🗒️ Sticky</button>
+                  <button
+                    onClick={() => setTool('equation')}
+                    title="Click the board and type LaTeX; double-click an equation with Select to change it"
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'equation' ? 'neon-purple text-white' : 'glass text-gray-200'}`}
+                  >
+                    ∑ Equation
+                  </button>
+                  <button
+                    onClick={() => setTool('ruler')}
+                    title="Drag out a ruler, or click for one level; turn it by its round handle with Select (Shift for 15° steps)"
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'ruler' ? 'neon-blue text-white' : 'glass text-gray-200'}`}
+                  >
+                    📐 Ruler
+                  </button>
+                  <button
+                    onClick={() => setTool('protractor')}
+                    title="Drag along the line to measure from, or click for one level; turn it by its round handle with Select"
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'protractor' ? 'neon-blue text-white' : 'glass text-gray-200'}`}
+                  >
+                    ◓ Protractor
+                  </button>
+                  <button
+                    onClick={() => setTool('plot')}
+                    title="Click the board to plot y = f(x); click a plot to change its function and axes"
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${tool === 'plot' ? 'neon-purple text-white' : 'glass text-gray-200'}`}
+                  >
+                    📈 Plot
+                  </button>
+                  {(tool === 'plot' || selectedPlot) && (
+                    <PlotControls
+                      expression={(selectedPlot || plotSettings).expression}
+                      axes={(selectedPlot || plotSettings).axes}
+                      onChange={handlePlotChange}
+                    />
+                  )}
+                  {tool === 'pen' && (
+                    <label
+                      className="flex items-center gap-1 text-xs text-gray-300"
+                      title="Hold the pen still for a moment at the end of a circle, rectangle, triangle, line or arrow to make it neat"
+                    >
+                      <input type="checkbox" checked={snapShapes} onChange={(e) => toggleSnapShapes(e.target.checked)} />
+                      Snap shapes
+                    </label>
+                  )}
+                  {(tool === 'rect' || tool === 'circle' || tool === 'polygon' || ['rect', 'circle', 'polygon'].includes(selectedBoardObject?.type || '')) && (
+                    <label className="flex items-center gap-1 text-xs text-gray-300">
+                      <input type="checkbox" checked={fillShapes} onChange={(e) => handleFillChange(e.target.checked)} />
+                      Fill
+                    </label>
+                  )}
+                  {(tool === 'text' || tool === 'sticky' || tool === 'equation' || (selectedBoardObject && isTyped(selectedBoardObject))) && (
+                    <select
+                      value={fontSize}
+                      onChange={(e) => handleFontSizeChange(Number(e.target.value))}
+                      title="Font size"
+                      className="px-2 py-1 rounded-lg text-xs glass text-gray-200 bg-transparent"
+                    >
+                      {FONT_SIZES.map(size => <option key={size} value={size} className="text-black">{size}px</option>)}
+                    </select>
+                  )}
+                  {(tool === 'sticky' || selectedBoardObject?.type === 'sticky') && STICKY_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => handleStickyColorChange(color)}
+                      title="Sticky note colour"
+                      className={`w-5 h-5 rounded border-2 ${stickyColor === color ? 'border-white' : 'border-transparent'}`}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                  <button
+                    onClick={() => handleUndoRedo('undo')}
+                    disabled={historySize.undo === 0}
+                    title="Undo your last change (Ctrl+Z)"
+                    className="px-3 py-1 rounded-lg text-xs font-medium glass text-gray-200 disabled:opacity-40"
+                  >
+                    ↶ Undo
+                  </button>
+                  <button
+                    onClick={() => handleUndoRedo('redo')}
+                    disabled={historySize.redo === 0}
+                    title="Redo (Ctrl+Y)"
+                    className="px-3 py-1 rounded-lg text-xs font-medium glass text-gray-200 disabled:opacity-40"
+                  >
+                    ↷ Redo
+                  </button>
+                  {selectedId && (
+                    <button onClick={handleDeleteSelected} className="px-3 py-1 rounded-lg text-xs font-medium neon-pink text-white">🗑️ Delete selected</button>
+                  )}
+                  <div className="ml-auto flex items-center gap-1">
+                    <label title="Show everyone's pointer, and share yours" className="flex items-center gap-1 mr-2 text-xs text-gray-300">
+                      <input type="checkbox" checked={showCursors} onChange={(e) => handleShowCursorsChange(e.target.checked)} />
+                      👆 Cursors
+                    </label>
+                    <button onClick={() => handleZoom(1 / 1.25)} title="Zoom out" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">−</button>
+                    <button onClick={() => setViewport(DEFAULT_VIEWPORT)} title="Back to the page at 100%" className="w-12 py-1 rounded-lg text-xs font-medium glass text-gray-200">
+                      {Math.round(viewport.zoom * 100)}%
+                    </button>
+                    <button onClick={() => handleZoom(1.25)} title="Zoom in" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">+</button>
+                    <button onClick={handleZoomToFit} title="Zoom to fit everything on the page" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">⤢ Fit</button>
+                    {isStaff && (
+                      <button onClick={handleBringClassHere} title="Show everyone this page, zoomed to what you see" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">
+                        📍 Bring class here
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-gray-400">⬇️ Export</span>
+                    <button onClick={() => handleExport('png')} title="This page as an image" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">PNG</button>
+                    <button onClick={() => handleExport('svg')} title="This page as a scalable drawing" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">SVG</button>
+                    <button onClick={() => handleExport('pdf')} title="Every page as a PDF handout" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">PDF</button>
+                  </div>
                 </div>
                 
-                <div className="flex-1 flex items-center justify-center">
+                <div ref={boardContainerRef} className="flex-1 min-h-0 relative">
                   <canvas
                     ref={canvasRef}
-                    width={800}
-                    height={400}
-                    className={`bg-white rounded-lg cursor-crosshair transition-all duration-300 ${
-                      isDrawing || (drawingEnabled || userRole === 'admin') 
+                    style={backgroundStyle(
+                      {
+                        url: currentPage?.background ? uploadUrl(currentPage.background.upload) : null,
+                        background: currentPage?.background,
+                        template: currentPage?.template
+                      },
+                      { viewport, width: canvasWidth }
+                    )}
+                    className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-lg touch-none ${
+                      tool === 'select' ? 'cursor-default' : tool === 'pan' || !canDrawOnBoard ? 'cursor-grab' : 'cursor-crosshair'
+                    } transition-all duration-300 ${
+                      isDrawing || (drawingEnabled || isStaff) 
                         ? 'canvas-active' 
                         : 'border border-gray-600'
                     }`}
-                    onMouseDown={handleCanvasMouseDown}
-                    onMouseMove={handleCanvasMouseMove}
-                    onMouseUp={handleCanvasMouseUp}
-                    onMouseLeave={handleCanvasMouseUp}
+                    onPointerDown={handleCanvasPointerDown}
+                    onPointerMove={handleCanvasPointerMove}
+                    onPointerUp={handleCanvasPointerUp}
+                    onPointerCancel={handleCanvasPointerUp}
+                    onPointerLeave={() => shareCursor(null)}
+                    onClick={handleCanvasClick}
+                    onDoubleClick={handleCanvasDoubleClick}
                   />
+                  <canvas ref={overlayRef} className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none" />
+                  {editing && (
+                    <textarea
+                      key={editing.object.id}
+                      autoFocus
+                      value={editingText}
+                      maxLength={editing.object.type === 'equation' ? MAX_LATEX_LENGTH : 2000}
+                      placeholder={editing.object.type === 'equation' ? 'LaTeX, e.g. E = mc^2' : 'Type here…'}
+                      onChange={(e) => handleEditingTextChange(e.target.value)}
+                      onBlur={commitEditing}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') {
+                          e.preventDefault();
+                          cancelEditing();
+                        } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey || (editing.object.type === 'equation' && !e.shiftKey))) {
+                          e.preventDefault();
+                          commitEditing();
+                        }
+                      }}
+                      style={editorStyle(editing.object)}
+                      className="absolute z-10 resize-none overflow-hidden outline-none border border-dashed border-cyan-400"
+                    />
+                  )}
+                  {editing?.object.type === 'equation' && equationPreview(editing.object)}
+                  <div className="absolute bottom-2 right-2 z-10">
+                    <BoardMinimap
+                      objects={withoutAuthors(currentPage?.objects || [], hiddenAuthors)}
+                      viewport={viewport}
+                      width={160}
+                      onNavigate={(point) => setViewport(centreOn(viewportRef.current, point))}
+                    />
+                  </div>
+                </div>
+
+                {/* Pages */}
+                <div className="mt-3 flex items-center gap-2">
+                  <div className="flex-1 min-w-0 flex gap-2 overflow-x-auto pb-1">
+                    {pages.map((page, index) => (
+                      <button
+                        key={page.id}
+                        onClick={() => showPage(page.id)}
+                        disabled={!canBrowsePages}
+                        title={`Page ${index + 1}${page.id === boardView.presenterPageId ? ' (presenting)' : ''}`}
+                        className={`relative flex-shrink-0 rounded-md border-2 disabled:cursor-not-allowed ${
+                          page.id === currentPageId ? 'border-cyan-400' : 'border-transparent hover:border-gray-500'
+                        }`}
+                      >
+                        <PageThumbnail
+                          objects={withoutAuthors(page.objects, hiddenAuthors)}
+                          backgroundUrl={page.background ? uploadUrl(page.background.upload) : null}
+                          template={page.template}
+                          width={96}
+                        />
+                        <span className="absolute bottom-0.5 left-1 text-[10px] font-medium text-gray-700">{index + 1}</span>
+                        {boardView.follow && page.id === boardView.presenterPageId && (
+                          <span className="absolute top-0.5 right-1 text-[10px]">📌</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                  {isStaff ? (
+                    <div className="flex flex-shrink-0 items-center gap-1">
+                      <button onClick={handleAddPage} title="Add a page after this one" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">➕</button>
+                      <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/pdf,image/*"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) handleImportFile(file);
+                        }}
+                      />
+                      <button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={!!importStatus}
+                        title="Import a PDF as new pages, or an image as this page's background"
+                        className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200 disabled:opacity-40"
+                      >
+                        {importStatus || '📎 Import'}
+                      </button>
+                      <select
+                        value={currentPage?.template || ''}
+                        onChange={(e) => handleTemplateChange((e.target.value || null) as PageTemplate | null)}
+                        title="Rule this page with squares, dots, graph paper or music staves"
+                        className="px-2 py-1 rounded-lg text-xs glass text-gray-200 bg-transparent"
+                      >
+                        <option value="" className="text-black">Plain page</option>
+                        {PAGE_TEMPLATES.map(template => (
+                          <option key={template.value} value={template.value} className="text-black">{template.label}</option>
+                        ))}
+                      </select>
+                      {currentPage?.background && (
+                        <button onClick={handleRemoveBackground} title="Remove this page's background" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">🖼️✖</button>
+                      )}
+                      <button onClick={() => handleMovePage(-1)} title="Move page left" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">◀</button>
+                      <button onClick={() => handleMovePage(1)} title="Move page right" className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200">▶</button>
+                      <button
+                        onClick={handleDeletePage}
+                        disabled={pages.length <= 1}
+                        title="Delete this page"
+                        className="px-2 py-1 rounded-lg text-xs font-medium glass text-gray-200 disabled:opacity-40"
+                      >
+                        🗑️
+                      </button>
+                      <button
+                        onClick={handleToggleFollow}
+                        title="Keep students on the page you are showing"
+                        className={`px-3 py-1 rounded-lg text-xs font-medium ${boardView.follow ? 'neon-purple text-white' : 'glass text-gray-200'}`}
+                      >
+                        📌 {boardView.follow ? 'Following me' : 'Follow me'}
+                      </button>
+                    </div>
+                  ) : boardView.follow && (
+                    <span className="flex-shrink-0 text-xs text-cyan-300">📌 Following the teacher</span>
+                  )}
                 </div>
               </div>
             </div>
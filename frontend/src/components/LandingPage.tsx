@@ -1,23 +1,114 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { downloadBlob } from '../whiteboard/export';
+import BoardReplay from './BoardReplay';
+
+interface RoomSummary {
+  id: string;
+  title: string;
+  userCount: number;
+  hasAdmin: boolean;
+  createdAt: string;
+}
+
+interface MyClassroom {
+  id: string;
+  title: string;
+  isOwner: boolean;
+  isLive: boolean;
+  lastSessionAt: string | null;
+}
 
 interface LandingPageProps {
-  onJoinClassroom: (name: string, adminCode?: string) => void;
+  onJoinClassroom: (roomId: string) => void;
   onLogout?: () => void;
   userName?: string;
+  userRole?: 'admin' | 'student';
+  authToken?: string | null;
 }
 
-const LandingPage: React.FC<LandingPageProps> = ({ onJoinClassroom, onLogout, userName: defaultName = '' }) => {
-  const [name, setName] = useState(defaultName);
-  const [adminCode, setAdminCode] = useState('');
-  const [isAdmin, setIsAdmin] = useState(false);
+const LandingPage: React.FC<LandingPageProps> = ({ onJoinClassroom, onLogout, userName = '', userRole = 'student', authToken }) => {
+  const [roomId, setRoomId] = useState('');
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [myClassrooms, setMyClassrooms] = useState<MyClassroom[]>([]);
+  const [newRoomTitle, setNewRoomTitle] = useState('');
+  const [roomError, setRoomError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [replayClassroom, setReplayClassroom] = useState<MyClassroom | null>(null);
+
+  const backendUrl = (process.env.REACT_APP_BACKEND_URL || `${window.location.protocol}//${window.location.hostname}:5000`).replace(/\/$/, '');
+
+  const fetchRooms = useCallback(async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/rooms`);
+      const data = await response.json();
+      if (response.ok) {
+        setRooms(data.rooms);
+      }
+
+      if (authToken) {
+        const mineResponse = await fetch(`${backendUrl}/api/rooms/mine`, {
+          headers: { Authorization: `Bearer ${authToken}` }
+        });
+        const mineData = await mineResponse.json();
+        if (mineResponse.ok) {
+          setMyClassrooms(mineData.rooms);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load classrooms:', err);
+    }
+  }, [backendUrl, authToken]);
+
+  useEffect(() => {
+    fetchRooms();
+  }, [fetchRooms]);
+
+  const handleCreateRoom = async () => {
+    setRoomError('');
+    try {
+      const response = await fetch(`${backendUrl}/api/rooms`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authToken ? { Authorization: `Bearer ${authToken}` } : {})
+        },
+        body: JSON.stringify({ title: newRoomTitle.trim() || undefined })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create classroom');
+      }
+      setRoomId(data.room.id);
+      setNewRoomTitle('');
+      fetchRooms();
+    } catch (err: any) {
+      setRoomError(err.message || 'Failed to create classroom');
+    }
+  };
+
+  // The saved board of a past session, every page as one PDF
+  const handleDownloadBoard = async (classroomId: string) => {
+    setRoomError('');
+    try {
+      const response = await fetch(`${backendUrl}/api/rooms/${classroomId}/board/export?format=pdf`, {
+        headers: authToken ? { Authorization: `Bearer ${authToken}` } : {}
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to download the board');
+      }
+      downloadBlob(await response.blob(), `${classroomId}-board.pdf`);
+    } catch (err: any) {
+      setRoomError(err.message || 'Failed to download the board');
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (name.trim()) {
+    if (roomId.trim()) {
       setIsLoading(true);
-      onJoinClassroom(name.trim(), isAdmin ? adminCode : undefined);
+      onJoinClassroom(roomId.trim().toUpperCase());
     }
   };
 
@@ -47,69 +138,130 @@ const LandingPage: React.FC<LandingPageProps> = ({ onJoinClassroom, onLogout, us
           </div>
           <h1 className="text-3xl font-bold text-cyber text-glow mb-2" style={{color: 'var(--cyber-blue)'}}>EduCanvas Live</h1>
           <p className="text-cyan-300/80">Join the collaborative classroom</p>
-          {defaultName && (
+          {userName && (
             <div className="mt-4 flex items-center justify-center space-x-2">
-              <span className="text-sm text-green-400">✓ Logged in as: <span className="font-semibold">{defaultName}</span></span>
+              <span className="text-sm text-green-400">✓ Logged in as: <span className="font-semibold">{userName}</span></span>
+              <span className="text-xs text-cyan-300/80">{userRole === 'admin' ? '👑 Teacher' : '🎓 Student'}</span>
             </div>
           )}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
-            <label htmlFor="name" className="block text-sm font-medium text-cyan-300 mb-2">
-              Your Name *
+            <label htmlFor="roomId" className="block text-sm font-medium text-cyan-300 mb-2">
+              Classroom Code *
             </label>
             <input
               type="text"
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              className="w-full px-4 py-2 glass rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 bg-transparent border border-cyan-500/30"
-              placeholder="Enter your name"
+              id="roomId"
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value.toUpperCase())}
+              className="w-full px-4 py-2 glass rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 bg-transparent border border-cyan-500/30 tracking-widest uppercase"
+              placeholder="e.g. K7QM2X"
               required
               disabled={isLoading}
             />
-          </div>
 
-          <div className="border-t border-cyan-500/30 pt-6">
-            <div className="flex items-center mb-4">
+            {myClassrooms.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs text-cyan-300/70 mb-1">My classrooms</p>
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {myClassrooms.map((room) => (
+                    <div key={room.id} className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setRoomId(room.id)}
+                        disabled={isLoading}
+                        className={`flex-1 min-w-0 glass px-3 py-2 rounded-lg flex items-center justify-between text-left ${
+                          roomId === room.id ? 'border border-cyan-400' : 'border border-transparent'
+                        }`}
+                      >
+                        <span className="text-sm text-white truncate">
+                          {room.isOwner && '👑 '}{room.title}
+                        </span>
+                        <span className="text-xs text-cyan-300/80 ml-2 whitespace-nowrap">
+                          {room.isLive ? <span className="text-green-400">● Live</span> : room.lastSessionAt ? `Last: ${new Date(room.lastSessionAt).toLocaleDateString()}` : 'New'}
+                        </span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDownloadBoard(room.id)}
+                        title="Download the whiteboard as a PDF"
+                        className="glass px-2 py-2 rounded-lg text-xs text-cyan-300 border border-transparent hover:border-cyan-400"
+                      >
+                        ⬇️
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setReplayClassroom(room)}
+                        title="Replay how the whiteboard was built up"
+                        className="glass px-2 py-2 rounded-lg text-xs text-cyan-300 border border-transparent hover:border-cyan-400"
+                      >
+                        ▶️
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {rooms.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs text-cyan-300/70 mb-1">Live now</p>
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {rooms.map((room) => (
+                    <button
+                      type="button"
+                      key={room.id}
+                      onClick={() => setRoomId(room.id)}
+                      disabled={isLoading}
+                      className={`w-full glass px-3 py-2 rounded-lg flex items-center justify-between text-left ${
+                        roomId === room.id ? 'border border-cyan-400' : 'border border-transparent'
+                      }`}
+                    >
+                      <span className="text-sm text-white truncate">{room.title}</span>
+                      <span className="text-xs text-cyan-300/80 ml-2 whitespace-nowrap">
+                        {room.id} • 👥 {room.userCount}{room.hasAdmin ? ' • 👑' : ''}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="mt-3 flex space-x-2">
               <input
-                type="checkbox"
-                id="admin-toggle"
-                checked={isAdmin}
-                onChange={(e) => setIsAdmin(e.target.checked)}
-                className="h-4 w-4 text-cyan-400 focus:ring-cyan-500 border-cyan-500/30 rounded bg-transparent"
+                type="text"
+                value={newRoomTitle}
+                onChange={(e) => setNewRoomTitle(e.target.value)}
+                className="flex-1 px-3 py-2 glass rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-500 bg-transparent border border-cyan-500/30"
+                placeholder="New classroom title (optional)"
                 disabled={isLoading}
               />
-              <label htmlFor="admin-toggle" className="ml-2 text-sm text-cyan-300">
-                I want to be the teacher/admin 👑
-              </label>
+              <button
+                type="button"
+                onClick={handleCreateRoom}
+                disabled={isLoading}
+                className="cyber-btn neon-blue text-white px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                ➕ Create
+              </button>
+              <button
+                type="button"
+                onClick={fetchRooms}
+                disabled={isLoading}
+                className="glass text-cyan-300 px-3 py-2 rounded-lg text-sm"
+                title="Refresh classroom list"
+              >
+                ⟳
+              </button>
             </div>
-
-            {isAdmin && (
-              <div className="space-y-2">
-                <label htmlFor="adminCode" className="block text-sm font-medium text-purple-300">
-                  Admin Code
-                </label>
-                <input
-                  type="password"
-                  id="adminCode"
-                  value={adminCode}
-                  onChange={(e) => setAdminCode(e.target.value)}
-                  className="w-full px-4 py-2 glass rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 bg-transparent border border-purple-500/30"
-                  placeholder="Enter admin code (hint: teach123)"
-                  disabled={isLoading}
-                />
-                <p className="text-xs text-purple-300/70">
-                  Only the first person with the correct code becomes admin
-                </p>
-              </div>
-            )}
+            {roomError && <p className="mt-2 text-xs text-red-400">{roomError}</p>}
           </div>
 
           <button
             type="submit"
-            disabled={!name.trim() || isLoading}
+            disabled={!roomId.trim() || isLoading}
             className="w-full cyber-btn neon-green text-white py-3 px-4 rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition duration-300 flex items-center justify-center"
           >
             {isLoading ? (
@@ -140,6 +292,16 @@ const LandingPage: React.FC<LandingPageProps> = ({ onJoinClassroom, onLogout, us
           </p>
         </div>
       </div>
+
+      {replayClassroom && (
+        <BoardReplay
+          classroomId={replayClassroom.id}
+          title={replayClassroom.title}
+          backendUrl={backendUrl}
+          authToken={authToken}
+          onClose={() => setReplayClassroom(null)}
+        />
+      )}
     </div>
   );
 };
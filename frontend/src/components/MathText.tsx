@@ -0,0 +1,42 @@
+import React from 'react';
+import { Formula, formulaSize, mathImageUrl, splitMath, tryRenderMath } from '../whiteboard/math';
+
+interface MathTextProps {
+  text: string;
+  // Colour to draw formulas in, to match the text around them
+  color: string;
+}
+
+const MathImage: React.FC<{ formula: Formula; latex: string; color: string }> = ({ formula, latex, color }) => {
+  const size = formulaSize(formula);
+  return (
+    <img
+      alt={latex}
+      title={latex}
+      src={mathImageUrl(formula, color)}
+      className="inline max-w-full"
+      style={{ height: `${size.height}em`, verticalAlign: `${-size.depth}em` }}
+    />
+  );
+};
+
+// Text with LaTeX between $…$ or $$…$$ typeset by the same renderer as equations on the board.
+// LaTeX that cannot be typeset stays as it was written.
+const MathText: React.FC<MathTextProps> = ({ text, color }) => (
+  <>
+    {splitMath(text).map((part, index) => {
+      if ('text' in part) return <React.Fragment key={index}>{part.text}</React.Fragment>;
+      const formula = tryRenderMath(part.latex, part.display);
+      const source = part.display ? `$$${part.latex}$$` : `$${part.latex}$`;
+      if (!formula) return <React.Fragment key={index}>{source}</React.Fragment>;
+      if (!part.display) return <MathImage key={index} formula={formula} latex={part.latex} color={color} />;
+      return (
+        <span key={index} className="block text-center my-1 overflow-x-auto">
+          <MathImage formula={formula} latex={part.latex} color={color} />
+        </span>
+      );
+    })}
+  </>
+);
+
+export default MathText;
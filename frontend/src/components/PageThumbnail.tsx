@@ -0,0 +1,28 @@
+import React, { useEffect, useRef } from 'react';
+import { BOARD_ASPECT, sizeCanvas } from '../whiteboard/coordinates';
+import { BoardObject, renderObjects } from '../whiteboard/objects';
+import { backgroundStyle } from '../whiteboard/backgrounds';
+import { PageTemplate } from '../whiteboard/geometry';
+
+interface PageThumbnailProps {
+  objects: BoardObject[];
+  backgroundUrl: string | null;
+  template?: PageTemplate | null;
+  width: number;
+}
+
+// Small read-only rendering of one whiteboard page for the page strip
+const PageThumbnail: React.FC<PageThumbnailProps> = ({ objects, backgroundUrl, template, width }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = sizeCanvas(canvas, width, Math.round(width / BOARD_ASPECT));
+    if (ctx) renderObjects(ctx, objects);
+  }, [objects, width]);
+
+  return <canvas ref={canvasRef} className="block rounded" style={backgroundStyle({ url: backgroundUrl, template })} />;
+};
+
+export default PageThumbnail;
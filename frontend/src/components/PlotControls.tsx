@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { PlotObject } from '../whiteboard/objects';
+import { MAX_EXPRESSION_LENGTH, expressionError } from '../whiteboard/plot';
+
+type PlotSettings = Pick<PlotObject, 'expression' | 'axes'>;
+
+interface PlotControlsProps extends PlotSettings {
+  onChange: (changes: Partial<PlotSettings>) => void;
+}
+
+const AXIS_FIELDS = [
+  { label: 'x from', title: 'Left end of the x axis' },
+  { label: 'to', title: 'Right end of the x axis' },
+  { label: 'y from', title: 'Bottom of the y axis' },
+  { label: 'to', title: 'Top of the y axis' }
+];
+
+// The function a plot draws and the ranges of its axes. Changes are made on Enter or on leaving
+// a field, and only once they make sense: an expression that can be plotted, and each axis
+// running from a smaller number to a larger one.
+const PlotControls: React.FC<PlotControlsProps> = ({ expression, axes, onChange }) => {
+  const [expressionDraft, setExpressionDraft] = useState(expression);
+  const [axisDrafts, setAxisDrafts] = useState(axes.map(String));
+
+  useEffect(() => setExpressionDraft(expression), [expression]);
+  useEffect(() => setAxisDrafts(axes.map(String)), [axes]);
+
+  const error = expressionError(expressionDraft);
+  const values = axisDrafts.map(draft => (draft.trim() === '' ? NaN : Number(draft)));
+  const axesValid = values.every(Number.isFinite) && values[1] > values[0] && values[3] > values[2];
+
+  const commitExpression = () => {
+    if (!error && expressionDraft !== expression) onChange({ expression: expressionDraft });
+  };
+  const commitAxes = () => {
+    if (axesValid && values.some((value, index) => value !== axes[index])) onChange({ axes: values as PlotObject['axes'] });
+  };
+  const onEnter = (commit: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commit();
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-300">
+      <span>y =</span>
+      <input
+        value={expressionDraft}
+        maxLength={MAX_EXPRESSION_LENGTH}
+        onChange={(e) => setExpressionDraft(e.target.value)}
+        onBlur={commitExpression}
+        onKeyDown={onEnter(commitExpression)}
+        title={error || 'For example 2x^2 - 3x + 1, sin(x)/x or e^(-x^2)'}
+        className={`w-32 px-2 py-1 rounded bg-gray-800 text-white border ${error ? 'border-red-500' : 'border-gray-600'}`}
+      />
+      {AXIS_FIELDS.map((field, index) => (
+        <React.Fragment key={index}>
+          <span>{field.label}</span>
+          <input
+            value={axisDrafts[index]}
+            inputMode="decimal"
+            onChange={(e) => setAxisDrafts(axisDrafts.map((draft, i) => (i === index ? e.target.value : draft)))}
+            onBlur={commitAxes}
+            onKeyDown={onEnter(commitAxes)}
+            title={field.title}
+            className={`w-12 px-1 py-1 rounded bg-gray-800 text-white border ${axesValid ? 'border-gray-600' : 'border-red-500'}`}
+          />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default PlotControls;
@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Socket } from 'socket.io-client';
 import Peer from 'peerjs';
+import { RoomRole } from '../types';
 
 // Global peer instance to prevent duplicates
 let globalPeer: Peer | null = null;
@@ -11,7 +12,7 @@ let isInitializing = false;
 interface SimpleVideoCallProps {
   socket: Socket;
   userName: string;
-  userRole: 'admin' | 'student';
+  userRole: RoomRole;
   onClose: () => void;
   fullHeight?: boolean;
   height?: number; // when not full height, use a fixed height (px)
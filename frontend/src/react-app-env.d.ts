@@ -1 +1,4 @@
 /// <reference types="react-scripts" />
+
+// Sets up pdf.js's worker when loaded (see whiteboard/backgrounds.ts); it exports nothing to use
+declare module 'pdfjs-dist/build/pdf.worker.entry';
@@ -3,3 +3,7 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { TextEncoder, TextDecoder } from 'util';
+
+// jsdom leaves out the text codecs the whiteboard's wire encoding uses; Node has them
+Object.assign(global, { TextEncoder, TextDecoder });
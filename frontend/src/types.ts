@@ -0,0 +1,21 @@
+// Role of a participant inside one classroom; 'admin' is the host
+export type RoomRole = 'admin' | 'teacher' | 'ta' | 'student';
+
+// Powers the host can grant to co-teachers and TAs
+export type Permission = 'kick' | 'clearCanvas' | 'toggleDrawing' | 'manageChat' | 'admit' | 'breakouts';
+
+export const ROLE_LABELS: { [role in RoomRole]: string } = {
+  admin: '👑 Host',
+  teacher: '🧑‍🏫 Co-teacher',
+  ta: '🤝 TA',
+  student: '🎓 Student'
+};
+
+export const PERMISSION_LABELS: { [permission in Permission]: string } = {
+  kick: 'Kick',
+  clearCanvas: 'Clear canvas',
+  toggleDrawing: 'Drawing control',
+  manageChat: 'Moderate chat',
+  admit: 'Admit from lobby',
+  breakouts: 'Run breakout rooms'
+};
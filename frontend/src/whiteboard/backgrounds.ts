@@ -0,0 +1,119 @@
+import { CSSProperties } from 'react';
+import { BOARD_ASPECT, BOARD_HEIGHT, Viewport } from './coordinates';
+import { Bounds, PageBackground } from './objects';
+import { PageTemplate, templateImageUrl } from './geometry';
+
+// Worksheets and diagrams teachers put underneath the drawing. Files are turned into
+// JPEGs in the browser (one per PDF page) before they are uploaded, so the server only
+// ever stores and serves plain images.
+
+const MAX_BACKGROUND_SIDE = 2000;
+const JPEG_QUALITY = 0.9;
+
+export interface BackgroundImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// Where a background sits on the board in board coordinates: as large as fits on the page,
+// centred. Thumbnails get the same placement from `background-size: contain`.
+export const backgroundPlacement = (background: PageBackground) => {
+  const scale = Math.min(1 / background.width, 1 / BOARD_ASPECT / background.height);
+  const width = background.width * scale;
+  const height = background.height * scale;
+  return { x: (1 - width) / 2, y: (1 / BOARD_ASPECT - height) / 2, width, height };
+};
+
+// A page's background image and template as CSS backgrounds, the template on top. On the board
+// itself they move with the viewport; `view` gives the viewport and the canvas's width in CSS
+// pixels. Without it (thumbnails) the canvas shows exactly the page.
+export const backgroundStyle = (
+  page: { url: string | null; background?: PageBackground | null; template?: PageTemplate | null },
+  view?: { viewport: Viewport; width: number }
+): CSSProperties => {
+  const layers: { url: string; placement: Bounds | null; fit: string }[] = [];
+  if (page.template) layers.push({ url: templateImageUrl(page.template), placement: { x: 0, y: 0, width: 1, height: BOARD_HEIGHT }, fit: '100% 100%' });
+  if (page.url) layers.push({ url: page.url, placement: page.background ? backgroundPlacement(page.background) : null, fit: 'contain' });
+  if (layers.length === 0) return { backgroundColor: '#ffffff' };
+  const scale = view ? view.width * view.viewport.zoom : 0;
+  return {
+    backgroundColor: '#ffffff',
+    backgroundImage: layers.map(layer => `url("${layer.url}")`).join(', '),
+    backgroundSize: layers.map(({ placement, fit }) => (view && placement ? `${placement.width * scale}px ${placement.height * scale}px` : fit)).join(', '),
+    backgroundPosition: layers.map(({ placement }) => (
+      view && placement ? `${(placement.x - view.viewport.x) * scale}px ${(placement.y - view.viewport.y) * scale}px` : 'center'
+    )).join(', '),
+    backgroundRepeat: 'no-repeat'
+  };
+};
+
+export const loadImage = (url: string, crossOrigin = true) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  // Backgrounds come from the API server; CORS keeps canvases they are drawn on exportable
+  if (crossOrigin) image.crossOrigin = 'anonymous';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not load the image'));
+  image.src = url;
+});
+
+// A white canvas no larger than MAX_BACKGROUND_SIDE on either side for something this big
+const whiteCanvas = (width: number, height: number) => {
+  const scale = Math.min(1, MAX_BACKGROUND_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { canvas, ctx, scale };
+};
+
+const toJpeg = (canvas: HTMLCanvasElement) => new Promise<BackgroundImage>((resolve, reject) => {
+  canvas.toBlob((blob) => {
+    if (blob) {
+      resolve({ blob, width: canvas.width, height: canvas.height });
+    } else {
+      reject(new Error('Could not encode the image'));
+    }
+  }, 'image/jpeg', JPEG_QUALITY);
+});
+
+export const imageFileToJpeg = async (file: File) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url, false);
+    const { canvas, ctx } = whiteCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await toJpeg(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Render up to `maxPages` pages of a PDF, calling `onProgress` after each one
+export const pdfFileToJpegs = async (file: File, maxPages: number, onProgress?: (done: number, total: number) => void) => {
+  // pdf.js is large, so it is only loaded once someone imports a PDF. Its worker comes in
+  // through the entry point that hands it to pdf.js directly, which needs no worker URL
+  const [pdfjs] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.entry')]);
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const total = Math.min(pdf.numPages, maxPages);
+    const images: BackgroundImage[] = [];
+    for (let number = 1; number <= total; number++) {
+      const page = await pdf.getPage(number);
+      const size = page.getViewport({ scale: 1 });
+      const { canvas, ctx, scale } = whiteCanvas(size.width * 2, size.height * 2);
+      await page.render({ canvasContext: ctx, viewport: page.getViewport({ scale: scale * 2 }) }).promise;
+      images.push(await toJpeg(canvas));
+      onProgress?.(number, total);
+    }
+    return images;
+  } finally {
+    pdf.destroy();
+  }
+};
@@ -0,0 +1,99 @@
+// Board operations use a logical coordinate space that is independent of screen size:
+// one unit is the width of a page, so the page itself runs from 0 to 1 across and from 0 to
+// BOARD_HEIGHT down. Drawing may carry on beyond it in any direction. Every client scales
+// that space uniformly to its own canvas and viewport.
+
+// Width / height of the board; all clients keep this aspect ratio
+export const BOARD_ASPECT = 2;
+export const BOARD_HEIGHT = 1 / BOARD_ASPECT;
+
+// Brush sizes in the toolbar are pixels on a board this wide
+export const REFERENCE_WIDTH = 800;
+
+export interface BoardPoint {
+  x: number;
+  y: number;
+}
+
+// The part of the board a client has on screen: the board point at the canvas's top-left
+// corner, and the zoom (1 fits one board width across the canvas). The board itself goes on
+// forever in every direction; each client pans and zooms on its own.
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 10;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Map a pointer position on the canvas element to board coordinates (the canvas
+// may have a border, so measure from its content box)
+export const toBoardPoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number, viewport = DEFAULT_VIEWPORT): BoardPoint => {
+  const rect = canvas.getBoundingClientRect();
+  const scale = (canvas.clientWidth || rect.width) * viewport.zoom;
+  return {
+    x: viewport.x + (clientX - rect.left - canvas.clientLeft) / scale,
+    y: viewport.y + (clientY - rect.top - canvas.clientTop) / scale
+  };
+};
+
+export const toBoardSize = (pixels: number) => pixels / REFERENCE_WIDTH;
+
+// Largest board of the fixed aspect ratio that fits the available space, in CSS pixels
+export const fitBoard = (availableWidth: number, availableHeight: number) => {
+  const width = availableHeight > 0 ? Math.min(availableWidth, availableHeight * BOARD_ASPECT) : availableWidth;
+  return { width: Math.floor(width), height: Math.floor(width / BOARD_ASPECT) };
+};
+
+// Size the canvas backing store for the display's pixel density and scale the
+// context so drawing code can work in board coordinates directly
+export const sizeCanvas = (canvas: HTMLCanvasElement, cssWidth: number, cssHeight: number) => {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.style.width = `${cssWidth}px`;
+  canvas.style.height = `${cssHeight}px`;
+  canvas.width = Math.max(1, Math.round(cssWidth * ratio));
+  canvas.height = Math.max(1, Math.round(cssHeight * ratio));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.setTransform(canvas.width, 0, 0, canvas.width, 0, 0);
+  }
+  return ctx;
+};
+
+// Scale and shift the context so drawing code in board coordinates lands in the viewport
+export const applyViewport = (ctx: CanvasRenderingContext2D, viewport: Viewport) => {
+  const scale = ctx.canvas.width * viewport.zoom;
+  ctx.setTransform(scale, 0, 0, scale, -viewport.x * scale, -viewport.y * scale);
+};
+
+// Zoom by `factor`, keeping the board point `anchor` at the same place on screen
+export const zoomAround = (viewport: Viewport, anchor: BoardPoint, factor: number): Viewport => {
+  const zoom = clampZoom(viewport.zoom * factor);
+  const ratio = viewport.zoom / zoom;
+  return { zoom, x: anchor.x - (anchor.x - viewport.x) * ratio, y: anchor.y - (anchor.y - viewport.y) * ratio };
+};
+
+// Centre the viewport on a board point without changing the zoom
+export const centreOn = (viewport: Viewport, point: BoardPoint): Viewport => ({
+  zoom: viewport.zoom,
+  x: point.x - 1 / viewport.zoom / 2,
+  y: point.y - BOARD_HEIGHT / viewport.zoom / 2
+});
+
+// The viewport showing a region of the board whole and centred, with a little room around it
+export const fitViewport = (region: { x: number; y: number; width: number; height: number }): Viewport => {
+  const zoom = clampZoom(Math.min(1 / (region.width * 1.1), BOARD_HEIGHT / (region.height * 1.1)));
+  return centreOn({ ...DEFAULT_VIEWPORT, zoom }, { x: region.x + region.width / 2, y: region.y + region.height / 2 });
+};
+
+// The region of the board a viewport shows
+export const visibleRegion = (viewport: Viewport) => ({
+  x: viewport.x,
+  y: viewport.y,
+  width: 1 / viewport.zoom,
+  height: BOARD_HEIGHT / viewport.zoom
+});
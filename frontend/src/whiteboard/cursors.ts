@@ -0,0 +1,101 @@
+import { BoardPoint } from './coordinates';
+
+// Live cursors and the laser pointer. Neither is part of the board: they are drawn on a layer
+// of their own above it, in screen pixels so labels stay the same size at any zoom, and laser
+// trails fade away a moment after they are drawn.
+
+// Cursor positions are sent at most this often while the pointer moves
+export const CURSOR_INTERVAL_MS = 50;
+export const LASER_FADE_MS = 1000;
+const LASER_COLOR = '#ef4444';
+
+export interface RemoteCursor {
+  pageId: string;
+  point: BoardPoint;
+  laser: boolean;
+}
+
+export interface LaserTrail {
+  pageId: string;
+  points: (BoardPoint & { time: number })[];
+}
+
+// Board point to overlay pixels, for the viewport currently on screen
+export type Projection = (point: BoardPoint) => BoardPoint;
+
+// Each participant gets the same colour on every screen
+export const cursorColor = (id: string) => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return `hsl(${Math.abs(hash) % 360}, 75%, 45%)`;
+};
+
+export const isFading = (trail: LaserTrail, now: number) => trail.points.some(point => now - point.time < LASER_FADE_MS);
+
+// Add a point to a trail, dropping what has already faded. Moving to another page starts afresh.
+export const extendTrail = (trail: LaserTrail | undefined, pageId: string, point: BoardPoint, now: number): LaserTrail => {
+  const points = trail && trail.pageId === pageId ? trail.points.filter(old => now - old.time < LASER_FADE_MS) : [];
+  return { pageId, points: [...points, { x: point.x, y: point.y, time: now }] };
+};
+
+// Newer parts of the trail are brighter and wider
+export const drawLaserTrail = (ctx: CanvasRenderingContext2D, trail: LaserTrail, project: Projection, now: number) => {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.strokeStyle = LASER_COLOR;
+  ctx.shadowColor = LASER_COLOR;
+  ctx.shadowBlur = 8;
+  for (let i = 1; i < trail.points.length; i++) {
+    const life = 1 - (now - trail.points[i].time) / LASER_FADE_MS;
+    if (life <= 0) continue;
+    const from = project(trail.points[i - 1]);
+    const to = project(trail.points[i]);
+    ctx.globalAlpha = life;
+    ctx.lineWidth = 1 + 4 * life;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+// An arrow pointer, or a glowing dot for a laser, with the name beside it when there is one
+export const drawCursor = (ctx: CanvasRenderingContext2D, cursor: RemoteCursor, project: Projection, name: string, color: string) => {
+  const { x, y } = project(cursor.point);
+  ctx.save();
+  if (cursor.laser) {
+    ctx.fillStyle = LASER_COLOR;
+    ctx.shadowColor = LASER_COLOR;
+    ctx.shadowBlur = 12;
+    ctx.beginPath();
+    ctx.arc(x, y, 5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  } else {
+    ctx.fillStyle = color;
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x, y + 16);
+    ctx.lineTo(x + 4.5, y + 12);
+    ctx.lineTo(x + 11, y + 12);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  if (name) {
+    ctx.font = '12px sans-serif';
+    ctx.textBaseline = 'middle';
+    const labelX = x + 10;
+    const labelY = y + 18;
+    const width = ctx.measureText(name).width + 8;
+    ctx.fillStyle = cursor.laser ? LASER_COLOR : color;
+    ctx.fillRect(labelX, labelY, width, 16);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(name, labelX + 4, labelY + 8);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,250 @@
+import {
+  BoardObject, BoardPage, HIGHLIGHTER_ALPHA, LINE_HEIGHT, STICKY_TEXT_COLOR, StrokePiece, arrowHead, isInstrument, isStroke, isTextual,
+  marksOf, renderObjects, pageExtent, stickyPadding, strokePieces, textLines
+} from './objects';
+import { backgroundPlacement, loadImage } from './backgrounds';
+import { drawMarks, marksToSvg, templateMarks } from './geometry';
+import { loadMath, mathSvg, tryRenderMath } from './math';
+
+// Handouts of the board: the current page as PNG or SVG, or every page as a PDF.
+// Exports are drawn from the board objects, not copied from the screen, so they
+// come out the same whatever the window looks like or wherever it is panned to, and
+// take in everything on the page, even drawing beyond its edges.
+
+const EXPORT_WIDTH = 1600;
+
+// Maps an upload id to the URL its image is served from
+export type UploadUrl = (upload: string) => string;
+
+// Render a page onto a white sheet, with its background image and template if it has them. The sheet
+// takes in anything drawn beyond the page, so it may be larger than the page.
+// Eraser strokes cut through the ink layer only, so the sheet underneath shows through.
+const renderPage = async (page: BoardPage, uploadUrl: UploadUrl, width = EXPORT_WIDTH) => {
+  await loadMath();
+  const extent = pageExtent(page.objects);
+  const scale = width / extent.width;
+  const height = Math.round(extent.height * scale);
+  const toSheet = (ctx: CanvasRenderingContext2D) => ctx.setTransform(scale, 0, 0, scale, -extent.x * scale, -extent.y * scale);
+  const ink = document.createElement('canvas');
+  ink.width = width;
+  ink.height = height;
+  const inkCtx = ink.getContext('2d');
+  if (inkCtx) {
+    toSheet(inkCtx);
+    renderObjects(inkCtx, page.objects);
+  }
+
+  const sheet = document.createElement('canvas');
+  sheet.width = width;
+  sheet.height = height;
+  const ctx = sheet.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    if (page.background) {
+      const image = await loadImage(uploadUrl(page.background.upload));
+      const { x, y, width: imageWidth, height: imageHeight } = backgroundPlacement(page.background);
+      toSheet(ctx);
+      ctx.drawImage(image, x, y, imageWidth, imageHeight);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+    }
+    if (page.template) {
+      toSheet(ctx);
+      drawMarks(ctx, templateMarks(page.template));
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+    }
+    ctx.drawImage(ink, 0, 0);
+  }
+  return sheet;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportPng = async (page: BoardPage, filename: string, uploadUrl: UploadUrl) => {
+  const sheet = await renderPage(page, uploadUrl);
+  sheet.toBlob(blob => {
+    if (blob) downloadBlob(blob, filename);
+  }, 'image/png');
+};
+
+const num = (value: number) => String(Math.round(value * EXPORT_WIDTH * 100) / 100);
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const svgElement = (object: BoardObject, color = object.color) => {
+  if (isTextual(object)) {
+    const padding = object.type === 'sticky' ? stickyPadding(object) : 0;
+    const lines = textLines(object).map((line, index) => {
+      const y = object.y + padding + index * object.fontSize * LINE_HEIGHT;
+      return `<tspan x="${num(object.x + padding)}" y="${num(y)}">${escapeXml(line)}</tspan>`;
+    });
+    const textColor = object.type === 'sticky' ? STICKY_TEXT_COLOR : color;
+    const text = `<text font-family="sans-serif" font-size="${num(object.fontSize)}" fill="${escapeXml(textColor)}" dominant-baseline="text-before-edge" xml:space="preserve">${lines.join('')}</text>`;
+    if (object.type === 'text') return text;
+    return `<g><rect x="${num(object.x)}" y="${num(object.y)}" width="${num(object.width)}" height="${num(object.height)}" fill="${escapeXml(color)}"/>${text}</g>`;
+  }
+  if (isInstrument(object) || object.type === 'plot') {
+    return `<g>${marksToSvg(marksOf(object), EXPORT_WIDTH)}</g>`;
+  }
+  if (object.type === 'equation') {
+    const formula = tryRenderMath(object.latex);
+    if (formula) return mathSvg(formula, color, `x="${num(object.x)}" y="${num(object.y)}" width="${num(object.width)}" height="${num(object.height)}"`);
+    return `<text x="${num(object.x)}" y="${num(object.y)}" font-family="sans-serif" font-size="${num(object.height / LINE_HEIGHT)}" fill="${escapeXml(color)}" dominant-baseline="text-before-edge" xml:space="preserve">${escapeXml(object.latex)}</text>`;
+  }
+
+  const fill = (object.type === 'rect' || object.type === 'circle' || object.type === 'polygon') && object.fill ? escapeXml(color) : 'none';
+  const opacity = object.type === 'highlighter' ? ` stroke-opacity="${HIGHLIGHTER_ALPHA}"` : '';
+  const styleFor = (width: number) => `fill="${fill}" stroke="${escapeXml(color)}" stroke-width="${num(width)}" stroke-linecap="round" stroke-linejoin="round"${opacity}`;
+  const style = styleFor(object.size);
+
+  if (isStroke(object)) {
+    const curve = (piece: StrokePiece) => `Q${num(piece.control.x)} ${num(piece.control.y)} ${num(piece.to.x)} ${num(piece.to.y)}`;
+    const pieces = strokePieces(object);
+    const start = `M${num(pieces[0].from.x)} ${num(pieces[0].from.y)}`;
+    if (object.points.length === 2) return `<path d="${start} L${num(pieces[0].to.x)} ${num(pieces[0].to.y)}" ${style}/>`;
+    if (!object.pressures) return `<path d="${start} ${pieces.map(curve).join(' ')}" ${style}/>`;
+    // Pressure changes the width along the stroke, so each piece is a path of its own
+    const paths = pieces.map(piece => `<path d="M${num(piece.from.x)} ${num(piece.from.y)} ${curve(piece)}" ${styleFor(piece.width)}/>`);
+    return `<g>${paths.join('')}</g>`;
+  }
+  if (object.type === 'polygon') {
+    const points = [];
+    for (let i = 0; i < object.points.length; i += 2) points.push(`${num(object.points[i])},${num(object.points[i + 1])}`);
+    return `<polygon points="${points.join(' ')}" ${style}/>`;
+  }
+  if (object.type === 'line') {
+    return `<line x1="${num(object.x1)}" y1="${num(object.y1)}" x2="${num(object.x2)}" y2="${num(object.y2)}" ${style}/>`;
+  }
+  if (object.type === 'arrow') {
+    const [left, right] = arrowHead(object);
+    const end = `${num(object.x2)} ${num(object.y2)}`;
+    return `<path d="M${num(object.x1)} ${num(object.y1)} L${end} M${num(left.x)} ${num(left.y)} L${end} L${num(right.x)} ${num(right.y)}" ${style}/>`;
+  }
+  if (object.type === 'rect') {
+    const x = Math.min(object.x1, object.x2);
+    const y = Math.min(object.y1, object.y2);
+    return `<rect x="${num(x)}" y="${num(y)}" width="${num(Math.abs(object.x2 - object.x1))}" height="${num(Math.abs(object.y2 - object.y1))}" ${style}/>`;
+  }
+  const rx = (object.x2 - object.x1) / 2;
+  const ry = (object.y2 - object.y1) / 2;
+  return `<circle cx="${num(object.x1 + rx)}" cy="${num(object.y1 + ry)}" r="${num(Math.sqrt(rx * rx + ry * ry))}" ${style}/>`;
+};
+
+// `backgroundData` is the background as a data URL, so the file works on its own
+export const pageToSvg = (page: BoardPage, backgroundData?: string) => {
+  const extent = pageExtent(page.objects);
+  const [x, y, width, height] = [extent.x, extent.y, extent.width, extent.height].map(num);
+  let background = '';
+  if (page.background && backgroundData) {
+    const placement = backgroundPlacement(page.background);
+    background = `<image x="${num(placement.x)}" y="${num(placement.y)}" width="${num(placement.width)}" height="${num(placement.height)}" preserveAspectRatio="none" href="${backgroundData}"/>`;
+  }
+  if (page.template) background += `<g>${marksToSvg(templateMarks(page.template), EXPORT_WIDTH)}</g>`;
+
+  // Each eraser stroke masks out everything drawn before it, leaving the background intact
+  const masks: string[] = [];
+  let ink = '';
+  page.objects.forEach((object) => {
+    if (object.type !== 'eraser') {
+      ink += `${svgElement(object)}\n`;
+      return;
+    }
+    const id = `erase-${masks.length}`;
+    masks.push(`<mask id="${id}" maskUnits="userSpaceOnUse" x="${x}" y="${y}" width="${width}" height="${height}"><rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#ffffff"/>${svgElement(object, '#000000')}</mask>`);
+    ink = `<g mask="url(#${id})">\n${ink}</g>\n`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+    `<defs>${masks.join('')}</defs>`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#ffffff"/>`,
+    background,
+    `${ink}</svg>`,
+    ''
+  ].join('\n');
+};
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const exportSvg = async (page: BoardPage, filename: string, uploadUrl: UploadUrl) => {
+  await loadMath();
+  let backgroundData: string | undefined;
+  if (page.background) {
+    const response = await fetch(uploadUrl(page.background.upload));
+    if (!response.ok) throw new Error('Could not load the page background');
+    backgroundData = await blobToDataUrl(await response.blob());
+  }
+  downloadBlob(new Blob([pageToSvg(page, backgroundData)], { type: 'image/svg+xml' }), filename);
+};
+
+const jpegBytes = (canvas: HTMLCanvasElement) => {
+  const binary = atob(canvas.toDataURL('image/jpeg', 0.92).split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// A minimal PDF with one JPEG image per page, so the handout looks exactly like the board
+export const exportPdf = async (pages: BoardPage[], filename: string, uploadUrl: UploadUrl) => {
+  const pageWidth = 842; // points, the long side of an A4 sheet
+  const parts: (string | Uint8Array)[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  // Everything but the image data is ASCII, so string length is byte length
+  const write = (part: string | Uint8Array) => {
+    parts.push(part);
+    length += part.length;
+  };
+  const writeObject = (id: number, ...body: (string | Uint8Array)[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    body.forEach(write);
+    write('\nendobj\n');
+  };
+
+  // Objects 1 and 2 are the catalog and page tree; each page then takes three
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+  write('%PDF-1.4\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  for (let index = 0; index < pages.length; index++) {
+    const canvas = await renderPage(pages[index], uploadUrl);
+    const image = jpegBytes(canvas);
+    // Pages with drawing beyond their edges come out taller or shrink to fit the width
+    const pageHeight = pageWidth * canvas.height / canvas.width;
+    const [pageId, imageId, contentId] = [pageIds[index], pageIds[index] + 1, pageIds[index] + 2];
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Board Do Q`;
+    writeObject(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Board ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+    writeObject(
+      imageId,
+      `<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.length} >>\nstream\n`,
+      image,
+      '\nendstream'
+    );
+    writeObject(contentId, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  }
+
+  const count = 3 + pages.length * 3;
+  const xref = length;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  downloadBlob(new Blob(parts as BlobPart[], { type: 'application/pdf' }), filename);
+};
@@ -0,0 +1,15 @@
+import { BoardObject, Stamp } from './objects';
+import fixtures from '../../../backend/fixtures';
+import serverGeometry from '../../../backend/geometry';
+import serverWire from '../../../backend/wire';
+
+// For tests only: the board fixtures the server's tests use too, and the server's own code for
+// tests that check the two sides agree. Nothing else may import this; the app never bundles
+// the server.
+
+export { serverGeometry, serverWire };
+
+export const pen = (id: string, created: Stamp, fields: Partial<BoardObject> = {}) =>
+  fixtures.pen(id, created, fields) as BoardObject;
+
+export const inEveryOrder: <T, R>(ops: T[], outcome: (order: T[]) => R) => R[] = fixtures.inEveryOrder;
@@ -0,0 +1,52 @@
+import { BOARD_HEIGHT } from './coordinates';
+import { GRID, PAGE_TEMPLATES, RULER_WIDTH, instrumentMarks, instrumentOutline, templateMarks } from './geometry';
+// Exports rule pages and draw instruments on the server, so its marks have to match these
+import { serverGeometry } from './fixtures';
+
+describe('templateMarks', () => {
+  it('rules squared paper a grid square apart', () => {
+    const marks = templateMarks('squared');
+    expect(marks).toHaveLength(Math.round(1 / GRID) - 1 + Math.round(BOARD_HEIGHT / GRID) - 1);
+    expect(marks[0]).toEqual({ kind: 'path', points: [GRID, 0, GRID, BOARD_HEIGHT], stroke: '#cbd5e1', width: 0.001 });
+  });
+
+  it('keeps staves inside the page', () => {
+    templateMarks('staff').forEach((mark) => {
+      expect(mark.kind === 'path' && mark.points.every((value, i) => value >= 0 && value <= (i % 2 === 0 ? 1 : BOARD_HEIGHT))).toBe(true);
+    });
+  });
+
+  it('rules pages as the server does in exports', () => {
+    PAGE_TEMPLATES.forEach(({ value }) => expect(serverGeometry.templateMarks(value)).toEqual(templateMarks(value)));
+  });
+});
+
+describe('instruments', () => {
+  const edge = { x1: 0.2, y1: 0.3, x2: 0.5, y2: 0.3 };
+
+  it('lays a ruler above an edge drawn left to right', () => {
+    const outline = instrumentOutline('ruler', edge);
+    expect(outline[0]).toEqual({ x: 0.2, y: 0.3 });
+    expect(outline[1]).toEqual({ x: 0.5, y: 0.3 });
+    expect(outline[2].y).toBeCloseTo(0.3 - RULER_WIDTH);
+  });
+
+  it('numbers a ruler in grid squares', () => {
+    const labels = instrumentMarks('ruler', edge, '#111827').filter(mark => mark.kind === 'label');
+    expect(labels.map(mark => mark.kind === 'label' && mark.text)).toEqual(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12']);
+  });
+
+  it('marks a protractor from 0 to 180 degrees', () => {
+    const labels = instrumentMarks('protractor', edge, '#111827').filter(mark => mark.kind === 'label');
+    expect(labels).toHaveLength(19);
+    const outline = instrumentOutline('protractor', edge);
+    outline.forEach(point => expect(Math.hypot(point.x - 0.35, point.y - 0.3)).toBeCloseTo(0.15));
+  });
+
+  it('draws instruments as the server does in exports', () => {
+    const slanted = { x1: 0.1, y1: 0.4, x2: 0.35, y2: 0.2 };
+    (['ruler', 'protractor'] as const).forEach((type) => {
+      expect(serverGeometry.objectMarks({ type, ...slanted, color: '#111827' })).toEqual(instrumentMarks(type, slanted, '#111827'));
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { BOARD_HEIGHT, BoardPoint } from './coordinates';
+
+// Aids for geometry and graphing: the templates a page can be ruled with, and the ruler and
+// protractor that can be laid on the board. Each is described as marks (lines, dots and
+// labels in board units) so the board, its thumbnails, replays and every export draw them
+// alike. backend/geometry.js makes the same marks for the server's exports.
+
+export type PageTemplate = 'squared' | 'dotted' | 'graph' | 'staff';
+
+export const PAGE_TEMPLATES: { value: PageTemplate; label: string }[] = [
+  { value: 'squared', label: 'Squared' },
+  { value: 'dotted', label: 'Dotted' },
+  { value: 'graph', label: 'Graph paper' },
+  { value: 'staff', label: 'Music staff' }
+];
+
+export type Mark =
+  // A polyline, closed into a polygon if `closed`; filled with `fill` (at `fillOpacity`) if given
+  | { kind: 'path'; points: number[]; closed?: boolean; stroke?: string; width?: number; fill?: string; fillOpacity?: number }
+  | { kind: 'dot'; x: number; y: number; radius: number; color: string }
+  // Text centred on (x, y), turned `angle` radians clockwise
+  | { kind: 'label'; x: number; y: number; text: string; size: number; angle: number; color: string };
+
+// One square of the squared, dotted and graph paper templates; the ruler is marked in them
+export const GRID = 0.025;
+const STAFF_SPACE = 0.01;
+const STAFF_GAP = 0.05;
+const STAFF_MARGIN = 0.04;
+
+export const RULER_WIDTH = 0.04;
+// Tick marks drawn at most, however long a ruler is made
+const MAX_TICKS = 2000;
+
+// Lines every `step` across and down the page
+const gridLines = (step: number, stroke: string, width: number, every = 1) => {
+  const marks: Mark[] = [];
+  for (let i = 1; i * step < 1 - 1e-9; i++) {
+    if (i % every === 0) marks.push({ kind: 'path', points: [i * step, 0, i * step, BOARD_HEIGHT], stroke, width });
+  }
+  for (let i = 1; i * step < BOARD_HEIGHT - 1e-9; i++) {
+    if (i % every === 0) marks.push({ kind: 'path', points: [0, i * step, 1, i * step], stroke, width });
+  }
+  return marks;
+};
+
+const templateCache = new Map<PageTemplate, Mark[]>();
+
+/**
+ * The marks a template rules the page (0 to 1 across, 0 to BOARD_HEIGHT down) with
+ */
+export const templateMarks = (template: PageTemplate): Mark[] => {
+  const cached = templateCache.get(template);
+  if (cached) return cached;
+  let marks: Mark[] = [];
+  if (template === 'squared') {
+    marks = gridLines(GRID, '#cbd5e1', 0.001);
+  } else if (template === 'graph') {
+    // Fine lines, with every fifth one bolder
+    marks = [...gridLines(GRID / 5, '#dbeafe', 0.0006), ...gridLines(GRID / 5, '#93c5fd', 0.0012, 5)];
+  } else if (template === 'dotted') {
+    for (let x = GRID; x < 1 - 1e-9; x += GRID) {
+      for (let y = GRID; y < BOARD_HEIGHT - 1e-9; y += GRID) marks.push({ kind: 'dot', x, y, radius: 0.0015, color: '#94a3b8' });
+    }
+  } else {
+    // As many five-line staves as fit, centred down the page
+    const height = STAFF_SPACE * 4;
+    const count = Math.floor((BOARD_HEIGHT - STAFF_MARGIN * 2 + STAFF_GAP) / (height + STAFF_GAP));
+    const top = (BOARD_HEIGHT - count * height - (count - 1) * STAFF_GAP) / 2;
+    for (let staff = 0; staff < count; staff++) {
+      const y = top + staff * (height + STAFF_GAP);
+      for (let line = 0; line < 5; line++) {
+        marks.push({ kind: 'path', points: [STAFF_MARGIN, y + line * STAFF_SPACE, 1 - STAFF_MARGIN, y + line * STAFF_SPACE], stroke: '#6b7280', width: 0.0012 });
+      }
+      [STAFF_MARGIN, 1 - STAFF_MARGIN].forEach(x => marks.push({ kind: 'path', points: [x, y, x, y + height], stroke: '#6b7280', width: 0.0012 }));
+    }
+  }
+  templateCache.set(template, marks);
+  return marks;
+};
+
+export interface Edge {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// An instrument's edge: where it starts, its length, the way along it and the way its body lies
+// (to the left looking along it, so one laid left to right stands above its edge)
+const frameOf = (edge: Edge) => {
+  const length = Math.hypot(edge.x2 - edge.x1, edge.y2 - edge.y1);
+  const along = length ? { x: (edge.x2 - edge.x1) / length, y: (edge.y2 - edge.y1) / length } : { x: 1, y: 0 };
+  const across = { x: along.y, y: -along.x };
+  const at = (distance: number, height: number): BoardPoint => ({
+    x: edge.x1 + along.x * distance + across.x * height,
+    y: edge.y1 + along.y * distance + across.y * height
+  });
+  return { length, angle: Math.atan2(along.y, along.x), at };
+};
+
+// Points around the outside of a ruler or protractor, for its bounds and for picking it up
+export const instrumentOutline = (type: 'ruler' | 'protractor', edge: Edge): BoardPoint[] => {
+  const { length, at } = frameOf(edge);
+  if (type === 'ruler') return [at(0, 0), at(length, 0), at(length, RULER_WIDTH), at(0, RULER_WIDTH)];
+  const radius = length / 2;
+  const outline: BoardPoint[] = [];
+  for (let i = 0; i <= 36; i++) {
+    const angle = (i / 36) * Math.PI;
+    outline.push(at(radius + radius * Math.cos(angle), radius * Math.sin(angle)));
+  }
+  return outline;
+};
+
+const flat = (points: BoardPoint[]) => points.flatMap(point => [point.x, point.y]);
+
+// A ruler along its edge, numbered in grid squares with tenths between
+const rulerMarks = (edge: Edge, color: string): Mark[] => {
+  const { length, angle, at } = frameOf(edge);
+  const marks: Mark[] = [
+    { kind: 'path', points: flat(instrumentOutline('ruler', edge)), closed: true, stroke: color, width: 0.0008, fill: '#fde68a', fillOpacity: 0.55 }
+  ];
+  const step = GRID / 10;
+  const count = Math.min(MAX_TICKS, Math.floor(length / step + 1e-9));
+  for (let i = 0; i <= count; i++) {
+    const height = RULER_WIDTH * (i % 10 === 0 ? 0.4 : i % 5 === 0 ? 0.28 : 0.18);
+    marks.push({ kind: 'path', points: flat([at(i * step, 0), at(i * step, height)]), stroke: color, width: 0.0005 });
+    if (i % 10 === 0) {
+      const label = at(i * step, RULER_WIDTH * 0.62);
+      marks.push({ kind: 'label', x: label.x, y: label.y, text: String(i / 10), size: RULER_WIDTH * 0.28, angle, color });
+    }
+  }
+  return marks;
+};
+
+// A half-circle protractor with its straight edge on the instrument's edge, in degrees
+// counted from its far end
+const protractorMarks = (edge: Edge, color: string): Mark[] => {
+  const { length, angle: edgeAngle, at } = frameOf(edge);
+  const radius = length / 2;
+  const polar = (degrees: number, distance: number) => {
+    const angle = (degrees * Math.PI) / 180;
+    return at(radius + distance * Math.cos(angle), distance * Math.sin(angle));
+  };
+  const marks: Mark[] = [
+    { kind: 'path', points: flat(instrumentOutline('protractor', edge)), closed: true, stroke: color, width: radius * 0.006, fill: '#bae6fd', fillOpacity: 0.55 }
+  ];
+  for (let degrees = 0; degrees <= 180; degrees++) {
+    const tick = radius * (degrees % 10 === 0 ? 0.12 : degrees % 5 === 0 ? 0.08 : 0.05);
+    marks.push({ kind: 'path', points: flat([polar(degrees, radius), polar(degrees, radius - tick)]), stroke: color, width: radius * 0.003 });
+    if (degrees % 10 === 0) {
+      const label = polar(degrees, radius * 0.8);
+      marks.push({ kind: 'label', x: label.x, y: label.y, text: String(degrees), size: radius * 0.07, angle: edgeAngle + Math.PI / 2 - (degrees * Math.PI) / 180, color });
+    }
+  }
+  // The centre the angles are measured around
+  const centre = at(radius, 0);
+  const cross = radius * 0.05;
+  marks.push({ kind: 'path', points: flat([polar(90, cross), centre]), stroke: color, width: radius * 0.004 });
+  marks.push({ kind: 'path', points: flat([at(radius - cross, 0), at(radius + cross, 0)]), stroke: color, width: radius * 0.004 });
+  return marks;
+};
+
+export const instrumentMarks = (type: 'ruler' | 'protractor', edge: Edge, color: string) =>
+  (type === 'ruler' ? rulerMarks(edge, color) : protractorMarks(edge, color));
+
+// Browsers handle fonts of a fraction of a pixel badly, so labels are set in thousandths of the board
+const LABEL_SCALE = 1000;
+
+export const drawMarks = (ctx: CanvasRenderingContext2D, marks: Mark[]) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  marks.forEach((mark) => {
+    if (mark.kind === 'dot') {
+      ctx.fillStyle = mark.color;
+      ctx.beginPath();
+      ctx.arc(mark.x, mark.y, mark.radius, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (mark.kind === 'label') {
+      ctx.save();
+      ctx.translate(mark.x, mark.y);
+      ctx.rotate(mark.angle);
+      ctx.scale(1 / LABEL_SCALE, 1 / LABEL_SCALE);
+      ctx.font = `${mark.size * LABEL_SCALE}px sans-serif`;
+      ctx.fillStyle = mark.color;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(mark.text, 0, 0);
+      ctx.restore();
+    } else {
+      ctx.beginPath();
+      ctx.moveTo(mark.points[0], mark.points[1]);
+      for (let i = 2; i < mark.points.length; i += 2) ctx.lineTo(mark.points[i], mark.points[i + 1]);
+      if (mark.closed) ctx.closePath();
+      if (mark.fill) {
+        ctx.globalAlpha = mark.fillOpacity ?? 1;
+        ctx.fillStyle = mark.fill;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+      }
+      if (mark.stroke && mark.width) {
+        ctx.strokeStyle = mark.stroke;
+        ctx.lineWidth = mark.width;
+        ctx.stroke();
+      }
+    }
+  });
+  ctx.restore();
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// The marks as SVG elements, with board units multiplied by `scale`
+export const marksToSvg = (marks: Mark[], scale: number) => {
+  const s = (value: number) => String(Math.round(value * scale * 100) / 100);
+  return marks.map((mark) => {
+    if (mark.kind === 'dot') return `<circle cx="${s(mark.x)}" cy="${s(mark.y)}" r="${s(mark.radius)}" fill="${escapeXml(mark.color)}"/>`;
+    if (mark.kind === 'label') {
+      const degrees = Math.round((mark.angle * 180 / Math.PI) * 100) / 100;
+      return `<text x="${s(mark.x)}" y="${s(mark.y)}" transform="rotate(${degrees} ${s(mark.x)} ${s(mark.y)})" font-family="sans-serif" font-size="${s(mark.size)}" fill="${escapeXml(mark.color)}" text-anchor="middle" dominant-baseline="central">${escapeXml(mark.text)}</text>`;
+    }
+    const points = [];
+    for (let i = 0; i < mark.points.length; i += 2) points.push(`${s(mark.points[i])},${s(mark.points[i + 1])}`);
+    const fill = mark.fill ? `fill="${escapeXml(mark.fill)}"${mark.fillOpacity !== undefined ? ` fill-opacity="${mark.fillOpacity}"` : ''}` : 'fill="none"';
+    const stroke = mark.stroke && mark.width ? `stroke="${escapeXml(mark.stroke)}" stroke-width="${s(mark.width)}" stroke-linecap="round" stroke-linejoin="round"` : '';
+    return `<${mark.closed ? 'polygon' : 'polyline'} points="${points.join(' ')}" ${fill} ${stroke}/>`;
+  }).join('');
+};
+
+const templateUrls = new Map<PageTemplate, string>();
+
+// A template as an image of the whole page, to go underneath the drawing like a background
+export const templateImageUrl = (template: PageTemplate) => {
+  let url = templateUrls.get(template);
+  if (!url) {
+    const width = 1000;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${width * BOARD_HEIGHT}">${marksToSvg(templateMarks(template), width)}</svg>`;
+    url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    templateUrls.set(template, url);
+  }
+  return url;
+};
@@ -0,0 +1,66 @@
+import { BoardObject, Stamp } from './objects';
+import { emptyHistory, pickFields, record, step } from './history';
+import { pen as penAt } from './fixtures';
+
+const pen = (id: string, stamps: { [field: string]: Stamp } = {}) => penAt(id, [1, 'me'], { stamps });
+
+const onPage = (objects: BoardObject[]) => (pageId: string) => (pageId === 'page' ? objects : null);
+
+describe('step', () => {
+  it('takes back an add and brings the object back on redo', () => {
+    const object = pen('x');
+    const history = record(emptyHistory(), { pageId: 'page', kind: 'add', id: 'x' });
+
+    const undone = step(history, 'undo', onPage([object]), 'me');
+    expect(undone.op).toEqual({ op: 'delete', id: 'x' });
+    expect(undone.pageId).toBe('page');
+    expect(undone.history.undo).toHaveLength(0);
+
+    const redone = step(undone.history, 'redo', onPage([]), 'me');
+    expect(redone.op).toEqual({ op: 'restore', id: 'x', object });
+    expect(redone.history.undo).toHaveLength(1);
+  });
+
+  it('puts back the fields of an edit', () => {
+    const object = pen('x', { color: [3, 'me'], size: [3, 'me'] });
+    const changes = { color: '#ff0000', size: 0.01 };
+    const history = record(emptyHistory(), { pageId: 'page', kind: 'update', id: 'x', before: pickFields(pen('x'), changes), after: changes });
+    expect(step(history, 'undo', onPage([object]), 'me').op).toEqual({ op: 'update', id: 'x', changes: { color: '#000000', size: 0.004 } });
+  });
+
+  it('leaves fields others have changed since alone', () => {
+    const changes = { color: '#ff0000', size: 0.01 };
+    const entry = { pageId: 'page', kind: 'update' as const, id: 'x', before: pickFields(pen('x'), changes), after: changes };
+
+    const partly = pen('x', { color: [4, 'someone'], size: [3, 'me'] });
+    expect(step(record(emptyHistory(), entry), 'undo', onPage([partly]), 'me').op).toEqual({ op: 'update', id: 'x', changes: { size: 0.004 } });
+
+    const wholly = pen('x', { color: [4, 'someone'], size: [4, 'someone'] });
+    const skipped = step(record(emptyHistory(), entry), 'undo', onPage([wholly]), 'me');
+    expect(skipped.op).toBeNull();
+    expect(skipped.history.undo).toHaveLength(0);
+  });
+
+  it('skips entries for objects and pages that are gone', () => {
+    let history = record(emptyHistory(), { pageId: 'page', kind: 'add', id: 'x' });
+    history = record(history, { pageId: 'deleted-page', kind: 'add', id: 'y' });
+    history = record(history, { pageId: 'page', kind: 'add', id: 'z' });
+
+    const undone = step(history, 'undo', onPage([pen('x')]), 'me');
+    expect(undone.op).toEqual({ op: 'delete', id: 'x' });
+    expect(undone.history).toEqual({ undo: [], redo: [{ ...history.undo[0], object: pen('x') }] });
+  });
+
+  it('leaves the history it was given as it was', () => {
+    const history = record(emptyHistory(), { pageId: 'page', kind: 'add', id: 'x' });
+    const before = JSON.parse(JSON.stringify(history));
+    step(history, 'undo', onPage([pen('x')]), 'me');
+    expect(history).toEqual(before);
+  });
+
+  it('forgets what could be redone once something new is done', () => {
+    const history = step(record(emptyHistory(), { pageId: 'page', kind: 'add', id: 'x' }), 'undo', onPage([pen('x')]), 'me').history;
+    expect(history.redo).toHaveLength(1);
+    expect(record(history, { pageId: 'page', kind: 'add', id: 'y' }).redo).toHaveLength(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { BoardChange, BoardObject } from './objects';
+
+// Undo/redo for one user's own changes on a shared board. Entries describe what the user
+// did rather than the board as a whole, so undoing never touches other people's work:
+// reversing an entry produces an ordinary board op that every client applies the same way.
+export type HistoryEntry = { pageId: string } & (
+  | { kind: 'add'; id: string; object?: BoardObject }
+  | { kind: 'delete'; id: string; object: BoardObject }
+  | { kind: 'update'; id: string; before: Partial<BoardObject>; after: Partial<BoardObject> }
+);
+
+const MAX_HISTORY = 100;
+
+export interface History {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export const emptyHistory = (): History => ({ undo: [], redo: [] });
+
+export const record = (history: History, entry: HistoryEntry): History => ({
+  undo: [...history.undo, entry].slice(-MAX_HISTORY),
+  redo: []
+});
+
+// Values of the given fields before a change, so the change can be reversed later
+export const pickFields = (object: BoardObject, changes: Partial<BoardObject>): Partial<BoardObject> => {
+  const before: { [field: string]: unknown } = {};
+  Object.keys(changes).forEach((field) => {
+    before[field] = (object as unknown as { [field: string]: unknown })[field];
+  });
+  return before as Partial<BoardObject>;
+};
+
+// The fields of `values` that this user (`replica`) was the last to change on `object`; a field
+// someone else has changed since keeps their change
+const ownFields = (object: BoardObject, values: Partial<BoardObject>, replica: string): Partial<BoardObject> => {
+  const own: { [field: string]: unknown } = {};
+  Object.entries(values).forEach(([field, value]) => {
+    if (object.stamps?.[field]?.[1] === replica) own[field] = value;
+  });
+  return own as Partial<BoardObject>;
+};
+
+// Op that takes `entry` back (direction 'undo') or forward again ('redo'), with the entry to
+// keep for the other direction, or null when someone else has since removed what it refers
+// to, or changed everything it changed
+const opFor = (
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+  objects: BoardObject[],
+  replica: string
+): { op: BoardChange; entry: HistoryEntry } | null => {
+  const current = objects.find(object => object.id === entry.id);
+
+  if (entry.kind === 'update') {
+    if (!current) return null;
+    const changes = ownFields(current, direction === 'undo' ? entry.before : entry.after, replica);
+    return Object.keys(changes).length > 0 ? { op: { op: 'update', id: entry.id, changes }, entry } : null;
+  }
+
+  // Undoing an add and redoing a delete both take the object away; the other two bring it back.
+  // What is taken away is kept as it was then, so bringing it back includes others' changes.
+  const remove = (entry.kind === 'add') === (direction === 'undo');
+  if (remove) {
+    if (!current) return null;
+    return { op: { op: 'delete', id: entry.id }, entry: { ...entry, object: current } };
+  }
+  return !current && entry.object ? { op: { op: 'restore', id: entry.id, object: entry.object }, entry } : null;
+};
+
+// Step through the history, skipping entries that no longer apply (including ones on pages
+// that were deleted). `replica` is the one this user's changes are stamped with. Returns the op
+// to send and the page it is for, plus the updated history.
+export const step = (
+  history: History,
+  direction: 'undo' | 'redo',
+  objectsOf: (pageId: string) => BoardObject[] | null,
+  replica: string
+): { op: BoardChange | null; pageId: string | null; history: History } => {
+  const from = direction === 'undo' ? [...history.undo] : [...history.redo];
+  const to = direction === 'undo' ? [...history.redo] : [...history.undo];
+
+  while (from.length > 0) {
+    const entry = from.pop() as HistoryEntry;
+    const objects = objectsOf(entry.pageId);
+    const reversal = objects && opFor(entry, direction, objects, replica);
+    if (reversal) {
+      to.push(reversal.entry);
+      return {
+        op: reversal.op,
+        pageId: entry.pageId,
+        history: direction === 'undo' ? { undo: from, redo: to } : { undo: to, redo: from }
+      };
+    }
+  }
+  return { op: null, pageId: null, history: direction === 'undo' ? { undo: from, redo: to } : { undo: to, redo: from } };
+};
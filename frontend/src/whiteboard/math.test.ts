@@ -0,0 +1,25 @@
+import { loadMath, renderMath, splitMath, tryRenderMath } from './math';
+
+describe('renderMath', () => {
+  it('has no formulas until MathJax has loaded', async () => {
+    expect(tryRenderMath('x^2')).toBeNull();
+    expect(() => renderMath('x^2')).toThrow('Equations are still loading');
+    await loadMath();
+    expect(tryRenderMath('x^2')?.shapes.length).toBeGreaterThan(0);
+  });
+
+  it('says what is wrong with the LaTeX', async () => {
+    await loadMath();
+    expect(() => renderMath('\\frac{1}')).toThrow();
+    expect(() => renderMath('x'.repeat(1001))).toThrow('This formula is too long');
+  });
+});
+
+describe('splitMath', () => {
+  it('finds formulas between dollar signs but leaves prices alone', () => {
+    expect(splitMath('Solve $x^2 = 4$ for $5 and $10')).toEqual([
+      { text: 'Solve ' }, { latex: 'x^2 = 4', display: false }, { text: ' for $5 and $10' }
+    ]);
+    expect(splitMath('$$\\int_0^1 x$$')).toEqual([{ latex: '\\int_0^1 x', display: true }]);
+  });
+});
@@ -0,0 +1,272 @@
+import type { LiteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js';
+import type { LiteElement } from 'mathjax-full/js/adaptors/lite/Element.js';
+import { Bounds } from './objects';
+
+// LaTeX typeset by MathJax, for equations on the board and formulas in chat. MathJax lays a
+// formula out as SVG: glyph outlines, rules and the odd line, in units of 1/1000 em with the
+// baseline at y = 0. The board draws those outlines straight onto its canvas, so equations
+// are as crisp as ink at any zoom and are drawn at once like everything else; chat and the
+// SVG export use the SVG itself. backend/math.js does the same for the server's exports.
+// MathJax is large and many lessons have no formulas, so it loads on its own after the page.
+
+// Only what a LaTeX source in a board object or chat message may be
+export const MAX_LATEX_LENGTH = 1000;
+
+const PACKAGES = ['base', 'ams', 'newcommand', 'boldsymbol', 'braket', 'cancel', 'cases', 'color', 'gensymb', 'mathtools', 'mhchem', 'textmacros', 'upgreek'];
+const EM = 1000;
+const MAX_CACHED = 300;
+
+type Matrix = [number, number, number, number, number, number];
+
+// One thing to paint, placed by `matrix` in the formula's units. Colours may be
+// 'currentColor', which is whatever colour the formula is drawn in.
+export type MathShape = { matrix: Matrix; fill: string; stroke: string; strokeWidth: number } & (
+  | { kind: 'path'; d: string; path?: Path2D }
+  | { kind: 'text'; text: string; font: string }
+);
+
+export interface Formula {
+  // [minX, minY, width, height] of the formula, in 1/1000 em, y down, baseline at 0
+  viewBox: [number, number, number, number];
+  shapes: MathShape[];
+  // The SVG's contents, to nest in another SVG document
+  markup: string;
+}
+
+let adaptor: LiteAdaptor | null = null;
+let convert: ((latex: string, display: boolean) => LiteElement) | null = null;
+let loading: Promise<void> | null = null;
+const NOT_LOADED = 'Equations are still loading';
+const formulas = new Map<string, Formula | Error>();
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+// The matrix of an SVG transform attribute; MathJax only writes translate, scale, rotate and matrix
+const parseTransform = (transform: string | null) => {
+  let matrix = IDENTITY;
+  (transform || '').replace(/(\w+)\(([^)]*)\)/g, (_, name: string, args: string) => {
+    const [a = 0, b, c, d, e, f] = args.trim().split(/[\s,]+/).map(Number);
+    let step: Matrix = IDENTITY;
+    if (name === 'translate') step = [1, 0, 0, 1, a, b || 0];
+    else if (name === 'scale') step = [a, 0, 0, b === undefined ? a : b, 0, 0];
+    else if (name === 'rotate') {
+      const angle = (a * Math.PI) / 180;
+      step = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+    } else if (name === 'matrix') step = [a, b, c, d, e, f];
+    matrix = multiply(matrix, step);
+    return '';
+  });
+  return matrix;
+};
+
+// Everything the formula paints, with the styles each element inherits
+const collectShapes = (lite: LiteAdaptor, node: LiteElement, inherited: Omit<MathShape, 'kind'>, shapes: MathShape[]) => {
+  const attribute = (name: string) => lite.getAttribute(node, name) as string | null;
+  const number = (name: string) => Number(attribute(name)) || 0;
+  const strokeWidth = attribute('stroke-width');
+  const style = {
+    matrix: multiply(inherited.matrix, parseTransform(attribute('transform'))),
+    fill: attribute('fill') || inherited.fill,
+    stroke: attribute('stroke') || inherited.stroke,
+    strokeWidth: strokeWidth === null ? inherited.strokeWidth : Number(strokeWidth) || 0
+  };
+
+  switch (lite.kind(node)) {
+    case 'g':
+    case 'svg':
+      if (lite.kind(node) === 'svg') style.matrix = multiply(style.matrix, [1, 0, 0, 1, number('x'), number('y')]);
+      lite.childNodes(node).forEach((child) => {
+        if (lite.kind(child) !== '#text' && lite.kind(child) !== '#comment') collectShapes(lite, child as LiteElement, style, shapes);
+      });
+      break;
+    case 'path':
+      shapes.push({ ...style, kind: 'path', d: attribute('d') || '' });
+      break;
+    case 'rect': {
+      const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(number);
+      shapes.push({ ...style, kind: 'path', d: `M${x} ${y}H${x + width}V${y + height}H${x}Z` });
+      break;
+    }
+    case 'line':
+      shapes.push({ ...style, kind: 'path', d: `M${number('x1')} ${number('y1')}L${number('x2')} ${number('y2')}` });
+      break;
+    case 'text': {
+      // Characters MathJax's own fonts do not have are left to the system's fonts
+      const fontStyle = attribute('font-style') || '';
+      const fontWeight = attribute('font-weight') || '';
+      const font = `${fontStyle} ${fontWeight} ${number('font-size')}px ${attribute('font-family') || 'serif'}`.trim();
+      shapes.push({ ...style, kind: 'text', text: lite.textContent(node), font });
+      break;
+    }
+    default:
+      break;
+  }
+};
+
+/**
+ * Load MathJax, once. Until it has loaded there are no formulas, so whatever shows them
+ * should draw again when this resolves.
+ */
+export const loadMath = () => {
+  if (!loading) {
+    loading = Promise.all([
+      import('mathjax-full/js/mathjax.js'),
+      import('mathjax-full/js/input/tex.js'),
+      import('mathjax-full/js/output/svg.js'),
+      import('mathjax-full/js/adaptors/liteAdaptor.js'),
+      import('mathjax-full/js/handlers/html.js'),
+      import('mathjax-full/js/input/tex/base/BaseConfiguration.js'),
+      import('mathjax-full/js/input/tex/ams/AmsConfiguration.js'),
+      import('mathjax-full/js/input/tex/newcommand/NewcommandConfiguration.js'),
+      import('mathjax-full/js/input/tex/boldsymbol/BoldsymbolConfiguration.js'),
+      import('mathjax-full/js/input/tex/braket/BraketConfiguration.js'),
+      import('mathjax-full/js/input/tex/cancel/CancelConfiguration.js'),
+      import('mathjax-full/js/input/tex/cases/CasesConfiguration.js'),
+      import('mathjax-full/js/input/tex/color/ColorConfiguration.js'),
+      import('mathjax-full/js/input/tex/gensymb/GensymbConfiguration.js'),
+      import('mathjax-full/js/input/tex/mathtools/MathtoolsConfiguration.js'),
+      import('mathjax-full/js/input/tex/mhchem/MhchemConfiguration.js'),
+      import('mathjax-full/js/input/tex/textmacros/TextMacrosConfiguration.js'),
+      import('mathjax-full/js/input/tex/upgreek/UpgreekConfiguration.js')
+    ]).then(([{ mathjax }, { TeX }, { SVG }, { liteAdaptor }, { RegisterHTMLHandler }]) => {
+      const lite = liteAdaptor();
+      RegisterHTMLHandler(lite);
+      const document = mathjax.document('', {
+        // Mistakes are reported rather than shown in red in the formula
+        InputJax: new TeX({ packages: PACKAGES, formatError: (_: unknown, error: { message: string }) => { throw new Error(error.message); } }),
+        OutputJax: new SVG({ fontCache: 'none' })
+      });
+      adaptor = lite;
+      convert = (source, isDisplay) => document.convert(source, { display: isDisplay }) as LiteElement;
+    }, (err) => {
+      // Try again next time a formula is wanted
+      loading = null;
+      throw err;
+    });
+  }
+  return loading;
+};
+
+const typeset = (latex: string, display: boolean): Formula => {
+  if (!adaptor || !convert) throw new Error(NOT_LOADED);
+  const svg = adaptor.firstChild(convert(latex, display)) as LiteElement;
+  const viewBox = String(adaptor.getAttribute(svg, 'viewBox')).split(' ').map(Number) as Formula['viewBox'];
+  const shapes: MathShape[] = [];
+  collectShapes(adaptor, svg, { matrix: IDENTITY, fill: 'currentColor', stroke: 'none', strokeWidth: 1 }, shapes);
+  return { viewBox, shapes, markup: adaptor.innerHTML(svg) };
+};
+
+/**
+ * Typeset LaTeX as a displayed formula (`display`) or one that sits in a line of text.
+ * Throws an Error saying what is wrong with the LaTeX, if anything is, or that MathJax has
+ * not loaded yet (which this starts).
+ */
+export const renderMath = (latex: string, display = true): Formula => {
+  const key = `${display ? 'display' : 'inline'}:${latex}`;
+  let formula = formulas.get(key);
+  if (!formula) {
+    if (!convert) {
+      loadMath().catch(() => {});
+      throw new Error(NOT_LOADED);
+    }
+    try {
+      if (latex.length > MAX_LATEX_LENGTH) throw new Error('This formula is too long');
+      formula = typeset(latex, display);
+    } catch (err) {
+      formula = err instanceof Error ? err : new Error(String(err));
+    }
+    if (formulas.size >= MAX_CACHED) formulas.delete(formulas.keys().next().value as string);
+    formulas.set(key, formula);
+  }
+  if (formula instanceof Error) throw formula;
+  return formula;
+};
+
+// The formula for some LaTeX, or null if it has mistakes in it or MathJax has not loaded yet
+export const tryRenderMath = (latex: string, display = true) => {
+  try {
+    return renderMath(latex, display);
+  } catch {
+    return null;
+  }
+};
+
+// Size of a formula in em, and how far it reaches below the baseline
+export const formulaSize = (formula: Formula) => {
+  const [, minY, width, height] = formula.viewBox;
+  return { width: width / EM, height: height / EM, depth: (minY + height) / EM };
+};
+
+/**
+ * Paint a formula in `color`, as large as fits in `box` and centred in it
+ */
+export const drawMath = (ctx: CanvasRenderingContext2D, formula: Formula, box: Bounds, color: string) => {
+  const [minX, minY, width, height] = formula.viewBox;
+  if (!(width > 0 && height > 0)) return;
+  const scale = Math.min(box.width / width, box.height / height);
+  const paint = (value: string) => (value === 'currentColor' ? color : value);
+  ctx.save();
+  ctx.translate(box.x + (box.width - width * scale) / 2, box.y + (box.height - height * scale) / 2);
+  ctx.scale(scale, scale);
+  ctx.translate(-minX, -minY);
+  const base = ctx.getTransform();
+  formula.shapes.forEach((shape) => {
+    ctx.setTransform(base);
+    ctx.transform(...shape.matrix);
+    if (shape.kind === 'text') {
+      ctx.font = shape.font;
+      ctx.fillStyle = paint(shape.fill);
+      ctx.fillText(shape.text, 0, 0);
+      return;
+    }
+    shape.path = shape.path || new Path2D(shape.d);
+    if (shape.fill !== 'none') {
+      ctx.fillStyle = paint(shape.fill);
+      ctx.fill(shape.path);
+    }
+    if (shape.stroke !== 'none' && shape.strokeWidth > 0) {
+      ctx.strokeStyle = paint(shape.stroke);
+      ctx.lineWidth = shape.strokeWidth;
+      ctx.stroke(shape.path);
+    }
+  });
+  ctx.restore();
+};
+
+// The formula as an SVG document in `color`; `attributes` are added to its root element
+// (its position and size, when it goes inside another SVG)
+export const mathSvg = (formula: Formula, color: string, attributes = '') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${formula.viewBox.join(' ')}" color="${color.replace(/[<>&"']/g, '')}"${attributes ? ` ${attributes}` : ''}>${formula.markup}</svg>`;
+
+export const mathImageUrl = (formula: Formula, color: string) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(mathSvg(formula, color))}`;
+
+export type MathPart = { text: string } | { latex: string; display: boolean };
+
+/**
+ * Split text into plain runs and LaTeX between $…$ (in the line) or $$…$$ (on its own).
+ * A lone $ stays text: an inline formula may not start or end with a space, nor be followed
+ * by a digit, so "$5 and $10" is not mistaken for one, and \$ is always a dollar sign.
+ */
+export const splitMath = (text: string): MathPart[] => {
+  const parts: MathPart[] = [];
+  const pattern = /(?<!\\)\$\$([^$]+?)\$\$|(?<!\\)\$(?=\S)([^$\n]*?\S)\$(?!\d)/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) parts.push({ text: text.slice(last, match.index) });
+    parts.push(match[1] !== undefined ? { latex: match[1], display: true } : { latex: match[2], display: false });
+    last = pattern.lastIndex;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+};
@@ -0,0 +1,631 @@
+import { BOARD_HEIGHT, BoardPoint } from './coordinates';
+import { drawMath, formulaSize, tryRenderMath } from './math';
+import { Mark, PageTemplate, drawMarks, instrumentMarks, instrumentOutline } from './geometry';
+import { plotMarks } from './plot';
+
+// Every stroke, shape and note on the board is an object with its own id, author, style and
+// geometry. Strokes and polygons keep their points as a flat [x0, y0, x1, y1, ...] list; shapes
+// are described by the two corners of the drag that created them; text, sticky notes and
+// equations by their top-left corner. Rulers and protractors lie along an edge from (x1, y1) to
+// (x2, y2), and plots fill a box like sticky notes do.
+export type StrokeTool = 'pen' | 'eraser' | 'highlighter';
+export type ShapeTool = 'line' | 'rect' | 'circle' | 'arrow';
+export type TextTool = 'text' | 'sticky' | 'equation';
+export type InstrumentTool = 'ruler' | 'protractor';
+
+// Orders changes to a board: [counter, replica]. See sync.ts.
+export type Stamp = [number, string];
+
+interface BaseObject {
+  id: string;
+  authorId: string;
+  authorName: string;
+  color: string;
+  size: number;
+  // When the object was made, and which change last set each field (or last restored it, as `alive`)
+  created?: Stamp;
+  stamps?: { [field: string]: Stamp };
+}
+
+export interface StrokeObject extends BaseObject {
+  type: StrokeTool;
+  points: number[];
+  // Pen pressure (0 to 1) at each point, for pen strokes drawn with a stylus that reports it
+  pressures?: number[];
+}
+
+export interface ShapeObject extends BaseObject {
+  type: ShapeTool;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  fill?: boolean;
+}
+
+export interface PolygonObject extends BaseObject {
+  type: 'polygon';
+  points: number[];
+  fill?: boolean;
+}
+
+// Text is drawn in `color`; a sticky note is filled with `color` and its text is always dark
+export interface TextObject extends BaseObject {
+  type: 'text';
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+}
+
+export interface StickyObject extends BaseObject {
+  type: 'sticky';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  fontSize: number;
+}
+
+// LaTeX typeset (see math.ts) as large as fits in its box, in `color`. LaTeX with a mistake in
+// it is shown as it was typed.
+export interface EquationObject extends BaseObject {
+  type: 'equation';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  latex: string;
+}
+
+// A ruler or protractor laid on the board, marked in `color`; see geometry.ts
+export interface InstrumentObject extends BaseObject {
+  type: InstrumentTool;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// A graph of y = `expression` (see plot.ts), drawn in `color` at `size` in its box
+export interface PlotObject extends BaseObject {
+  type: 'plot';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  expression: string;
+  // [xMin, xMax, yMin, yMax], what the axes run over; one field, so nobody's change splits it
+  axes: [number, number, number, number];
+}
+
+export type BoardObject = StrokeObject | ShapeObject | PolygonObject | TextObject | StickyObject | EquationObject | InstrumentObject | PlotObject;
+
+// Changes sent over the socket; the server applies the same rules and relays them. An append
+// says where in the stroke its points go, so that sending it twice does no harm.
+export type BoardOp =
+  | { op: 'add'; object: BoardObject }
+  | { op: 'append'; id: string; offset: number; points: number[]; pressures?: number[] }
+  | { op: 'update'; id: string; changes: Partial<BoardObject>; stamp: Stamp }
+  | { op: 'delete'; id: string; stamp: Stamp }
+  | { op: 'restore'; id: string; object: BoardObject; stamp: Stamp };
+
+// A change as made on this client, before it is stamped for sending
+type Unstamped<Op> = Op extends BoardOp ? Omit<Op, 'stamp' | 'offset'> : never;
+export type BoardChange = Unstamped<BoardOp>;
+
+// An uploaded image locked underneath a page's drawing, shown as large as fits and centred
+export interface PageBackground {
+  upload: string;
+  width: number;
+  height: number;
+}
+
+// The server refuses to add pages past this many
+export const MAX_PAGES = 50;
+
+export interface BoardPage {
+  id: string;
+  objects: BoardObject[];
+  background?: PageBackground | null;
+  // Lines or dots the page is ruled with, underneath everything (and over its background)
+  template?: PageTemplate | null;
+}
+
+// A whole board as the server sends it; with `follow` on, students stay on the presenter's page.
+// Objects by the accounts in `hiddenAuthors` have been hidden from everyone by staff. `clock` is
+// the highest stamp counter the server has seen and `deleted` the tombstones of deleted objects.
+export interface BoardState {
+  pages: BoardPage[];
+  follow: boolean;
+  presenterPageId: string;
+  hiddenAuthors: string[];
+  clock: number;
+  deleted: [string, Stamp][];
+}
+
+export const withoutAuthors = (objects: BoardObject[], authorIds: string[]) =>
+  authorIds.length === 0 ? objects : objects.filter(object => !authorIds.includes(object.authorId));
+
+// How many objects each author has on the board, most first
+export const contributions = (pages: BoardPage[]) => {
+  const counts = new Map<string, { authorId: string; authorName: string; count: number }>();
+  pages.forEach(page => page.objects.forEach((object) => {
+    const entry = counts.get(object.authorId) || { authorId: object.authorId, authorName: object.authorName, count: 0 };
+    entry.count++;
+    counts.set(object.authorId, entry);
+  }));
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+};
+
+// Page changes made by staff, as relayed by the server
+export type PageChange =
+  | { action: 'add'; page: BoardPage; index: number }
+  | { action: 'delete'; pageId: string; presenterPageId: string }
+  | { action: 'move'; pageId: string; toIndex: number }
+  | { action: 'background'; pageId: string; background: PageBackground | null }
+  | { action: 'template'; pageId: string; template: PageTemplate | null };
+
+export const applyPageChange = (pages: BoardPage[], change: PageChange): BoardPage[] => {
+  const next = [...pages];
+  if (change.action === 'add') {
+    next.splice(change.index, 0, change.page);
+  } else if (change.action === 'delete') {
+    return next.filter(page => page.id !== change.pageId);
+  } else if (change.action === 'background') {
+    return next.map(page => (page.id === change.pageId ? { ...page, background: change.background } : page));
+  } else if (change.action === 'template') {
+    return next.map(page => (page.id === change.pageId ? { ...page, template: change.template } : page));
+  } else {
+    const from = next.findIndex(page => page.id === change.pageId);
+    if (from < 0) return pages;
+    const [page] = next.splice(from, 1);
+    next.splice(change.toIndex, 0, page);
+  }
+  return next;
+};
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const isStroke = (object: BoardObject): object is StrokeObject =>
+  object.type === 'pen' || object.type === 'eraser' || object.type === 'highlighter';
+
+export const isTextual = (object: BoardObject): object is TextObject | StickyObject =>
+  object.type === 'text' || object.type === 'sticky';
+
+export const isInstrument = (object: BoardObject): object is InstrumentObject =>
+  object.type === 'ruler' || object.type === 'protractor';
+
+export const HIGHLIGHTER_ALPHA = 0.35;
+export const STICKY_TEXT_COLOR = '#1f2937';
+export const LINE_HEIGHT = 1.25;
+// Browsers handle fonts of a fraction of a pixel badly, so text is laid out in thousandths of the board
+const TEXT_SCALE = 1000;
+
+// Ids are made on the client so an object can be drawn before the server has seen it
+export const newObjectId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const circleOf = (shape: ShapeObject) => {
+  const rx = (shape.x2 - shape.x1) / 2;
+  const ry = (shape.y2 - shape.y1) / 2;
+  return { cx: shape.x1 + rx, cy: shape.y1 + ry, radius: Math.sqrt(rx * rx + ry * ry) };
+};
+
+const applyStyle = (ctx: CanvasRenderingContext2D, object: BoardObject) => {
+  ctx.globalCompositeOperation = object.type === 'eraser' ? 'destination-out' : 'source-over';
+  ctx.globalAlpha = object.type === 'highlighter' ? HIGHLIGHTER_ALPHA : 1;
+  ctx.strokeStyle = object.color;
+  ctx.fillStyle = object.color;
+  ctx.lineWidth = object.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+};
+
+const resetStyle = (ctx: CanvasRenderingContext2D) => {
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const fontFor = (fontSize: number) => `${fontSize * TEXT_SCALE}px sans-serif`;
+
+// Width of a line of text in board units
+const measureText = (text: string, fontSize: number) => {
+  measureContext = measureContext || document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * fontSize * 0.6;
+  measureContext.font = fontFor(fontSize);
+  return measureContext.measureText(text).width / TEXT_SCALE;
+};
+
+// Lines of a text object as typed, or of a sticky note wrapped to fit inside it
+export const textLines = (object: TextObject | StickyObject) => {
+  const lines = object.text.split('\n');
+  if (object.type === 'text') return lines;
+
+  const maxWidth = object.width - stickyPadding(object) * 2;
+  return lines.flatMap((line) => {
+    const wrapped: string[] = [];
+    let current = '';
+    line.split(' ').forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && measureText(candidate, object.fontSize) > maxWidth) {
+        wrapped.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    wrapped.push(current);
+    return wrapped;
+  });
+};
+
+export const stickyPadding = (note: StickyObject) => note.fontSize * 0.5;
+
+// Size of an equation typeset with a font `em` board units high. The server keeps equations
+// within a board width each way, so long ones come out smaller.
+export const equationSize = (latex: string, em: number) => {
+  const formula = tryRenderMath(latex);
+  const size = formula ? formulaSize(formula) : { width: Math.max(1, measureText(latex, 1)), height: LINE_HEIGHT };
+  const fitted = Math.min(em, 1 / size.width, 1 / size.height);
+  return { width: size.width * fitted, height: size.height * fitted };
+};
+
+// The font size an equation is drawn at in its box
+export const equationEm = (equation: EquationObject) => {
+  const formula = tryRenderMath(equation.latex);
+  const size = formula && formulaSize(formula);
+  if (!size || !(size.width > 0 && size.height > 0)) return equation.height / LINE_HEIGHT;
+  return Math.min(equation.width / size.width, equation.height / size.height);
+};
+
+const drawEquation = (ctx: CanvasRenderingContext2D, equation: EquationObject) => {
+  const formula = tryRenderMath(equation.latex);
+  if (formula) {
+    drawMath(ctx, formula, equation, equation.color);
+    return;
+  }
+  ctx.save();
+  ctx.scale(1 / TEXT_SCALE, 1 / TEXT_SCALE);
+  ctx.font = fontFor(equation.height / LINE_HEIGHT);
+  ctx.fillStyle = equation.color;
+  ctx.textBaseline = 'top';
+  ctx.fillText(equation.latex, equation.x * TEXT_SCALE, equation.y * TEXT_SCALE);
+  ctx.restore();
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, object: TextObject | StickyObject) => {
+  const padding = object.type === 'sticky' ? stickyPadding(object) : 0;
+  ctx.save();
+  if (object.type === 'sticky') {
+    ctx.fillStyle = object.color;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
+    ctx.shadowBlur = 0.004 * ctx.getTransform().a;
+    ctx.fillRect(object.x, object.y, object.width, object.height);
+    ctx.shadowColor = 'transparent';
+    ctx.beginPath();
+    ctx.rect(object.x, object.y, object.width, object.height);
+    ctx.clip();
+  }
+  ctx.scale(1 / TEXT_SCALE, 1 / TEXT_SCALE);
+  ctx.font = fontFor(object.fontSize);
+  ctx.fillStyle = object.type === 'sticky' ? STICKY_TEXT_COLOR : object.color;
+  ctx.textBaseline = 'top';
+  textLines(object).forEach((line, index) => {
+    const y = object.y + padding + index * object.fontSize * LINE_HEIGHT;
+    ctx.fillText(line, (object.x + padding) * TEXT_SCALE, y * TEXT_SCALE);
+  });
+  ctx.restore();
+};
+
+// The two short strokes of an arrowhead at (x2, y2)
+export const arrowHead = (shape: ShapeObject) => {
+  const angle = Math.atan2(shape.y2 - shape.y1, shape.x2 - shape.x1);
+  const length = Math.max(shape.size * 4, 0.015);
+  const spread = Math.PI / 7;
+  return [angle - spread, angle + spread].map(side => ({
+    x: shape.x2 - length * Math.cos(side),
+    y: shape.y2 - length * Math.sin(side)
+  }));
+};
+
+// Width of a stroke at one of its points: pressure 0.5 (or no pressure at all) draws it at its size
+export const pressureWidth = (stroke: StrokeObject, index: number) => {
+  const pressure = stroke.pressures?.[index];
+  return pressure === undefined ? stroke.size : stroke.size * (0.2 + pressure * 1.6);
+};
+
+export interface StrokePiece {
+  from: BoardPoint;
+  control: BoardPoint;
+  to: BoardPoint;
+  width: number;
+}
+
+// Strokes are smoothed into quadratic curves through the midpoints between captured points,
+// with the points themselves as control points. Piece i bends around point i and is drawn at
+// that point's width; the first and last pieces end exactly on the first and last points.
+export const strokePieces = (stroke: StrokeObject, from = 0): StrokePiece[] => {
+  const { points } = stroke;
+  const count = points.length / 2;
+  const point = (i: number) => ({ x: points[i * 2], y: points[i * 2 + 1] });
+  const midpoint = (i: number) => {
+    if (i <= 0) return point(0);
+    if (i >= count) return point(count - 1);
+    return { x: (points[i * 2 - 2] + points[i * 2]) / 2, y: (points[i * 2 - 1] + points[i * 2 + 1]) / 2 };
+  };
+  const pieces: StrokePiece[] = [];
+  for (let i = from; i < count; i++) {
+    pieces.push({ from: midpoint(i), control: point(i), to: midpoint(i + 1), width: pressureWidth(stroke, i) });
+  }
+  return pieces;
+};
+
+// Draw part of a stroke starting at point index `from`; used to extend a stroke while it is drawn.
+// Strokes with pressure change width along the way, so each piece is stroked on its own.
+export const drawStrokeSegment = (ctx: CanvasRenderingContext2D, stroke: StrokeObject, from: number) => {
+  if (stroke.points.length < 2) return;
+  applyStyle(ctx, stroke);
+  const pieces = strokePieces(stroke, Math.max(0, from - 1));
+  ctx.beginPath();
+  pieces.forEach((piece, index) => {
+    if (stroke.pressures) {
+      ctx.beginPath();
+      ctx.lineWidth = piece.width;
+    }
+    if (stroke.pressures || index === 0) ctx.moveTo(piece.from.x, piece.from.y);
+    // A single tap still leaves a dot
+    if (stroke.points.length === 2) ctx.lineTo(piece.to.x, piece.to.y);
+    ctx.quadraticCurveTo(piece.control.x, piece.control.y, piece.to.x, piece.to.y);
+    if (stroke.pressures) ctx.stroke();
+  });
+  if (!stroke.pressures) ctx.stroke();
+  resetStyle(ctx);
+};
+
+// Objects change by being replaced, so their marks are worked out once for each version
+const marks = new WeakMap<InstrumentObject | PlotObject, Mark[]>();
+
+export const marksOf = (object: InstrumentObject | PlotObject) => {
+  let cached = marks.get(object);
+  if (!cached) {
+    cached = object.type === 'plot' ? plotMarks(object) : instrumentMarks(object.type, object, object.color);
+    marks.set(object, cached);
+  }
+  return cached;
+};
+
+export const drawObject = (ctx: CanvasRenderingContext2D, object: BoardObject) => {
+  if (isInstrument(object) || object.type === 'plot') {
+    drawMarks(ctx, marksOf(object));
+    return;
+  }
+  if (isStroke(object)) {
+    drawStrokeSegment(ctx, object, 0);
+    return;
+  }
+  if (isTextual(object)) {
+    drawText(ctx, object);
+    return;
+  }
+  if (object.type === 'equation') {
+    drawEquation(ctx, object);
+    return;
+  }
+
+  applyStyle(ctx, object);
+  ctx.beginPath();
+  if (object.type === 'polygon') {
+    ctx.moveTo(object.points[0], object.points[1]);
+    for (let i = 2; i < object.points.length; i += 2) {
+      ctx.lineTo(object.points[i], object.points[i + 1]);
+    }
+    ctx.closePath();
+  } else if (object.type === 'line' || object.type === 'arrow') {
+    ctx.moveTo(object.x1, object.y1);
+    ctx.lineTo(object.x2, object.y2);
+    if (object.type === 'arrow') {
+      const [left, right] = arrowHead(object);
+      ctx.moveTo(left.x, left.y);
+      ctx.lineTo(object.x2, object.y2);
+      ctx.lineTo(right.x, right.y);
+    }
+  } else if (object.type === 'rect') {
+    ctx.rect(object.x1, object.y1, object.x2 - object.x1, object.y2 - object.y1);
+  } else {
+    const { cx, cy, radius } = circleOf(object);
+    ctx.arc(cx, cy, Math.abs(radius), 0, Math.PI * 2);
+  }
+  if (object.fill && object.type !== 'line' && object.type !== 'arrow') ctx.fill();
+  ctx.stroke();
+  resetStyle(ctx);
+};
+
+export const getBounds = (object: BoardObject): Bounds => {
+  if (object.type === 'sticky' || object.type === 'equation' || object.type === 'plot') {
+    return { x: object.x, y: object.y, width: object.width, height: object.height };
+  }
+  if (isInstrument(object)) {
+    const outline = instrumentOutline(object.type, object);
+    const xs = outline.map(point => point.x);
+    const ys = outline.map(point => point.y);
+    const [x, y] = [Math.min(...xs), Math.min(...ys)];
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+  }
+  if (object.type === 'text') {
+    const lines = textLines(object);
+    const width = Math.max(object.fontSize / 2, ...lines.map(line => measureText(line, object.fontSize)));
+    return { x: object.x, y: object.y, width, height: lines.length * object.fontSize * LINE_HEIGHT };
+  }
+
+  let minX: number, minY: number, maxX: number, maxY: number;
+  if (isStroke(object) || object.type === 'polygon') {
+    minX = minY = Infinity;
+    maxX = maxY = -Infinity;
+    for (let i = 0; i < object.points.length; i += 2) {
+      minX = Math.min(minX, object.points[i]);
+      maxX = Math.max(maxX, object.points[i]);
+      minY = Math.min(minY, object.points[i + 1]);
+      maxY = Math.max(maxY, object.points[i + 1]);
+    }
+  } else if (object.type === 'circle') {
+    const { cx, cy, radius } = circleOf(object);
+    minX = cx - radius;
+    maxX = cx + radius;
+    minY = cy - radius;
+    maxY = cy + radius;
+  } else {
+    minX = Math.min(object.x1, object.x2);
+    maxX = Math.max(object.x1, object.x2);
+    minY = Math.min(object.y1, object.y2);
+    maxY = Math.max(object.y1, object.y2);
+  }
+  const pad = object.size / 2;
+  return { x: minX - pad, y: minY - pad, width: maxX - minX + object.size, height: maxY - minY + object.size };
+};
+
+// Smallest box around every object, or null when there are none
+export const contentBounds = (objects: BoardObject[]): Bounds | null => {
+  if (objects.length === 0) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  objects.forEach((object) => {
+    const bounds = getBounds(object);
+    minX = Math.min(minX, bounds.x);
+    minY = Math.min(minY, bounds.y);
+    maxX = Math.max(maxX, bounds.x + bounds.width);
+    maxY = Math.max(maxY, bounds.y + bounds.height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// The page itself, grown to take in anything drawn beyond its edges
+export const pageExtent = (objects: BoardObject[]): Bounds => {
+  const content = contentBounds(objects);
+  if (!content) return { x: 0, y: 0, width: 1, height: BOARD_HEIGHT };
+  const x = Math.min(0, content.x);
+  const y = Math.min(0, content.y);
+  return { x, y, width: Math.max(1, content.x + content.width) - x, height: Math.max(BOARD_HEIGHT, content.y + content.height) - y };
+};
+
+const distanceToSegment = (p: BoardPoint, ax: number, ay: number, bx: number, by: number) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared ? Math.max(0, Math.min(1, ((p.x - ax) * dx + (p.y - ay) * dy) / lengthSquared)) : 0;
+  return Math.hypot(p.x - (ax + t * dx), p.y - (ay + t * dy));
+};
+
+// Even-odd test for a point inside a closed outline
+const insidePolygon = (point: BoardPoint, points: number[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 2; i < points.length; j = i, i += 2) {
+    const [xi, yi, xj, yj] = [points[i], points[i + 1], points[j], points[j + 1]];
+    if ((yi > point.y) !== (yj > point.y) && point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const hits = (object: BoardObject, point: BoardPoint, tolerance: number) => {
+  const reach = object.size / 2 + tolerance;
+  if (isTextual(object)) {
+    const bounds = getBounds(object);
+    return point.x >= bounds.x - tolerance && point.x <= bounds.x + bounds.width + tolerance &&
+      point.y >= bounds.y - tolerance && point.y <= bounds.y + bounds.height + tolerance;
+  }
+  if (isInstrument(object)) {
+    return insidePolygon(point, instrumentOutline(object.type, object).flatMap(corner => [corner.x, corner.y]));
+  }
+  if (object.type === 'polygon') {
+    const { points } = object;
+    if (object.fill && insidePolygon(point, points)) return true;
+    for (let i = 0; i < points.length; i += 2) {
+      const next = (i + 2) % points.length;
+      if (distanceToSegment(point, points[i], points[i + 1], points[next], points[next + 1]) <= reach) return true;
+    }
+    return false;
+  }
+  if (isStroke(object)) {
+    const { points } = object;
+    if (points.length === 2) return Math.hypot(point.x - points[0], point.y - points[1]) <= reach;
+    for (let i = 2; i < points.length; i += 2) {
+      if (distanceToSegment(point, points[i - 2], points[i - 1], points[i], points[i + 1]) <= reach) return true;
+    }
+    return false;
+  }
+  if (object.type === 'line' || object.type === 'arrow') {
+    return distanceToSegment(point, object.x1, object.y1, object.x2, object.y2) <= reach;
+  }
+  if (object.type === 'circle') {
+    const { cx, cy, radius } = circleOf(object);
+    return Math.hypot(point.x - cx, point.y - cy) <= radius + reach;
+  }
+  const bounds = getBounds(object);
+  return point.x >= bounds.x - tolerance && point.x <= bounds.x + bounds.width + tolerance &&
+    point.y >= bounds.y - tolerance && point.y <= bounds.y + bounds.height + tolerance;
+};
+
+// Topmost object under the pointer; eraser strokes only remove ink and cannot be picked
+export const hitTest = (objects: BoardObject[], point: BoardPoint, tolerance: number): BoardObject | null => {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    if (objects[i].type !== 'eraser' && hits(objects[i], point, tolerance)) return objects[i];
+  }
+  return null;
+};
+
+// Geometry of an object after mapping its bounds `from` onto `to` (moving is a resize to same-size bounds)
+export const transformObject = (object: BoardObject, from: Bounds, to: Bounds): Partial<BoardObject> => {
+  const scaleX = from.width ? to.width / from.width : 1;
+  const scaleY = from.height ? to.height / from.height : 1;
+  const mapX = (x: number) => to.x + (x - from.x) * scaleX;
+  const mapY = (y: number) => to.y + (y - from.y) * scaleY;
+
+  if (isStroke(object) || object.type === 'polygon') {
+    return { points: object.points.map((value, i) => (i % 2 === 0 ? mapX(value) : mapY(value))) };
+  }
+  if (object.type === 'text') {
+    // Text keeps its proportions; the font grows with the height of the box
+    return { x: mapX(object.x), y: mapY(object.y), fontSize: object.fontSize * scaleY };
+  }
+  if (object.type === 'sticky' || object.type === 'equation' || object.type === 'plot') {
+    return { x: mapX(object.x), y: mapY(object.y), width: object.width * scaleX, height: object.height * scaleY };
+  }
+  return { x1: mapX(object.x1), y1: mapY(object.y1), x2: mapX(object.x2), y2: mapY(object.y2) };
+};
+
+export const renderObjects = (ctx: CanvasRenderingContext2D, objects: BoardObject[]) => {
+  objects.forEach(object => drawObject(ctx, object));
+};
+
+// Where a ruler or protractor is turned from: the far end of its edge
+export const turnHandle = (object: BoardObject): BoardPoint | null => (isInstrument(object) ? { x: object.x2, y: object.y2 } : null);
+
+// Dashed box with a resize handle in the bottom-right corner, and a round one to turn instruments by
+export const drawSelection = (ctx: CanvasRenderingContext2D, bounds: Bounds, handleSize: number, turn: BoardPoint | null = null) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = '#3b82f6';
+  ctx.lineWidth = handleSize / 4;
+  ctx.setLineDash([handleSize / 2, handleSize / 2]);
+  ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  ctx.setLineDash([]);
+  ctx.fillStyle = '#3b82f6';
+  ctx.fillRect(bounds.x + bounds.width - handleSize / 2, bounds.y + bounds.height - handleSize / 2, handleSize, handleSize);
+  if (turn) {
+    ctx.beginPath();
+    ctx.arc(turn.x, turn.y, handleSize / 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+};
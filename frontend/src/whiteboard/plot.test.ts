@@ -0,0 +1,97 @@
+import { PlotObject } from './objects';
+import { DEFAULT_AXES, compileExpression, expressionError, plotMarks } from './plot';
+// Exports draw plots on the server, which has to understand expressions the same way
+import { serverGeometry } from './fixtures';
+
+const valueOf = (expression: string, x: number) => compileExpression(expression)(x);
+
+const plot = (expression: string, axes: PlotObject['axes'] = DEFAULT_AXES): PlotObject => ({
+  id: 'plot', type: 'plot', authorId: 'teacher', authorName: 'Teacher', color: '#2563eb', size: 0.003,
+  x: 0.1, y: 0.05, width: 0.3, height: 0.3, expression, axes
+});
+
+describe('compileExpression', () => {
+  it('follows the usual order of operations', () => {
+    expect(valueOf('1 + 2 * 3', 0)).toBe(7);
+    expect(valueOf('(1 + 2) * 3', 0)).toBe(9);
+    expect(valueOf('8 / 4 / 2', 0)).toBe(1);
+    expect(valueOf('10 - 4 - 3', 0)).toBe(3);
+    expect(valueOf('2^3^2', 0)).toBe(512);
+  });
+
+  it('takes powers before a sign in front', () => {
+    expect(valueOf('-x^2', 3)).toBe(-9);
+    expect(valueOf('(-x)^2', 3)).toBe(9);
+    expect(valueOf('2^-1', 0)).toBe(0.5);
+    expect(valueOf('--x', 3)).toBe(3);
+    expect(valueOf('e^(-x^2)', 0)).toBe(1);
+  });
+
+  it('multiplies what is written side by side', () => {
+    expect(valueOf('2x', 3)).toBe(6);
+    expect(valueOf('2x^2 - 3x + 1', 2)).toBe(3);
+    expect(valueOf('3(x + 1)(x - 2)', 3)).toBe(12);
+    expect(valueOf('2pi', 0)).toBeCloseTo(2 * Math.PI);
+    expect(valueOf('x sin(x)', Math.PI / 2)).toBeCloseTo(Math.PI / 2);
+    expect(valueOf('1/2x', 4)).toBe(2);
+  });
+
+  it('knows functions, constants and numbers as written', () => {
+    expect(valueOf('sqrt(1 - x^2)', 0.6)).toBeCloseTo(0.8);
+    expect(valueOf('sin(x)/x', 1e-9)).toBeCloseTo(1);
+    expect(valueOf('ln(e) + log(100) + abs(-2)', 0)).toBe(5);
+    expect(valueOf('π', 0)).toBe(Math.PI);
+    expect(valueOf('.5 + 1.25e2', 0)).toBe(125.5);
+    expect(valueOf('X + SIN(0)', 2)).toBe(2);
+  });
+
+  it('allows a leading y = or f(x) =', () => {
+    expect(valueOf('y = x + 1', 1)).toBe(2);
+    expect(valueOf('f(x) = x * x', 3)).toBe(9);
+  });
+
+  it('says what is wrong with an expression', () => {
+    expect(expressionError('')).toBe('Type an expression in x');
+    expect(expressionError('x +')).toBe('The expression ends too soon');
+    expect(expressionError('(x + 1')).toBe('Expected ")"');
+    expect(expressionError('x + 1)')).toBe('Unexpected ")"');
+    expect(expressionError('sin x')).toBe('Put what sin applies to in brackets, as in sin(x)');
+    expect(expressionError('z + 1')).toBe('Unknown name "z"');
+    expect(expressionError('x $ 2')).toBe('Unexpected "$"');
+    expect(expressionError('x'.repeat(201))).toBe('This expression is too long');
+    expect(expressionError('2x^2 - 3x + 1')).toBeNull();
+  });
+
+  it('never runs an expression as code', () => {
+    expect(expressionError('constructor')).toBe('Unknown name "constructor"');
+    expect(expressionError('alert(1)')).toBe('Unknown name "alert"');
+  });
+});
+
+describe('plotMarks', () => {
+  const curves = (marks: ReturnType<typeof plotMarks>) => marks.filter(mark => mark.kind === 'path' && mark.stroke === '#2563eb');
+
+  it('draws a curve across the plot', () => {
+    const [curve] = curves(plotMarks(plot('x')));
+    expect(curve.kind === 'path' && curve.points.slice(0, 2)).toEqual([0.1, 0.35]);
+    expect(curve.kind === 'path' && curve.points.slice(-2)).toEqual([0.4, 0.05]);
+  });
+
+  it('breaks the curve where it is undefined or shoots off', () => {
+    expect(curves(plotMarks(plot('sqrt(x)')))).toHaveLength(1);
+    expect(curves(plotMarks(plot('1/x')))).toHaveLength(2);
+    expect(curves(plotMarks(plot('tan(x)')))).toHaveLength(7);
+  });
+
+  it('shows the mistake instead of a curve', () => {
+    const marks = plotMarks(plot('x +'));
+    expect(curves(marks)).toHaveLength(0);
+    expect(marks[marks.length - 1]).toMatchObject({ kind: 'label', text: 'The expression ends too soon', color: '#dc2626' });
+  });
+
+  it('draws what the server draws in exports', () => {
+    ['2x^2 - 3x + 1', '-x^2 + 5', 'sin(x)/x', '3(x + 1)(x - 2)', 'tan(x)', 'x +'].forEach((expression) => {
+      expect(serverGeometry.objectMarks(plot(expression, [-4, 6, -3, 8]))).toEqual(plotMarks(plot(expression, [-4, 6, -3, 8])));
+    });
+  });
+});
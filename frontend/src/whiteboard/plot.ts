@@ -0,0 +1,269 @@
+import { Mark } from './geometry';
+import { PlotObject } from './objects';
+
+// Graphs of y = f(x) on the board. Expressions are written the way they are on paper —
+// 2x^2 - 3x + 1, sin(x)/x, sqrt(1 - x^2), e^(-x^2), 3(x + 1)(x - 2) — and compiled into
+// functions here, never run as code. backend/geometry.js understands the same ones.
+
+export const MAX_EXPRESSION_LENGTH = 200;
+export const DEFAULT_AXES: PlotObject['axes'] = [-10, 10, -10, 10];
+// How many points of a curve are worked out across a plot
+const SAMPLES = 400;
+
+const FUNCTIONS: { [name: string]: (value: number) => number } = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  sec: value => 1 / Math.cos(value),
+  csc: value => 1 / Math.sin(value),
+  cot: value => 1 / Math.tan(value),
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  sign: Math.sign
+};
+
+const CONSTANTS: { [name: string]: number } = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+// Names in the tables themselves, not ones every object has (constructor)
+const isNamed = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+type Evaluate = (x: number) => number;
+
+/**
+ * Compile the right-hand side of y = f(x) (a leading "y =" is allowed) into a function of x.
+ * Throws an Error saying what is wrong with it, if anything is.
+ */
+export const compileExpression = (source: string): Evaluate => {
+  if (source.length > MAX_EXPRESSION_LENGTH) throw new Error('This expression is too long');
+  const expression = source.replace(/^\s*(y|f\s*\(\s*x\s*\))\s*=/i, '');
+  const tokens = expression.match(/\d*\.?\d+(?:e[-+]?\d+)?|[a-zA-Zπ]+|\S/g) || [];
+  let position = 0;
+  const peek = (): string | undefined => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+  // Whether the next token can start a factor, for products written without a sign: 2x, 3(x + 1)
+  const startsFactor = () => {
+    const token = peek();
+    return token !== undefined && (token === '(' || /^[\d.a-zA-Zπ]/.test(token));
+  };
+
+  const sum = (): Evaluate => {
+    let left = product();
+    while (peek() === '+' || peek() === '-') {
+      const subtract = next() === '-';
+      const [a, b] = [left, product()];
+      left = subtract ? x => a(x) - b(x) : x => a(x) + b(x);
+    }
+    return left;
+  };
+
+  const product = (): Evaluate => {
+    let left = signed();
+    for (;;) {
+      if (peek() === '*' || peek() === '/') {
+        const divide = next() === '/';
+        const [a, b] = [left, signed()];
+        left = divide ? x => a(x) / b(x) : x => a(x) * b(x);
+      } else if (startsFactor()) {
+        const [a, b] = [left, power()];
+        left = x => a(x) * b(x);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const signed = (): Evaluate => {
+    if (peek() === '-') {
+      next();
+      const operand = signed();
+      return x => -operand(x);
+    }
+    if (peek() === '+') next();
+    return power();
+  };
+
+  // Powers bind tighter than a sign in front (-x^2 is -(x^2)) and go right to left
+  const power = (): Evaluate => {
+    const base = factor();
+    if (peek() !== '^') return base;
+    next();
+    const exponent = signed();
+    return x => base(x) ** exponent(x);
+  };
+
+  const factor = (): Evaluate => {
+    const token = next();
+    if (token === undefined) throw new Error('The expression ends too soon');
+    if (token === '(') {
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    if (/^[\d.]/.test(token)) {
+      const value = Number(token);
+      if (Number.isNaN(value)) throw new Error(`"${token}" is not a number`);
+      return () => value;
+    }
+    if (token === 'x' || token === 'X') return x => x;
+    const name = token.toLowerCase();
+    if (isNamed(CONSTANTS, name)) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    if (isNamed(FUNCTIONS, name)) {
+      const apply = FUNCTIONS[name];
+      if (peek() !== '(') throw new Error(`Put what ${name} applies to in brackets, as in ${name}(x)`);
+      next();
+      const argument = sum();
+      expect(')');
+      return x => apply(argument(x));
+    }
+    throw new Error(/^[a-zA-Zπ]/.test(token) ? `Unknown name "${token}"` : `Unexpected "${token}"`);
+  };
+
+  if (tokens.length === 0) throw new Error('Type an expression in x');
+  const evaluate = sum();
+  if (position < tokens.length) throw new Error(`Unexpected "${peek()}"`);
+  return evaluate;
+};
+
+// The mistake in an expression, or null if it can be plotted
+export const expressionError = (source: string) => {
+  try {
+    compileExpression(source);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+// A round step (1, 2 or 5 times a power of ten) that puts about eight ticks across `span`
+const tickStep = (span: number) => {
+  const raw = span / 8;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].map(factor => factor * magnitude).find(step => step >= raw) || magnitude * 10;
+};
+
+const ticks = (min: number, max: number) => {
+  const step = tickStep(max - min);
+  const values: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9 && values.length <= 50; value += step) {
+    values.push(Math.abs(value) < step * 1e-9 ? 0 : value);
+  }
+  return values;
+};
+
+const formatTick = (value: number) => String(Number(value.toPrecision(6)));
+
+/**
+ * Draw a plot: its frame, grid, axes with numbered ticks, and the curve clipped to the frame.
+ * The curve breaks where the function is undefined or shoots off the top or bottom.
+ */
+export const plotMarks = (plot: PlotObject): Mark[] => {
+  const { x, y, width, height } = plot;
+  const [xMin, xMax, yMin, yMax] = plot.axes;
+  const marks: Mark[] = [{
+    kind: 'path',
+    points: [x, y, x + width, y, x + width, y + height, x, y + height],
+    closed: true,
+    stroke: '#9ca3af',
+    width: Math.min(width, height) * 0.004,
+    fill: '#ffffff',
+    fillOpacity: 0.85
+  }];
+  if (!(xMax > xMin && yMax > yMin) || !plot.axes.every(Number.isFinite)) return marks;
+
+  const toX = (value: number) => x + ((value - xMin) / (xMax - xMin)) * width;
+  const toY = (value: number) => y + ((yMax - value) / (yMax - yMin)) * height;
+  const line = Math.min(width, height) * 0.003;
+  const labelSize = Math.min(width, height) * 0.04;
+  const xTicks = ticks(xMin, xMax);
+  const yTicks = ticks(yMin, yMax);
+  xTicks.forEach(value => marks.push({ kind: 'path', points: [toX(value), y, toX(value), y + height], stroke: '#e5e7eb', width: line }));
+  yTicks.forEach(value => marks.push({ kind: 'path', points: [x, toY(value), x + width, toY(value)], stroke: '#e5e7eb', width: line }));
+
+  // Axes through the origin, or numbers along the bottom and left edges when it is off the plot
+  const xAxis = yMin <= 0 && yMax >= 0 ? toY(0) : null;
+  const yAxis = xMin <= 0 && xMax >= 0 ? toX(0) : null;
+  if (xAxis !== null) marks.push({ kind: 'path', points: [x, xAxis, x + width, xAxis], stroke: '#4b5563', width: line * 2 });
+  if (yAxis !== null) marks.push({ kind: 'path', points: [yAxis, y, yAxis, y + height], stroke: '#4b5563', width: line * 2 });
+  const labelY = xAxis !== null ? Math.min(xAxis + labelSize * 0.9, y + height - labelSize * 0.7) : y + height - labelSize * 0.7;
+  xTicks.forEach((value) => {
+    const at = toX(value);
+    if (value === 0 && yAxis !== null) return;
+    if (at < x + labelSize || at > x + width - labelSize) return;
+    marks.push({ kind: 'label', x: at, y: labelY, text: formatTick(value), size: labelSize, angle: 0, color: '#4b5563' });
+  });
+  yTicks.forEach((value) => {
+    const at = toY(value);
+    if (value === 0 && xAxis !== null) return;
+    if (at < y + labelSize || at > y + height - labelSize) return;
+    const text = formatTick(value);
+    // Labels are centred, so set them off by about half their width
+    const offset = labelSize * (0.5 + text.length * 0.3);
+    const labelX = yAxis !== null ? Math.max(yAxis - offset, x + offset - labelSize * 0.3) : x + offset - labelSize * 0.3;
+    marks.push({ kind: 'label', x: labelX, y: at, text, size: labelSize, angle: 0, color: '#4b5563' });
+  });
+
+  let evaluate: Evaluate;
+  try {
+    evaluate = compileExpression(plot.expression);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    marks.push({ kind: 'label', x: x + width / 2, y: y + labelSize * 1.5, text: message, size: labelSize, angle: 0, color: '#dc2626' });
+    return marks;
+  }
+
+  let piece: number[] | null = null;
+  let previous: { x: number; y: number } | null = null;
+  for (let i = 0; i <= SAMPLES; i++) {
+    const vx = xMin + ((xMax - xMin) * i) / SAMPLES;
+    const vy = evaluate(vx);
+    if (!Number.isFinite(vy)) {
+      piece = null;
+      previous = null;
+      continue;
+    }
+    const from = previous;
+    previous = { x: vx, y: vy };
+    if (!from) continue;
+    // Both beyond the same edge, or from beyond one edge to beyond the other (an asymptote)
+    if ((from.y > yMax && vy > yMax) || (from.y < yMin && vy < yMin) || (from.y > yMax && vy < yMin) || (from.y < yMin && vy > yMax)) {
+      piece = null;
+      continue;
+    }
+    // The part of the segment inside the frame, as fractions of the way along it
+    const dy = vy - from.y;
+    const [enter, exit] = dy === 0 ? [0, 1] : [(yMax - from.y) / dy, (yMin - from.y) / dy].sort((a, b) => a - b);
+    const start = Math.max(0, enter);
+    const end = Math.min(1, exit);
+    if (start > end) {
+      piece = null;
+      continue;
+    }
+    const at = (t: number) => [toX(from.x + (vx - from.x) * t), toY(from.y + dy * t)];
+    if (!piece || start > 0) {
+      piece = at(start);
+      marks.push({ kind: 'path', points: piece, stroke: plot.color, width: plot.size });
+    }
+    piece.push(...at(end));
+    if (end < 1) piece = null;
+  }
+  return marks;
+};
@@ -0,0 +1,81 @@
+import { recognizeShape } from './recognize';
+
+// A hand-drawn path through `corners`, with `steps` points along each side and a slight wobble
+const drawn = (corners: [number, number][], steps = 20) => {
+  const points: number[] = [];
+  corners.slice(1).forEach(([x, y], side) => {
+    const [fromX, fromY] = corners[side];
+    for (let i = 0; i < steps; i++) {
+      const t = i / steps;
+      const wobble = Math.sin((side * steps + i) * 1.7) * 0.002;
+      points.push(fromX + (x - fromX) * t + wobble, fromY + (y - fromY) * t - wobble);
+    }
+  });
+  const [lastX, lastY] = corners[corners.length - 1];
+  return [...points, lastX, lastY];
+};
+
+const circle = (x: number, y: number, radius: number) => {
+  const points: number[] = [];
+  for (let i = 0; i <= 60; i++) {
+    const angle = (i / 60) * Math.PI * 2;
+    const r = radius * (1 + Math.sin(i * 2.3) * 0.03);
+    points.push(x + Math.cos(angle) * r, y + Math.sin(angle) * r);
+  }
+  return points;
+};
+
+const near = (value: number, expected: number) => expect(Math.abs(value - expected)).toBeLessThan(0.02);
+
+describe('recognizeShape', () => {
+  it('tidies a circle', () => {
+    const shape = recognizeShape(circle(0.5, 0.4, 0.1));
+    expect(shape?.type).toBe('circle');
+    if (shape?.type !== 'circle') return;
+    near((shape.x1 + shape.x2) / 2, 0.5);
+    near((shape.y1 + shape.y2) / 2, 0.4);
+    near(Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1) / 2, 0.1);
+  });
+
+  it('tidies a level rectangle, wherever it was started', () => {
+    const shape = recognizeShape(drawn([[0.3, 0.2], [0.7, 0.2], [0.7, 0.5], [0.1, 0.5], [0.1, 0.2], [0.3, 0.2]]));
+    expect(shape?.type).toBe('rect');
+    if (shape?.type !== 'rect') return;
+    near(shape.x1, 0.1);
+    near(shape.y1, 0.2);
+    near(shape.x2, 0.7);
+    near(shape.y2, 0.5);
+  });
+
+  it('keeps a tilted four-sided shape as drawn', () => {
+    expect(recognizeShape(drawn([[0.4, 0.1], [0.7, 0.4], [0.4, 0.7], [0.1, 0.4], [0.4, 0.1]]))?.type).toBe('polygon');
+  });
+
+  it('tidies a triangle to its corners', () => {
+    const shape = recognizeShape(drawn([[0.2, 0.6], [0.5, 0.1], [0.8, 0.6], [0.2, 0.6]]));
+    expect(shape?.type).toBe('polygon');
+    if (shape?.type !== 'polygon') return;
+    expect(shape.points).toHaveLength(6);
+  });
+
+  it('straightens a line', () => {
+    const shape = recognizeShape(drawn([[0.1, 0.1], [0.6, 0.3]]));
+    expect(shape?.type).toBe('line');
+    if (shape?.type !== 'line') return;
+    [shape.x1, shape.y1, shape.x2, shape.y2].forEach((value, i) => near(value, [0.1, 0.1, 0.6, 0.3][i]));
+  });
+
+  it('tidies an arrow drawn shaft first', () => {
+    const shape = recognizeShape(drawn([[0.1, 0.5], [0.6, 0.5], [0.52, 0.45], [0.6, 0.5], [0.52, 0.55]]));
+    expect(shape?.type).toBe('arrow');
+    if (shape?.type !== 'arrow') return;
+    near(shape.x2, 0.6);
+    near(shape.y2, 0.5);
+  });
+
+  it('leaves handwriting alone', () => {
+    expect(recognizeShape(drawn([[0.1, 0.5], [0.15, 0.3], [0.2, 0.5], [0.25, 0.3], [0.3, 0.5], [0.35, 0.3], [0.4, 0.5]]))).toBeNull();
+    expect(recognizeShape([0.1, 0.1, 0.1, 0.1, 0.1, 0.1])).toBeNull();
+    expect(recognizeShape([0.1, 0.1, 0.2, 0.2])).toBeNull();
+  });
+});
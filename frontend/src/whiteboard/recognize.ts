@@ -0,0 +1,182 @@
+import { BoardPoint } from './coordinates';
+import { PolygonObject, ShapeObject } from './objects';
+
+// Freehand pen strokes that were meant as shapes, tidied into the shapes themselves: circles,
+// rectangles, triangles (and other polygons of three or four sides), straight lines and
+// arrows drawn in one go, shaft first. Strokes are first resampled to evenly spaced points, so
+// how fast they were drawn does not matter, and then reduced to their corners.
+
+export type RecognizedShape = Pick<ShapeObject, 'type' | 'x1' | 'y1' | 'x2' | 'y2'> | Pick<PolygonObject, 'type' | 'points'>;
+
+const SAMPLES = 64;
+// A stroke is closed when its ends are this close, as a share of its length
+const CLOSED_GAP = 0.2;
+// How far a stroke may stray from the sides of the polygon it is taken for, as a share of its size
+const CORNER_TOLERANCE = 0.06;
+// How far a straight line may bow, as a share of its length
+const STRAIGHT_TOLERANCE = 0.05;
+// How much the distance from the centre of a circle may vary, as a share of its radius
+const CIRCLE_TOLERANCE = 0.12;
+// Turns gentler than this are not corners
+const MIN_CORNER = (25 * Math.PI) / 180;
+// Rectangles this close to level come out level
+const MAX_SLANT = (12 * Math.PI) / 180;
+
+const distance = (a: BoardPoint, b: BoardPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const distanceToSegment = (p: BoardPoint, a: BoardPoint, b: BoardPoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const pathLength = (points: BoardPoint[]) => points.reduce((total, point, i) => (i === 0 ? 0 : total + distance(points[i - 1], point)), 0);
+
+// `count` points evenly spaced along the path
+const resample = (points: BoardPoint[], count: number) => {
+  const step = pathLength(points) / (count - 1);
+  const samples = [points[0]];
+  let carried = 0;
+  for (let i = 1; i < points.length && samples.length < count; i++) {
+    let from = points[i - 1];
+    const to = points[i];
+    let segment = distance(from, to);
+    while (carried + segment >= step && samples.length < count) {
+      const t = (step - carried) / segment;
+      from = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+      samples.push(from);
+      segment = distance(from, to);
+      carried = 0;
+    }
+    carried += segment;
+  }
+  while (samples.length < count) samples.push(points[points.length - 1]);
+  return samples;
+};
+
+// Ramer–Douglas–Peucker: the points of an open path that keep it within `tolerance`
+const simplify = (points: BoardPoint[], tolerance: number): BoardPoint[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], first, last);
+    if (d > farthest) {
+      farthest = d;
+      index = i;
+    }
+  }
+  if (farthest <= tolerance) return [first, last];
+  return [...simplify(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplify(points.slice(index), tolerance)];
+};
+
+// How sharply a path turns at `point`, from 0 (straight on) to π (straight back)
+const turn = (before: BoardPoint, point: BoardPoint, after: BoardPoint) => {
+  const a = Math.atan2(point.y - before.y, point.x - before.x);
+  const b = Math.atan2(after.y - point.y, after.x - point.x);
+  const angle = Math.abs(b - a) % (Math.PI * 2);
+  return angle > Math.PI ? Math.PI * 2 - angle : angle;
+};
+
+// Corners of a closed path: simplified from the point farthest from its start both ways round,
+// dropping points (the start among them) where it hardly turns
+const corners = (points: BoardPoint[], tolerance: number) => {
+  let far = 0;
+  points.forEach((point, i) => {
+    if (distance(point, points[0]) > distance(points[far], points[0])) far = i;
+  });
+  let vertices = [
+    ...simplify(points.slice(0, far + 1), tolerance).slice(0, -1),
+    ...simplify([...points.slice(far), points[0]], tolerance).slice(0, -1)
+  ];
+  let changed = true;
+  while (changed && vertices.length > 2) {
+    changed = false;
+    for (let i = 0; i < vertices.length; i++) {
+      const before = vertices[(i + vertices.length - 1) % vertices.length];
+      const after = vertices[(i + 1) % vertices.length];
+      if (turn(before, vertices[i], after) < MIN_CORNER || distance(before, vertices[i]) < tolerance) {
+        vertices = vertices.filter((_, j) => j !== i);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return vertices;
+};
+
+const flatten = (points: BoardPoint[]) => points.flatMap(point => [point.x, point.y]);
+
+const closedShape = (points: BoardPoint[], size: number): RecognizedShape | null => {
+  const vertices = corners(points, size * CORNER_TOLERANCE);
+  if (vertices.length === 3) return { type: 'polygon', points: flatten(vertices) };
+  if (vertices.length === 4) {
+    // Level rectangles are rectangles; anything else with four sides stays as drawn
+    const level = vertices.every((vertex, i) => {
+      const next = vertices[(i + 1) % 4];
+      const angle = Math.abs(Math.atan2(next.y - vertex.y, next.x - vertex.x)) % (Math.PI / 2);
+      return Math.min(angle, Math.PI / 2 - angle) <= MAX_SLANT;
+    });
+    if (!level) return { type: 'polygon', points: flatten(vertices) };
+    const xs = vertices.map(vertex => vertex.x).sort((a, b) => a - b);
+    const ys = vertices.map(vertex => vertex.y).sort((a, b) => a - b);
+    // Each side sits between the two corners on it
+    return { type: 'rect', x1: (xs[0] + xs[1]) / 2, y1: (ys[0] + ys[1]) / 2, x2: (xs[2] + xs[3]) / 2, y2: (ys[2] + ys[3]) / 2 };
+  }
+
+  const centre = {
+    x: points.reduce((total, point) => total + point.x, 0) / points.length,
+    y: points.reduce((total, point) => total + point.y, 0) / points.length
+  };
+  const distances = points.map(point => distance(point, centre));
+  const radius = distances.reduce((total, d) => total + d, 0) / distances.length;
+  const spread = Math.sqrt(distances.reduce((total, d) => total + (d - radius) ** 2, 0) / distances.length);
+  if (radius === 0 || spread / radius > CIRCLE_TOLERANCE) return null;
+  // Circles are stored by the corners of the square they are drawn through
+  const half = radius / Math.SQRT2;
+  return { type: 'circle', x1: centre.x - half, y1: centre.y - half, x2: centre.x + half, y2: centre.y + half };
+};
+
+const openShape = (points: BoardPoint[], size: number): RecognizedShape | null => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  const length = distance(start, end);
+  if (length > 0 && points.every(point => distanceToSegment(point, start, end) <= length * STRAIGHT_TOLERANCE)) {
+    return { type: 'line', x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+  }
+
+  // An arrow: a long straight shaft, then a head of one or two barbs drawn back from its tip
+  const [tail, tip, ...head] = simplify(points, size * CORNER_TOLERANCE);
+  if (!tip || head.length === 0 || head.length > 3) return null;
+  const shaft = distance(tail, tip);
+  const direction = { x: (tip.x - tail.x) / shaft, y: (tip.y - tail.y) / shaft };
+  const nearTip = head.every(point => distance(point, tip) <= shaft * 0.45);
+  const barbs = head.filter((point) => {
+    const back = distance(point, tip);
+    // Pointing back along the shaft, within 70° of it
+    return back > shaft * 0.05 && ((tip.x - point.x) * direction.x + (tip.y - point.y) * direction.y) / back >= Math.cos((70 * Math.PI) / 180);
+  });
+  if (!nearTip || barbs.length === 0) return null;
+  return { type: 'arrow', x1: tail.x, y1: tail.y, x2: tip.x, y2: tip.y };
+};
+
+/**
+ * The shape a stroke ([x0, y0, x1, y1, ...]) looks like, or null if it looks like none of them
+ */
+export const recognizeShape = (flat: number[]): RecognizedShape | null => {
+  const raw: BoardPoint[] = [];
+  for (let i = 0; i < flat.length; i += 2) raw.push({ x: flat[i], y: flat[i + 1] });
+  const length = pathLength(raw);
+  if (raw.length < 3 || length === 0) return null;
+
+  const points = resample(raw, SAMPLES);
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const size = Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  const closed = distance(points[0], points[points.length - 1]) <= length * CLOSED_GAP;
+  return closed ? closedShape(points, size) : openShape(points, size);
+};
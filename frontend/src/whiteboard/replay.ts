@@ -0,0 +1,270 @@
+import { BOARD_ASPECT } from './coordinates';
+import { BoardPage, Bounds, PageChange, Stamp, applyPageChange, pageExtent, renderObjects, withoutAuthors } from './objects';
+import { PageOp, Tombstones, applyBoardOp, removeBefore } from './sync';
+import { backgroundPlacement, loadImage } from './backgrounds';
+import { drawMarks, templateMarks } from './geometry';
+import { UploadUrl } from './export';
+
+// Recordings of the main whiteboard: the pages a session started with, then every change made
+// to them with the milliseconds since the start. The server writes them as JSON Lines, a header
+// line followed by one line per change, and that file is also what people download and open.
+
+export type ReplayEvent = { t: number } & (
+  | { type: 'op'; op: PageOp }
+  | { type: 'page'; change: PageChange }
+  | { type: 'clear'; pageId: string; stamp: Stamp }
+  | { type: 'moderate'; action: 'hide' | 'show' | 'erase'; authorId: string; hiddenAuthors: string[]; stamp?: Stamp }
+  | { type: 'navigate'; pageId: string }
+);
+
+export interface Recording {
+  classroomId: string;
+  sessionId: string;
+  startedAt: string;
+  pages: BoardPage[];
+  events: ReplayEvent[];
+  duration: number;
+}
+
+// The board at some moment of a replay. The page shown is the one last worked on or presented.
+export interface ReplayState {
+  pages: BoardPage[];
+  tombstones: Tombstones;
+  hiddenAuthors: string[];
+  pageId: string;
+  next: number; // index of the first event not applied yet
+}
+
+// Playback skips the quiet stretches between changes down to this long
+export const MAX_PAUSE_MS = 1500;
+const VIDEO_WIDTH = 1280;
+const VIDEO_FPS = 30;
+
+export const parseRecording = (text: string): Recording => {
+  try {
+    const lines = text.split('\n').filter(line => line.trim());
+    const header = JSON.parse(lines[0]);
+    if (header.type !== 'start' || !Array.isArray(header.pages)) throw new Error();
+    const events: ReplayEvent[] = lines.slice(1).map(line => JSON.parse(line));
+    // Changes recorded before they carried stamps are ordered by when they happened
+    if (header.version < 2) {
+      events.forEach((event, index) => {
+        const stamp: Stamp = [index + 1, ''];
+        if (event.type === 'clear' || event.type === 'moderate') event.stamp = stamp;
+        if (event.type === 'op' && event.op.op !== 'add' && event.op.op !== 'append') event.op.stamp = stamp;
+      });
+    }
+    const { classroomId, sessionId, startedAt, pages } = header;
+    return { classroomId, sessionId, startedAt, pages, events, duration: events.length > 0 ? events[events.length - 1].t : 0 };
+  } catch {
+    throw new Error('This is not a whiteboard recording');
+  }
+};
+
+export const startOf = (recording: Recording): ReplayState => ({
+  pages: recording.pages,
+  tombstones: new Map(),
+  hiddenAuthors: [],
+  pageId: recording.pages[0]?.id || '',
+  next: 0
+});
+
+const withObjects = (pages: BoardPage[], pageId: string, change: (page: BoardPage) => BoardPage['objects']) =>
+  pages.map(page => (page.id === pageId ? { ...page, objects: change(page) } : page));
+
+const applyEvent = (state: ReplayState, event: ReplayEvent): ReplayState => {
+  const next = state.next + 1;
+  switch (event.type) {
+    case 'op':
+      return { ...state, next, pages: withObjects(state.pages, event.op.pageId, page => applyBoardOp(page.objects, event.op, state.tombstones)), pageId: event.op.pageId };
+    case 'clear':
+      return { ...state, next, pages: withObjects(state.pages, event.pageId, page => removeBefore(page.objects, event.stamp, state.tombstones)), pageId: event.pageId };
+    case 'navigate':
+      return { ...state, next, pageId: event.pageId };
+    case 'moderate': {
+      const { action, authorId, stamp } = event;
+      const pages = action === 'erase' && stamp
+        ? state.pages.map(page => ({ ...page, objects: removeBefore(page.objects, stamp, state.tombstones, object => object.authorId !== authorId) }))
+        : state.pages;
+      return { ...state, next, pages, hiddenAuthors: event.hiddenAuthors };
+    }
+    case 'page': {
+      const { change } = event;
+      const pages = applyPageChange(state.pages, change);
+      let pageId = state.pageId;
+      if (change.action === 'add') pageId = change.page.id;
+      if (change.action === 'background' || change.action === 'template') pageId = change.pageId;
+      if (change.action === 'delete' && change.pageId === state.pageId) pageId = change.presenterPageId;
+      return { ...state, next, pages, pageId };
+    }
+    default:
+      return { ...state, next };
+  }
+};
+
+// The board at `time`, carrying on from `state` when it is not already past that point
+export const replayTo = (recording: Recording, state: ReplayState, time: number): ReplayState => {
+  let current = state.next > 0 && recording.events[state.next - 1].t > time ? startOf(recording) : state;
+  while (current.next < recording.events.length && recording.events[current.next].t <= time) {
+    current = applyEvent(current, recording.events[current.next]);
+  }
+  return current;
+};
+
+// Move playback on from `time`, where the board is `state`, by `elapsed` milliseconds at
+// `speed`, skipping long pauses if asked to
+export const advance = (recording: Recording, state: ReplayState, time: number, elapsed: number, speed: number, skipPauses: boolean) => {
+  let next = time + elapsed * speed;
+  const upcoming = recording.events[state.next];
+  if (skipPauses && upcoming && upcoming.t - next > MAX_PAUSE_MS) next = upcoming.t - MAX_PAUSE_MS;
+  return Math.min(next, recording.duration);
+};
+
+// How each page is framed: around everything it ever held, so the view does not jump about
+export const pageFrames = (recording: Recording) => {
+  const frames = new Map<string, Bounds>();
+  let state = startOf(recording);
+  const widen = () => state.pages.forEach((page) => {
+    const extent = pageExtent(page.objects);
+    const frame = frames.get(page.id);
+    if (!frame) {
+      frames.set(page.id, extent);
+      return;
+    }
+    const x = Math.min(frame.x, extent.x);
+    const y = Math.min(frame.y, extent.y);
+    frames.set(page.id, {
+      x,
+      y,
+      width: Math.max(frame.x + frame.width, extent.x + extent.width) - x,
+      height: Math.max(frame.y + frame.height, extent.y + extent.height) - y
+    });
+  });
+  widen();
+  // Looking at the board a couple of hundred times along the way is enough on long recordings
+  const step = Math.max(1, Math.floor(recording.events.length / 200));
+  for (let index = 0; index < recording.events.length; index += step) {
+    const last = Math.min(index + step, recording.events.length) - 1;
+    state = replayTo(recording, state, recording.events[last].t);
+    widen();
+  }
+  return frames;
+};
+
+// Every background image the recording uses, loaded ahead so frames can be drawn straight away
+export const loadBackgrounds = async (recording: Recording, uploadUrl: UploadUrl) => {
+  const uploads = new Set<string>();
+  recording.pages.forEach(page => page.background && uploads.add(page.background.upload));
+  recording.events.forEach((event) => {
+    if (event.type !== 'page') return;
+    const { change } = event;
+    if (change.action === 'add' && change.page.background) uploads.add(change.page.background.upload);
+    if (change.action === 'background' && change.background) uploads.add(change.background.upload);
+  });
+  const images = new Map<string, HTMLImageElement>();
+  await Promise.all(Array.from(uploads).map(upload => loadImage(uploadUrl(upload)).then(
+    image => images.set(upload, image),
+    () => undefined // a missing background leaves the page white
+  )));
+  return images;
+};
+
+/**
+ * Draw the page a replay is showing onto `canvas`, fitted into its frame and centred. `ink` is a
+ * scratch canvas the drawing goes on first, so erasers do not cut through the background.
+ */
+export const drawReplayFrame = (
+  canvas: HTMLCanvasElement,
+  ink: HTMLCanvasElement,
+  state: ReplayState,
+  frames: Map<string, Bounds>,
+  images: Map<string, HTMLImageElement>
+) => {
+  const ctx = canvas.getContext('2d');
+  const inkCtx = ink.getContext('2d');
+  if (!ctx || !inkCtx) return;
+  ink.width = canvas.width;
+  ink.height = canvas.height;
+
+  const page = state.pages.find(item => item.id === state.pageId);
+  const frame = (page && frames.get(page.id)) || { x: 0, y: 0, width: 1, height: 1 / BOARD_ASPECT };
+  const scale = Math.min(canvas.width / frame.width, canvas.height / frame.height);
+  const toCanvas = (target: CanvasRenderingContext2D) => target.setTransform(
+    scale, 0, 0, scale,
+    (canvas.width - frame.width * scale) / 2 - frame.x * scale,
+    (canvas.height - frame.height * scale) / 2 - frame.y * scale
+  );
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  if (!page) return;
+  const image = page.background && images.get(page.background.upload);
+  if (page.background && image) {
+    const { x, y, width, height } = backgroundPlacement(page.background);
+    toCanvas(ctx);
+    ctx.drawImage(image, x, y, width, height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }
+  if (page.template) {
+    toCanvas(ctx);
+    drawMarks(ctx, templateMarks(page.template));
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }
+  toCanvas(inkCtx);
+  renderObjects(inkCtx, withoutAuthors(page.objects, state.hiddenAuthors));
+  ctx.drawImage(ink, 0, 0);
+};
+
+const videoType = () => ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Play a recording onto a hidden canvas and capture it as a WebM video. This takes as long as
+ * the replay itself at `speed`, so `onProgress` reports how far it has got (0 to 1) and
+ * `isCancelled` can stop it early, in which case it resolves to null.
+ */
+export const recordVideo = async (
+  recording: Recording,
+  uploadUrl: UploadUrl,
+  options: { speed: number; skipPauses: boolean; onProgress: (fraction: number) => void; isCancelled: () => boolean }
+) => {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : videoType();
+  if (!mimeType) throw new Error('This browser cannot record video');
+
+  const frames = pageFrames(recording);
+  const images = await loadBackgrounds(recording, uploadUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = VIDEO_WIDTH;
+  canvas.height = Math.round(VIDEO_WIDTH / BOARD_ASPECT);
+  const ink = document.createElement('canvas');
+  let state = startOf(recording);
+  drawReplayFrame(canvas, ink, state, frames, images);
+
+  const recorder = new MediaRecorder(canvas.captureStream(VIDEO_FPS), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+  recorder.start(1000);
+
+  let time = 0;
+  let last = performance.now();
+  while (!options.isCancelled()) {
+    await new Promise(resolve => setTimeout(resolve, 1000 / VIDEO_FPS));
+    const now = performance.now();
+    time = advance(recording, state, time, now - last, options.speed, options.skipPauses);
+    last = now;
+    state = replayTo(recording, state, time);
+    drawReplayFrame(canvas, ink, state, frames, images);
+    options.onProgress(recording.duration > 0 ? time / recording.duration : 1);
+    if (time >= recording.duration) break;
+  }
+  // Hold the finished board for a moment at the end of the video
+  if (!options.isCancelled()) await new Promise(resolve => setTimeout(resolve, 1000));
+  recorder.stop();
+  await stopped;
+  return options.isCancelled() ? null : new Blob(chunks, { type: 'video/webm' });
+};
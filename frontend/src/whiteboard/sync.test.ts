@@ -0,0 +1,88 @@
+import { BoardObject, BoardOp, Stamp } from './objects';
+import { Tombstones, applyBoardOp, compareStamps, opCounter, removeBefore, stampChange, tombstonesOf } from './sync';
+import { inEveryOrder, pen } from './fixtures';
+
+const applyAll = (objects: BoardObject[], ops: BoardOp[], tombstones: Tombstones) =>
+  ops.reduce((current, op) => applyBoardOp(current, op, tombstones), objects);
+
+// Everything two copies of a page have to agree on
+const stateAfter = (ops: BoardOp[]) => {
+  const tombstones = tombstonesOf();
+  const objects = applyAll([], ops, tombstones);
+  return { objects, tombstones: Array.from(tombstones).sort(([a], [b]) => (a < b ? -1 : 1)) };
+};
+
+const shared: BoardOp[] = [
+  { op: 'add', object: pen('x', [1, 'a']) },
+  { op: 'add', object: pen('y', [2, 'b']) }
+];
+
+// Made at the same time by clients that had each seen only the shared changes
+const concurrent: BoardOp[] = [
+  { op: 'update', id: 'x', changes: { color: '#ff0000' }, stamp: [5, 'a'] },
+  { op: 'update', id: 'x', changes: { color: '#00ff00', size: 0.01 }, stamp: [5, 'b'] },
+  { op: 'update', id: 'y', changes: { color: '#0000ff' }, stamp: [4, 'a'] },
+  { op: 'delete', id: 'y', stamp: [6, 'c'] },
+  { op: 'restore', id: 'y', object: { ...pen('y', [2, 'b']), stamps: { alive: [7, 'c'] } }, stamp: [7, 'c'] },
+  { op: 'add', object: pen('z', [3, 'b']) },
+  { op: 'append', id: 'z', offset: 4, points: [0.3, 0.3] }
+];
+
+describe('applyBoardOp', () => {
+  it('ends with the same page whatever order changes arrive in', () => {
+    const expected = stateAfter([...shared, ...concurrent]);
+    inEveryOrder(concurrent.slice(0, 6), order => stateAfter([...shared, ...order, concurrent[6]])).forEach((outcome) => {
+      expect(outcome).toEqual(expected);
+    });
+    expect(expected.objects.map(object => [object.id, object.color])).toEqual([['x', '#00ff00'], ['y', '#0000ff'], ['z', '#000000']]);
+  });
+
+  it('changes nothing when changes arrive twice', () => {
+    const tombstones = tombstonesOf();
+    const objects = applyAll([], [...shared, ...concurrent], tombstones);
+    expect(applyAll(objects, concurrent, tombstones)).toBe(objects);
+  });
+
+  it('keeps changes made to deleted objects for when they are restored', () => {
+    const { objects } = stateAfter([
+      ...shared,
+      { op: 'delete', id: 'x', stamp: [3, 'a'] },
+      { op: 'update', id: 'x', changes: { color: '#ff0000' }, stamp: [4, 'b'] },
+      { op: 'add', object: pen('x', [1, 'a']) },
+      { op: 'restore', id: 'x', object: pen('x', [1, 'a']), stamp: [5, 'a'] }
+    ]);
+    expect(objects.map(object => [object.id, object.color])).toEqual([['x', '#ff0000'], ['y', '#000000']]);
+  });
+
+  it('draws objects in the order they were made', () => {
+    const { objects } = stateAfter([...shared].reverse());
+    expect(objects.map(object => object.id)).toEqual(['x', 'y']);
+  });
+});
+
+describe('removeBefore', () => {
+  it('leaves what was put on the page since', () => {
+    const tombstones = tombstonesOf();
+    const objects = applyAll([], [...shared, { op: 'add', object: pen('z', [9, 'a']) }], tombstones);
+    expect(removeBefore(objects, [5, 'server'], tombstones, object => object.id === 'x').map(object => object.id)).toEqual(['x', 'z']);
+    expect(tombstones.get('y')?.stamp).toEqual([5, 'server']);
+  });
+});
+
+describe('stampChange', () => {
+  it('stamps changes and places appends at the end of their stroke', () => {
+    const next = () => [8, 'a'] as Stamp;
+    const objects = [pen('x', [1, 'a'])];
+    expect(stampChange({ op: 'delete', id: 'x' }, objects, next)).toEqual({ op: 'delete', id: 'x', stamp: [8, 'a'] });
+    expect(stampChange({ op: 'append', id: 'x', points: [0.5, 0.5] }, objects, next)).toEqual({ op: 'append', id: 'x', offset: 4, points: [0.5, 0.5] });
+    const added = stampChange({ op: 'add', object: { ...pen('copy', [1, 'b']), stamps: { color: [3, 'b'] } } }, objects, next);
+    expect(added).toEqual({ op: 'add', object: pen('copy', [8, 'a']) });
+    expect(opCounter(added)).toBe(8);
+  });
+
+  it('orders stamps by counter, then replica', () => {
+    expect(compareStamps([2, 'a'], [1, 'z'])).toBeGreaterThan(0);
+    expect(compareStamps([2, 'a'], [2, 'b'])).toBeLessThan(0);
+    expect(compareStamps([2, 'a'], [2, 'a'])).toBe(0);
+  });
+});
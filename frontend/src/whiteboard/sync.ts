@@ -0,0 +1,145 @@
+import { BoardChange, BoardObject, BoardOp, Stamp, isStroke } from './objects';
+
+// Keeping every copy of a board the same, whatever order changes reach it in and however often.
+// These are the rules the server applies too (see board.js): every change carries a stamp,
+// [counter, replica], from a Lamport clock each client keeps, with a random replica id per
+// client to break ties. Each field of an object goes to the change with the highest stamp, and
+// so does whether the object is on the board at all; deleted objects leave a tombstone so late
+// changes to them do not bring them back. Objects are drawn in the order they were created.
+
+export type PageOp = BoardOp & { pageId: string };
+
+// A deleted object: when it went, and the object itself where this client had it, so changes
+// that arrive late still reach it and restoring it brings back the latest version
+export interface Tombstone {
+  stamp: Stamp;
+  object?: BoardObject;
+}
+
+export type Tombstones = Map<string, Tombstone>;
+
+const NO_STAMP: Stamp = [0, ''];
+const MAX_TOMBSTONES = 5000;
+
+export const compareStamps = (a: Stamp, b: Stamp) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0);
+
+const createdStamp = (object: BoardObject) => object.created || NO_STAMP;
+// When an object was last put on the board: created, or restored after being deleted
+const aliveStamp = (object: BoardObject) => object.stamps?.alive || createdStamp(object);
+
+export const tombstonesOf = (deleted: [string, Stamp][] = []): Tombstones =>
+  new Map(deleted.map(([id, stamp]) => [id, { stamp }]));
+
+const bury = (tombstones: Tombstones, id: string, tombstone: Tombstone) => {
+  tombstones.delete(id);
+  tombstones.set(id, tombstone);
+  if (tombstones.size > MAX_TOMBSTONES) tombstones.delete(tombstones.keys().next().value as string);
+};
+
+const insertObject = (objects: BoardObject[], object: BoardObject) => {
+  let index = objects.length;
+  while (index > 0 && compareStamps(createdStamp(objects[index - 1]), createdStamp(object)) > 0) index--;
+  return [...objects.slice(0, index), object, ...objects.slice(index)];
+};
+
+const withAlive = (object: BoardObject, stamp: Stamp) => ({ ...object, stamps: { ...object.stamps, alive: stamp } });
+
+// `object` with the fields of `changes` that are newer than its own, or null if none are
+const mergeChanges = (object: BoardObject, changes: Partial<BoardObject>, stamp: Stamp): BoardObject | null => {
+  const stamps = { ...object.stamps };
+  const applied: { [field: string]: unknown } = {};
+  Object.entries(changes).forEach(([field, value]) => {
+    if (stamps[field] && compareStamps(stamp, stamps[field]) <= 0) return;
+    applied[field] = value;
+    stamps[field] = stamp;
+  });
+  return Object.keys(applied).length > 0 ? { ...object, ...applied, stamps } as BoardObject : null;
+};
+
+/**
+ * Apply an op to the objects of one page. Returns the objects afterwards (the same array when
+ * nothing changed); `tombstones` is kept up to date in place.
+ */
+export const applyBoardOp = (objects: BoardObject[], op: BoardOp, tombstones: Tombstones): BoardObject[] => {
+  const id = op.op === 'add' ? op.object.id : op.id;
+  const index = objects.findIndex(object => object.id === id);
+  const object = index >= 0 ? objects[index] : undefined;
+  const buried = tombstones.get(id);
+  const target = object || buried?.object;
+  // Deleted objects still take changes, in their tombstone
+  const replace = (updated: BoardObject) => {
+    if (object) return objects.map(item => (item === object ? updated : item));
+    if (buried) buried.object = updated;
+    return objects;
+  };
+
+  switch (op.op) {
+    case 'add':
+      return object || buried ? objects : insertObject(objects, op.object);
+    case 'append': {
+      // Points the stroke already has are skipped
+      if (!target || !isStroke(target) || op.offset > target.points.length) return objects;
+      const skip = target.points.length - op.offset;
+      const points = op.points.slice(skip);
+      if (points.length === 0) return objects;
+      const pressures = target.pressures && { pressures: [...target.pressures, ...(op.pressures || []).slice(skip / 2)] };
+      return replace({ ...target, points: [...target.points, ...points], ...pressures });
+    }
+    case 'update': {
+      const merged = target && mergeChanges(target, op.changes, op.stamp);
+      return merged ? replace(merged) : objects;
+    }
+    case 'delete':
+      if (!object) {
+        if (!buried || compareStamps(op.stamp, buried.stamp) > 0) bury(tombstones, id, { ...buried, stamp: op.stamp });
+        return objects;
+      }
+      if (compareStamps(op.stamp, aliveStamp(object)) <= 0) return objects;
+      bury(tombstones, id, { stamp: op.stamp, object });
+      return objects.filter(item => item !== object);
+    case 'restore':
+      if (object) return compareStamps(op.stamp, aliveStamp(object)) > 0 ? replace(withAlive(object, op.stamp)) : objects;
+      if (buried && compareStamps(op.stamp, buried.stamp) <= 0) return objects;
+      tombstones.delete(id);
+      return insertObject(objects, withAlive(buried?.object || op.object, op.stamp));
+    default:
+      return objects;
+  }
+};
+
+/**
+ * What is left of a page once everything put on it before `stamp` is removed, as when staff
+ * clear it, apart from the objects `keep` says stay
+ */
+export const removeBefore = (objects: BoardObject[], stamp: Stamp, tombstones: Tombstones, keep: (object: BoardObject) => boolean = () => false) =>
+  objects.filter((object) => {
+    if (keep(object) || compareStamps(aliveStamp(object), stamp) >= 0) return true;
+    bury(tombstones, object.id, { stamp, object });
+    return false;
+  });
+
+// The highest stamp counter in an op, which the local clock has to move past
+export const opCounter = (op: BoardOp) => Math.max(
+  op.op === 'add' ? createdStamp(op.object)[0] : 0,
+  op.op === 'update' || op.op === 'delete' || op.op === 'restore' ? op.stamp[0] : 0
+);
+
+/**
+ * Turn a change made on this client into an op, with a new stamp from `next` (or, for an
+ * append, the place in the stroke its points go)
+ */
+export const stampChange = (change: BoardChange, objects: BoardObject[], next: () => Stamp): BoardOp => {
+  switch (change.op) {
+    case 'add': {
+      // Copies of other objects do not take their history with them
+      const { stamps, ...object } = change.object;
+      return { op: 'add', object: { ...object, created: next() } as BoardObject };
+    }
+    case 'append': {
+      const stroke = objects.find(object => object.id === change.id);
+      return { ...change, offset: stroke && isStroke(stroke) ? stroke.points.length : 0 };
+    }
+    default:
+      return { ...change, stamp: next() } as BoardOp;
+  }
+};
@@ -0,0 +1,66 @@
+import { PageAppend, decodePoints, encodePoints, quantize, quantizePressure } from './wire';
+// The server relays batches as they are but decodes them to keep its copy of the board, so
+// its encoding is checked against this one too
+import { serverWire } from './fixtures';
+
+const stroke = (pageId: string, id: string, offset: number, points: number[], pressures?: number[]): PageAppend => ({
+  op: 'append',
+  pageId,
+  id,
+  offset,
+  points: points.map(quantize),
+  ...(pressures ? { pressures: pressures.map(quantizePressure) } : {})
+});
+
+const withoutOp = (appends: PageAppend[]) => appends.map(({ op, ...append }) => append);
+
+describe('wire', () => {
+  it('decodes what it encodes', () => {
+    const appends = [
+      stroke('page-1', 'stroke-a', 0, [0.1, 0.2, 0.1003, 0.2101, 0.5, 0.9]),
+      stroke('page-1', 'stroke-b', 4, [0.7, 0.3], [0.42]),
+      stroke('page-2', 'stroke-c', 0, [-0.25, 1.75, 0.25, -1.5])
+    ];
+    expect(decodePoints(encodePoints(appends))).toEqual(appends);
+  });
+
+  it('keeps ids in any script', () => {
+    const appends = [stroke('страница', '笔画-1', 0, [0.5, 0.5])];
+    expect(decodePoints(encodePoints(appends))).toEqual(appends);
+  });
+
+  it('sends appends that carry on from each other as one record', () => {
+    const first = stroke('page-1', 'stroke-a', 0, [0.1, 0.1, 0.2, 0.2], [0.2, 0.4]);
+    const second = stroke('page-1', 'stroke-a', 4, [0.3, 0.3], [0.6]);
+    expect(decodePoints(encodePoints([first, second]))).toEqual([
+      { ...first, points: [...first.points, ...second.points], pressures: [...first.pressures!, ...second.pressures!] }
+    ]);
+  });
+
+  it('keeps appends that do not carry on apart', () => {
+    const appends = [
+      stroke('page-1', 'stroke-a', 0, [0.1, 0.1]),
+      stroke('page-1', 'stroke-a', 6, [0.3, 0.3]),
+      stroke('page-1', 'stroke-a', 8, [0.4, 0.4], [0.5])
+    ];
+    expect(decodePoints(encodePoints(appends))).toEqual(appends);
+  });
+
+  it('turns down what is not a batch', () => {
+    const batch = encodePoints([stroke('page-1', 'stroke-a', 0, [0.1, 0.1, 0.2, 0.2])]);
+    expect(decodePoints(Uint8Array.from([2]))).toBeNull();
+    expect(decodePoints(batch.subarray(0, batch.length - 1))).toBeNull();
+    expect(decodePoints(Uint8Array.from([1, 200]))).toBeNull();
+    expect(decodePoints(Uint8Array.from([1, 0, 0, 0, 255, 255, 255, 255, 255, 255, 255, 255]))).toBeNull();
+  });
+
+  it('is the same encoding the server uses', () => {
+    const appends = [
+      stroke('page-1', 'stroke-a', 0, [0.1, 0.2, 0.3, 0.4], [0.1, 1]),
+      stroke('page-3', 'stroke-b', 10, [-0.5, 2.5])
+    ];
+    const batch = encodePoints(appends);
+    expect(Uint8Array.from(serverWire.encodePoints(withoutOp(appends)))).toEqual(batch);
+    expect(serverWire.decodePoints(Buffer.from(batch))).toEqual(withoutOp(appends));
+  });
+});
@@ -0,0 +1,135 @@
+import { BoardOp } from './objects';
+
+// The compact encoding of points added to strokes while they are drawn, sent as one binary
+// batch per animation frame instead of a JSON op per pointer move. backend/wire.js has the
+// layout; the two must stay the same.
+
+export type PageAppend = Extract<BoardOp, { op: 'append' }> & { pageId: string };
+
+const WIRE_VERSION = 1;
+const SCALE = 2 ** 18;
+const HAS_PRESSURES = 1;
+const MAX_STRING_LENGTH = 64;
+const MAX_POINTS = 10000;
+
+// Points and pressures are rounded to what the encoding can carry when they are sampled, so
+// the copy drawn here is exactly the one everyone else receives
+export const quantize = (value: number) => Math.round(value * SCALE) / SCALE;
+export const quantizePressure = (pressure: number) => Math.round(pressure * 255) / 255;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const writeVarint = (bytes: number[], value: number) => {
+  while (value >= 128) {
+    bytes.push((value % 128) + 128);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+};
+
+const writeString = (bytes: number[], text: string) => {
+  const encoded = textEncoder.encode(text);
+  writeVarint(bytes, encoded.length);
+  encoded.forEach(byte => bytes.push(byte));
+};
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+const unzigzag = (value: number) => (value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+
+// One batch for the appends; ones that carry straight on from the append before go as one record
+export const encodePoints = (appends: PageAppend[]) => {
+  const records: PageAppend[] = [];
+  appends.forEach((append) => {
+    const last = records[records.length - 1];
+    if (last && last.pageId === append.pageId && last.id === append.id && last.offset + last.points.length === append.offset &&
+      !last.pressures === !append.pressures) {
+      records[records.length - 1] = {
+        ...last,
+        points: [...last.points, ...append.points],
+        ...(last.pressures ? { pressures: [...last.pressures, ...(append.pressures || [])] } : {})
+      };
+    } else {
+      records.push(append);
+    }
+  });
+
+  const bytes: number[] = [WIRE_VERSION];
+  records.forEach(({ pageId, id, offset, points, pressures }) => {
+    writeString(bytes, pageId);
+    writeString(bytes, id);
+    writeVarint(bytes, offset);
+    writeVarint(bytes, points.length / 2);
+    bytes.push(pressures ? HAS_PRESSURES : 0);
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < points.length; i += 2) {
+      const nextX = Math.round(points[i] * SCALE);
+      const nextY = Math.round(points[i + 1] * SCALE);
+      writeVarint(bytes, zigzag(nextX - x));
+      writeVarint(bytes, zigzag(nextY - y));
+      x = nextX;
+      y = nextY;
+    }
+    if (pressures) pressures.forEach(pressure => bytes.push(Math.round(pressure * 255)));
+  });
+  return Uint8Array.from(bytes);
+};
+
+// The appends in a batch, or null if it is not one
+export const decodePoints = (buffer: Uint8Array): PageAppend[] | null => {
+  let position = 0;
+  const readByte = () => {
+    if (position >= buffer.length) throw new Error('Batch ends early');
+    return buffer[position++];
+  };
+  const readVarint = () => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = readByte();
+      value += (byte % 128) * scale;
+      if (byte < 128) return value;
+      scale *= 128;
+      if (scale > 2 ** 49) throw new Error('Number too long');
+    }
+  };
+  const readString = () => {
+    const length = readVarint();
+    if (length > MAX_STRING_LENGTH || position + length > buffer.length) throw new Error('Bad string');
+    const text = textDecoder.decode(buffer.subarray(position, position + length));
+    position += length;
+    return text;
+  };
+
+  try {
+    if (readByte() !== WIRE_VERSION) return null;
+    const appends: PageAppend[] = [];
+    while (position < buffer.length) {
+      const pageId = readString();
+      const id = readString();
+      const offset = readVarint();
+      const count = readVarint();
+      if (count > MAX_POINTS) return null;
+      const flags = readByte();
+      const points: number[] = [];
+      let x = 0;
+      let y = 0;
+      for (let i = 0; i < count; i++) {
+        x += unzigzag(readVarint());
+        y += unzigzag(readVarint());
+        points.push(x / SCALE, y / SCALE);
+      }
+      const append: PageAppend = { op: 'append', pageId, id, offset, points };
+      if (flags & HAS_PRESSURES) {
+        const pressures: number[] = [];
+        for (let i = 0; i < count; i++) pressures.push(readByte() / 255);
+        append.pressures = pressures;
+      }
+      appends.push(append);
+    }
+    return appends;
+  } catch {
+    return null;
+  }
+};